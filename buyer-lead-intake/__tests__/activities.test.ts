@@ -0,0 +1,37 @@
+import { mergeTimeline } from '@/lib/activities'
+
+describe('Activity Timeline', () => {
+  const at = (minute: number) => new Date(Date.UTC(2026, 0, 15, 10, minute))
+
+  const activities = [
+    { id: 'call', occurredAt: at(40) },
+    { id: 'note', occurredAt: at(20) },
+    { id: 'visit', occurredAt: at(5) },
+  ]
+  const history = [
+    { id: 'updated', changedAt: at(30) },
+    { id: 'moved', changedAt: at(20) },
+    { id: 'created', changedAt: at(0) },
+  ]
+
+  it('should interleave activities and changes newest first', () => {
+    expect(mergeTimeline(activities, history).map(entry => `${entry.kind}:${entry.id}`)).toEqual([
+      'activity:call',
+      'change:updated',
+      'activity:note',
+      'change:moved',
+      'activity:visit',
+      'change:created',
+    ])
+  })
+
+  it('should stop at the limit', () => {
+    const timeline = mergeTimeline(activities, history, 2)
+    expect(timeline.map(entry => entry.id)).toEqual(['call', 'updated'])
+    expect(timeline[1].at).toEqual(at(30))
+  })
+
+  it('should handle a lead with only history', () => {
+    expect(mergeTimeline([], history).map(entry => entry.kind)).toEqual(['change', 'change', 'change'])
+  })
+})
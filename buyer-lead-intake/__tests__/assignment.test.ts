@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+import { assignOwner, pickLeastLoaded, ruleMatches, type AssignmentContext } from '@/lib/assignment'
+import type { AssignmentRule } from '@prisma/client'
+
+describe('Lead Assignment', () => {
+  const lead = {
+    city: 'MOHALI' as const,
+    propertyType: 'APARTMENT' as const,
+    purpose: 'BUY' as const,
+    source: 'WEBSITE' as const,
+    budgetMin: 5000000,
+    budgetMax: 8000000,
+  }
+
+  const makeRule = (overrides: Partial<AssignmentRule>): AssignmentRule => ({
+    id: 'rule-1',
+    name: 'Rule',
+    priority: 0,
+    active: true,
+    city: null,
+    propertyType: null,
+    purpose: null,
+    source: null,
+    budgetMin: null,
+    budgetMax: null,
+    assigneeId: 'agent-rule',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  })
+
+  describe('ruleMatches', () => {
+    it('should match on equal criteria and ignore empty ones', () => {
+      expect(ruleMatches(makeRule({ city: 'MOHALI', purpose: 'BUY' }), lead)).toBe(true)
+      expect(ruleMatches(makeRule({ city: 'CHANDIGARH' }), lead)).toBe(false)
+    })
+
+    it('should match budget bands that overlap the lead budget', () => {
+      expect(ruleMatches(makeRule({ budgetMin: 7000000, budgetMax: 10000000 }), lead)).toBe(true)
+      expect(ruleMatches(makeRule({ budgetMin: 9000000 }), lead)).toBe(false)
+      expect(ruleMatches(makeRule({ budgetMax: 5000000 }), lead)).toBe(true)
+    })
+
+    it('should not match a budget band when the lead has no budget', () => {
+      const noBudget = { ...lead, budgetMin: undefined, budgetMax: undefined }
+      expect(ruleMatches(makeRule({ budgetMin: 0, budgetMax: 10000000 }), noBudget)).toBe(false)
+    })
+  })
+
+  describe('pickLeastLoaded', () => {
+    it('should prefer the agent with the fewest open leads', () => {
+      const picked = pickLeastLoaded([
+        { id: 'a', openLeads: 4, lastAssignedAt: null },
+        { id: 'b', openLeads: 1, lastAssignedAt: new Date() },
+      ])
+      expect(picked?.id).toBe('b')
+    })
+
+    it('should break ties by least recent assignment', () => {
+      const picked = pickLeastLoaded([
+        { id: 'a', openLeads: 2, lastAssignedAt: new Date('2024-02-01') },
+        { id: 'b', openLeads: 2, lastAssignedAt: new Date('2024-01-01') },
+      ])
+      expect(picked?.id).toBe('b')
+    })
+
+    it('should return null for an empty pool', () => {
+      expect(pickLeastLoaded([])).toBeNull()
+    })
+  })
+
+  describe('assignOwner', () => {
+    it('should use the first matching active rule', () => {
+      const context: AssignmentContext = {
+        rules: [
+          makeRule({ id: 'inactive', active: false, city: 'MOHALI', assigneeId: 'x' }),
+          makeRule({ id: 'mohali', city: 'MOHALI', assigneeId: 'agent-mohali' }),
+        ],
+        pool: [],
+      }
+      expect(assignOwner(context, lead, 'creator')).toEqual({ ownerId: 'agent-mohali', via: 'rule', ruleId: 'mohali' })
+    })
+
+    it('should spread unmatched leads across the pool', () => {
+      const context: AssignmentContext = {
+        rules: [],
+        pool: [
+          { id: 'a', openLeads: 0, lastAssignedAt: null },
+          { id: 'b', openLeads: 1, lastAssignedAt: null },
+        ],
+      }
+      const owners = [1, 2, 3, 4].map(() => assignOwner(context, lead, 'creator').ownerId)
+      expect(owners).toEqual(['a', 'b', 'a', 'b'])
+    })
+
+    it('should keep the lead with the creator when the pool is empty', () => {
+      expect(assignOwner({ rules: [], pool: [] }, lead, 'creator')).toEqual({ ownerId: 'creator', via: 'creator' })
+    })
+  })
+})
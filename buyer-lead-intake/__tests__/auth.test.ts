@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ */
+import { createInvite, login, type User } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+
+jest.mock('../lib/db', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      upsert: jest.fn(),
+    },
+  },
+}))
+
+const findUnique = prisma.user.findUnique as jest.Mock
+const upsert = prisma.user.upsert as jest.Mock
+const create = prisma.user.create as jest.Mock
+
+describe('Invites', () => {
+  const agent: User = { id: 'agent-1', email: 'agent@example.com', role: 'AGENT', teamId: 'team-a' }
+  const admin: User = { id: 'admin-1', email: 'admin@example.com', role: 'ADMIN', teamId: null }
+  const pending = { id: 'user-2', email: 'new@example.com', name: 'New', passwordHash: null, role: 'ADMIN', teamId: null }
+
+  beforeEach(() => {
+    findUnique.mockReset()
+    upsert.mockReset()
+    upsert.mockImplementation(({ create }) => Promise.resolve({ id: 'user-2', ...create }))
+  })
+
+  it('should invite a new email', async () => {
+    findUnique.mockResolvedValue(null)
+
+    const result = await createInvite('new@example.com', 'New', agent, 'AGENT', 'team-a')
+
+    expect(result?.inviteToken).toMatch(/^[0-9a-f]{64}$/)
+    expect(upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: expect.objectContaining({ email: 'new@example.com', invitedBy: 'agent-1', role: 'AGENT', teamId: 'team-a' }),
+    }))
+  })
+
+  it('should not let non-admins re-invite a pending user', async () => {
+    findUnique.mockResolvedValue(pending)
+
+    expect(await createInvite('new@example.com', undefined, agent, 'AGENT', 'team-a')).toBeNull()
+    expect(upsert).not.toHaveBeenCalled()
+  })
+
+  it('should let admins re-issue a pending invite', async () => {
+    findUnique.mockResolvedValue(pending)
+
+    const result = await createInvite('new@example.com', undefined, admin, 'TEAM_LEAD', 'team-b')
+
+    expect(result?.inviteToken).toMatch(/^[0-9a-f]{64}$/)
+    expect(upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: expect.objectContaining({ inviteToken: result?.inviteToken, role: 'TEAM_LEAD', teamId: 'team-b' }),
+    }))
+  })
+
+  it('should never re-invite an account that has a password', async () => {
+    findUnique.mockResolvedValue({ ...pending, passwordHash: 'hash' })
+
+    expect(await createInvite('new@example.com', undefined, admin)).toBeNull()
+    expect(await createInvite('new@example.com', undefined, agent)).toBeNull()
+    expect(upsert).not.toHaveBeenCalled()
+  })
+})
+
+describe('Demo User', () => {
+  it('should not create the demo user outside development without a configured password', async () => {
+    expect(process.env.DEMO_USER_PASSWORD).toBeUndefined()
+    findUnique.mockReset()
+    findUnique.mockResolvedValue(null)
+
+    expect(await login('demo@example.com', 'demo123')).toBeNull()
+    expect(create).not.toHaveBeenCalled()
+  })
+})
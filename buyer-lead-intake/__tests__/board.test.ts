@@ -0,0 +1,25 @@
+import { columnTotals } from '@/lib/board'
+
+describe('Pipeline Board', () => {
+  describe('columnTotals', () => {
+    it('should have a column for every status, even when empty', () => {
+      const totals = columnTotals([])
+      expect(Object.keys(totals)).toHaveLength(7)
+      expect(totals.CONVERTED).toEqual({ count: 0, budgetLow: 0, budgetHigh: 0 })
+    })
+
+    it('should count leads and sum budget ranges per status', () => {
+      const totals = columnTotals([
+        { status: 'NEW', budgetMin: 5000000, budgetMax: 7000000 },
+        { status: 'NEW', budgetMin: 3000000, budgetMax: null },
+        { status: 'NEW', budgetMin: null, budgetMax: 2000000 },
+        { status: 'NEW', budgetMin: null, budgetMax: null },
+        { status: 'DROPPED', budgetMin: 1000000, budgetMax: 1500000 },
+      ])
+
+      expect(totals.NEW).toEqual({ count: 4, budgetLow: 10000000, budgetHigh: 12000000 })
+      expect(totals.DROPPED).toEqual({ count: 1, budgetLow: 1000000, budgetHigh: 1500000 })
+      expect(totals.QUALIFIED.count).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,26 @@
+/**
+ * @jest-environment node
+ */
+import { bulkTagChange } from '@/lib/bulk'
+
+describe('Bulk Actions', () => {
+  describe('bulkTagChange', () => {
+    it('should add tags the buyer does not have yet', () => {
+      expect(bulkTagChange(['vip'], 'addTags', ['vip', 'diwali campaign'])).toEqual({ tags: ['vip', 'diwali campaign'] })
+    })
+
+    it('should skip buyers that already have every tag', () => {
+      expect(bulkTagChange(['vip', 'nri'], 'addTags', ['nri'])).toEqual({ error: 'Buyer already has these tags' })
+    })
+
+    it('should not add past the tag limit', () => {
+      const current = Array.from({ length: 20 }, (_, i) => `tag ${i}`)
+      expect(bulkTagChange(current, 'addTags', ['one more'])).toEqual({ error: 'At most 20 tags are allowed' })
+    })
+
+    it('should remove only the given tags', () => {
+      expect(bulkTagChange(['vip', 'nri', 'hot'], 'removeTags', ['nri', 'missing'])).toEqual({ tags: ['vip', 'hot'] })
+      expect(bulkTagChange(['vip'], 'removeTags', ['nri'])).toEqual({ error: 'Buyer has none of these tags' })
+    })
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+import { duplicateReasons, groupDuplicates, namesMatch, resolveMergedFields } from '@/lib/duplicates'
+
+describe('Duplicate Detection', () => {
+  describe('namesMatch', () => {
+    it('should ignore case, accents and word order', () => {
+      expect(namesMatch('Rahul Sharma', 'sharma  RAHUL')).toBe(true)
+      expect(namesMatch('José Kumar', 'Jose Kumar')).toBe(true)
+    })
+
+    it('should tolerate small typos in longer names', () => {
+      expect(namesMatch('Rahul Sharma', 'Rahul Sarma')).toBe(true)
+      expect(namesMatch('Rahul Sharma', 'Rohit Sharma')).toBe(false)
+    })
+
+    it('should require short names to match exactly', () => {
+      expect(namesMatch('Amit', 'Amit')).toBe(true)
+      expect(namesMatch('Amit', 'Ankit')).toBe(false)
+    })
+  })
+
+  describe('duplicateReasons', () => {
+    const lead = { fullName: 'Priya Singh', phone: '9876543210', email: 'priya@example.com' }
+
+    it('should match phones with a country code and emails in any case', () => {
+      expect(duplicateReasons(lead, { fullName: 'P. Singh', phone: '+91 98765-43210', email: 'PRIYA@example.com ' }))
+        .toEqual(['phone', 'email'])
+    })
+
+    it('should not match on empty emails', () => {
+      expect(duplicateReasons({ ...lead, email: '' }, { fullName: 'Someone Else', phone: '9999999999', email: null }))
+        .toEqual([])
+    })
+  })
+
+  describe('groupDuplicates', () => {
+    it('should chain matches into one group and leave unique leads out', () => {
+      const groups = groupDuplicates([
+        { id: '1', fullName: 'Rahul Sharma', phone: '9876543210', email: null },
+        { id: '2', fullName: 'R Sharma', phone: '919876543210', email: 'rahul@example.com' },
+        { id: '3', fullName: 'Rahul S', phone: '9000000000', email: 'Rahul@example.com' },
+        { id: '4', fullName: 'Neha Gupta', phone: '9111111111', email: null },
+      ])
+
+      expect(groups).toHaveLength(1)
+      expect(groups[0].buyers.map(buyer => buyer.id)).toEqual(['1', '2', '3'])
+      expect(groups[0].reasons).toEqual(['email', 'phone'])
+    })
+
+    it('should group similar names', () => {
+      const groups = groupDuplicates([
+        { id: '1', fullName: 'Sunita Verma', phone: '9000000001' },
+        { id: '2', fullName: 'Sunita Varma', phone: '9000000002' },
+      ])
+
+      expect(groups).toEqual([{ buyers: expect.any(Array), reasons: ['name'] }])
+    })
+  })
+
+  describe('resolveMergedFields', () => {
+    const survivor = {
+      fullName: 'Rahul Sharma', email: null as string | null, phone: '9876543210', city: 'MOHALI', propertyType: 'PLOT',
+      bhk: null, purpose: 'BUY', budgetMin: 5000000, budgetMax: null as number | null, timeline: 'EXPLORING',
+      source: 'CALL', status: 'NEW', notes: 'Called once',
+    }
+    const duplicate = {
+      ...survivor, fullName: 'Rahul Sarma', email: 'rahul@example.com', budgetMax: 7000000, status: 'CONTACTED',
+    }
+
+    it('should keep the survivor and fill its empty fields from the duplicate', () => {
+      const merged = resolveMergedFields(survivor, duplicate, {})
+      expect(merged.fullName).toBe('Rahul Sharma')
+      expect(merged.email).toBe('rahul@example.com')
+      expect(merged.budgetMax).toBe(7000000)
+      expect(merged.status).toBe('NEW')
+    })
+
+    it('should honour explicit choices', () => {
+      const merged = resolveMergedFields(survivor, duplicate, { status: 'duplicate', email: 'survivor' })
+      expect(merged.status).toBe('CONTACTED')
+      expect(merged.email).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { filterConditions, parseBuyerFilters } from '@/lib/filters'
+
+describe('Buyer Filters', () => {
+  const parse = (query: string) => parseBuyerFilters(new URLSearchParams(query))
+
+  describe('parseBuyerFilters', () => {
+    it('should default to no filters', () => {
+      const filters = parse('')
+      expect(filters.search).toBe('')
+      expect(filters.status).toEqual([])
+      expect(filters.budgetMin).toBeUndefined()
+    })
+
+    it('should accept comma-separated and repeated values', () => {
+      expect(parse('status=NEW,QUALIFIED').status).toEqual(['NEW', 'QUALIFIED'])
+      expect(parse('status=NEW&status=QUALIFIED').status).toEqual(['NEW', 'QUALIFIED'])
+      expect(parse('tags=urgent, family').tags).toEqual(['urgent', 'family'])
+    })
+
+    it('should reject unknown enum values', () => {
+      expect(() => parse('city=DELHI')).toThrow()
+    })
+
+    it('should parse budgets and reject inverted ranges', () => {
+      expect(parse('budgetMin=5000000').budgetMin).toBe(5000000)
+      expect(() => parse('budgetMin=abc')).toThrow()
+      expect(() => parse('budgetMin=9000000&budgetMax=1000000')).toThrow()
+    })
+
+    it('should reject malformed dates', () => {
+      expect(parse('createdFrom=2024-01-15').createdFrom).toBe('2024-01-15')
+      expect(() => parse('createdFrom=yesterday')).toThrow()
+    })
+  })
+
+  describe('filterConditions', () => {
+    it('should build "in" conditions for multi-value filters', () => {
+      expect(filterConditions(parse('status=NEW,QUALIFIED&city=MOHALI'))).toEqual([
+        { city: { in: ['MOHALI'] } },
+        { status: { in: ['NEW', 'QUALIFIED'] } },
+      ])
+    })
+
+    it('should match overlapping budget ranges', () => {
+      expect(filterConditions(parse('budgetMin=5000000&budgetMax=8000000'))).toEqual([
+        { OR: [{ budgetMax: { gte: 5000000 } }, { budgetMax: null, budgetMin: { gte: 5000000 } }] },
+        { OR: [{ budgetMin: { lte: 8000000 } }, { budgetMin: null, budgetMax: { lte: 8000000 } }] },
+      ])
+    })
+
+    it('should require every included tag and none of the excluded ones', () => {
+      expect(filterConditions(parse('tags=Urgent,family&excludeTags=investment'))).toEqual([
+        { tags: { some: { tag: { name: 'urgent' } } } },
+        { tags: { some: { tag: { name: 'family' } } } },
+        { tags: { none: { tag: { name: { in: ['investment'] } } } } },
+      ])
+    })
+
+    it('should resolve "me" to the current user', () => {
+      expect(filterConditions(parse('owner=me,user-2'), 'user-1')).toEqual([
+        { ownerId: { in: ['user-1', 'user-2'] } },
+      ])
+    })
+
+    it('should make date-only upper bounds inclusive', () => {
+      expect(filterConditions(parse('createdFrom=2024-01-01&createdTo=2024-01-31'))).toEqual([
+        { createdAt: { gte: new Date('2024-01-01'), lt: new Date('2024-02-01') } },
+      ])
+    })
+  })
+})
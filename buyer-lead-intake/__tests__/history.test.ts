@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+import { fieldChanges, stateAfterEntry, type RevertState } from '@/lib/history'
+
+describe('Buyer History', () => {
+  describe('fieldChanges', () => {
+    it('should list before and after values for updates', () => {
+      expect(fieldChanges({
+        action: 'updated',
+        fields: {
+          status: { old: 'NEW', new: 'DROPPED' },
+          dropReason: { new: 'Bought elsewhere' },
+        },
+      })).toEqual([
+        { field: 'status', old: 'NEW', new: 'DROPPED' },
+        { field: 'dropReason', old: null, new: 'Bought elsewhere' },
+      ])
+    })
+
+    it('should list the fields that were set when a lead is created or imported', () => {
+      expect(fieldChanges({
+        action: 'imported',
+        fields: { fullName: 'Priya Singh', email: '', budgetMin: 5000000, bhk: null, tags: [] },
+      })).toEqual([
+        { field: 'fullName', old: null, new: 'Priya Singh' },
+        { field: 'budgetMin', old: null, new: 5000000 },
+      ])
+    })
+
+    it('should ignore entries without field changes', () => {
+      expect(fieldChanges({ action: 'merged' })).toEqual([])
+      expect(fieldChanges(null)).toEqual([])
+    })
+  })
+
+  describe('stateAfterEntry', () => {
+    const current = {
+      fullName: 'Priya Singh', email: null, phone: '9876543210', city: 'MOHALI', propertyType: 'PLOT',
+      bhk: null, purpose: 'BUY', budgetMin: 6000000, budgetMax: null, timeline: 'EXPLORING',
+      source: 'CALL', status: 'DROPPED', notes: null, tags: ['vip'],
+      dropReason: 'Bought elsewhere', visitedAt: null,
+    } as RevertState
+
+    it('should undo later changes newest first', () => {
+      const result = stateAfterEntry(current, [
+        { action: 'updated', fields: { status: { old: 'CONTACTED', new: 'DROPPED' }, dropReason: { new: 'Bought elsewhere' } } },
+        { action: 'reassigned', fields: { ownerId: { old: 'agent-1', new: 'agent-2' } } },
+        { action: 'updated', fields: { budgetMin: { old: 5000000, new: 6000000 }, tags: { old: [], new: ['vip'] } } },
+      ])
+
+      expect(result).toEqual({
+        success: true,
+        state: expect.objectContaining({ status: 'CONTACTED', dropReason: null, budgetMin: 5000000, tags: [] }),
+      })
+      expect(result.success && 'ownerId' in result.state).toBe(false)
+    })
+
+    it('should refuse to go back past a merge', () => {
+      expect(stateAfterEntry(current, [
+        { action: 'merged', fields: { email: { old: null, new: 'priya@example.com' } } },
+      ])).toEqual({ success: false, error: 'Versions from before a merge cannot be restored' })
+    })
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+import type { User } from '@/lib/auth'
+import { saveBuyerUpdate } from '@/lib/buyers'
+import { prisma } from '@/lib/db'
+import { planRevert } from '@/lib/history'
+import { rollbackImportBatch } from '@/lib/import-batches'
+
+const tx = {
+  importBatch: { updateMany: jest.fn(), update: jest.fn() },
+  buyer: { findMany: jest.fn(), updateMany: jest.fn() },
+  buyerHistory: { createMany: jest.fn() },
+}
+
+jest.mock('../lib/db', () => ({
+  prisma: {
+    importBatch: { findUnique: jest.fn() },
+    buyerHistory: { findMany: jest.fn(), count: jest.fn(), findFirst: jest.fn() },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  },
+}))
+jest.mock('../lib/history', () => ({ planRevert: jest.fn() }))
+jest.mock('../lib/buyers', () => ({ saveBuyerUpdate: jest.fn() }))
+
+const mocked = prisma as unknown as {
+  importBatch: { findUnique: jest.Mock }
+  buyerHistory: { findMany: jest.Mock; count: jest.Mock; findFirst: jest.Mock }
+  $queryRaw: jest.Mock
+  $transaction: jest.Mock
+}
+const mockedPlanRevert = planRevert as jest.Mock
+const mockedSaveBuyerUpdate = saveBuyerUpdate as jest.Mock
+
+describe('Import Rollback', () => {
+  const agent: User = { id: 'agent-1', email: 'agent@example.com', role: 'AGENT', teamId: 'team-a' }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mocked.importBatch.findUnique.mockResolvedValue({ id: 'batch-1', fileName: 'leads.csv', ownerId: 'agent-1', job: null })
+    mocked.$transaction.mockImplementation(run => run(tx))
+    mocked.$queryRaw.mockResolvedValue([])
+    mocked.buyerHistory.findMany.mockResolvedValue([])
+    tx.buyer.findMany.mockResolvedValue([
+      { id: 'b1', _count: { history: 1, activities: 0 } },
+      { id: 'b2', _count: { history: 2, activities: 0 } },
+    ])
+  })
+
+  it('should mark the batch rolled back in the same transaction that trashes its leads', async () => {
+    tx.importBatch.updateMany.mockResolvedValue({ count: 1 })
+
+    expect(await rollbackImportBatch(agent, 'batch-1')).toEqual({ success: true, removed: 1, kept: 1, reverted: 0, notReverted: 0 })
+    expect(tx.importBatch.updateMany).toHaveBeenCalledWith({
+      where: { id: 'batch-1', rolledBackAt: null },
+      data: { rolledBackAt: expect.any(Date), rolledBackBy: 'agent-1' },
+    })
+    expect(tx.buyer.updateMany).toHaveBeenCalledWith(expect.objectContaining({ where: { id: { in: ['b1'] } } }))
+  })
+
+  it('should not touch any leads when another rollback got there first', async () => {
+    tx.importBatch.updateMany.mockResolvedValue({ count: 0 })
+
+    expect(await rollbackImportBatch(agent, 'batch-1')).toEqual({
+      success: false,
+      status: 409,
+      error: 'This import has already been rolled back',
+    })
+    expect(tx.buyer.updateMany).not.toHaveBeenCalled()
+    expect(tx.buyerHistory.createMany).not.toHaveBeenCalled()
+  })
+
+  it('should revert the updates it made to leads that have not changed since', async () => {
+    tx.importBatch.updateMany.mockResolvedValue({ count: 1 })
+    const changedAt = new Date('2026-01-15T10:00:00Z')
+    mocked.$queryRaw.mockResolvedValue([{ id: 'h-b3' }, { id: 'h-b4' }])
+    mocked.buyerHistory.findMany.mockResolvedValue([
+      { id: 'h-b3', buyerId: 'b3', changedAt },
+      { id: 'h-b4', buyerId: 'b4', changedAt },
+    ])
+    // b4 was edited after the import
+    mocked.buyerHistory.count.mockImplementation(({ where }) => Promise.resolve(where.buyerId === 'b4' ? 1 : 0))
+    mocked.buyerHistory.findFirst.mockResolvedValue({ id: 'h-before' })
+    const updatedAt = new Date('2026-01-15T10:00:00Z')
+    mockedPlanRevert.mockResolvedValue({
+      success: true,
+      plan: {
+        target: { id: 'h-before', changedAt: new Date('2026-01-10T00:00:00Z'), action: 'created' },
+        updatedAt,
+        changes: [{ field: 'notes', current: 'From the file', restored: null }],
+        update: { notes: null },
+        blocked: null,
+      },
+    })
+    mockedSaveBuyerUpdate.mockResolvedValue({ success: true })
+
+    expect(await rollbackImportBatch(agent, 'batch-1')).toEqual({ success: true, removed: 1, kept: 1, reverted: 1, notReverted: 1 })
+    expect(mockedPlanRevert).toHaveBeenCalledTimes(1)
+    expect(mockedPlanRevert).toHaveBeenCalledWith('b3', 'h-before')
+    expect(mockedSaveBuyerUpdate).toHaveBeenCalledWith(tx, agent, 'b3', { notes: null, updatedAt: updatedAt.toISOString() }, {
+      action: 'reverted',
+      details: { revertedTo: { id: 'h-before', changedAt: '2026-01-10T00:00:00.000Z' }, batchId: 'batch-1' },
+    })
+    expect(tx.importBatch.update).toHaveBeenCalledWith({
+      where: { id: 'batch-1' },
+      data: { removedCount: 1, keptCount: 1, revertedCount: 1 },
+    })
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+import type { Prisma } from '@prisma/client'
+import type { User } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { applyImportUpdates } from '@/lib/import'
+import { IMPORT_JOB_STALE_MS, resumeImportJobs } from '@/lib/import-jobs'
+
+jest.mock('../lib/db', () => ({
+  prisma: {
+    importJob: {
+      updateMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}))
+
+const updateMany = prisma.importJob.updateMany as jest.Mock
+const findMany = prisma.importJob.findMany as jest.Mock
+const transaction = prisma.$transaction as jest.Mock
+
+describe('Background Imports', () => {
+  describe('resumeImportJobs', () => {
+    it('should only requeue running jobs that stopped committing chunks', async () => {
+      const now = new Date('2026-01-15T10:00:00Z')
+      updateMany.mockResolvedValue({ count: 0 })
+      findMany.mockResolvedValue([])
+
+      expect(await resumeImportJobs(now)).toBe(0)
+      expect(updateMany).toHaveBeenCalledWith({
+        where: {
+          status: 'RUNNING',
+          updatedAt: { lt: new Date(now.getTime() - IMPORT_JOB_STALE_MS) },
+        },
+        data: { status: 'QUEUED' },
+      })
+    })
+  })
+
+  describe('chunk updates', () => {
+    it('should save upsert updates in the transaction that claims the chunk', async () => {
+      const agent: User = { id: 'agent-1', email: 'agent@example.com', role: 'AGENT', teamId: 'team-a' }
+      const updatedAt = new Date('2026-01-15T00:00:00Z')
+      const buyer = { id: 'b1', ownerId: 'agent-1', updatedAt, owner: { teamId: 'team-a' }, status: 'NEW', notes: null, tags: [] }
+      const tx = {
+        buyer: { findUnique: jest.fn().mockResolvedValue(buyer), update: jest.fn().mockResolvedValue({ ...buyer, notes: 'Called back' }) },
+        buyerHistory: { create: jest.fn() },
+      }
+      const changes = { notes: { old: null, new: 'Called back' } }
+
+      expect(await applyImportUpdates(agent, [{ row: 1, buyerId: 'b1', updatedAt, changes }], 'batch-1', tx as unknown as Prisma.TransactionClient))
+        .toEqual({ updated: [{ row: 1, id: 'b1' }], failed: [] })
+      expect(transaction).not.toHaveBeenCalled()
+      expect(tx.buyer.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'b1' }, data: { notes: 'Called back' } }))
+      expect(tx.buyerHistory.create).toHaveBeenCalledWith({
+        data: {
+          buyerId: 'b1',
+          changedBy: 'agent-1',
+          diff: { action: 'updated', fields: { notes: { old: null, new: 'Called back' } }, batchId: 'batch-1' },
+        },
+      })
+    })
+  })
+})
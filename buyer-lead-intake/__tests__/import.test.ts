@@ -0,0 +1,462 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import ExcelJS from 'exceljs'
+import { parseCsv } from '@/lib/csv'
+import { BUYER_CSV_COLUMNS, BUYER_CSV_VERSION, detectBuyerCsvVersion } from '@/lib/csv-format'
+import { buyersToCsv, buyersToXlsx, type ExportBuyer } from '@/lib/export'
+import { importChanges, importStatusIssue } from '@/lib/import'
+import { changedSinceImport } from '@/lib/import-batches'
+import { importErrorsToCsv } from '@/lib/import-jobs'
+import { applyPreset, compactRow, mapRow, mappingErrors, suggestMapping } from '@/lib/import-mapping'
+import { normalizeCSVRow, validateCSVRow } from '@/lib/validation'
+import { cellText, readXlsx, xlsxSheetToCsv, type ExcelBuffer } from '@/lib/xlsx'
+
+// Two exported leads: one with every field set, one with only the required fields
+const buyers = [
+  {
+    id: 'buyer-1',
+    fullName: 'Doe, John',
+    email: 'john@example.com',
+    phone: '9876543210',
+    city: 'CHANDIGARH',
+    propertyType: 'APARTMENT',
+    bhk: 'TWO',
+    purpose: 'BUY',
+    budgetMin: 0,
+    budgetMax: 8000000,
+    timeline: 'ZERO_TO_THREE_MONTHS',
+    source: 'WEBSITE',
+    status: 'NEGOTIATION',
+    dropReason: null,
+    visitedAt: new Date('2026-01-20T00:00:00.000Z'),
+    notes: 'Wants a "corner" flat\nCall after 6pm',
+    tags: [{ tag: { name: 'family' } }, { tag: { name: 'urgent' } }],
+    owner: { name: 'Agent One', email: 'agent@example.com' },
+    createdAt: new Date('2026-01-02T03:04:05.000Z'),
+    updatedAt: new Date('2026-02-03T04:05:06.000Z'),
+  },
+  {
+    id: 'buyer-2',
+    fullName: 'Amit Kumar',
+    email: null,
+    phone: '9876543212',
+    city: 'ZIRAKPUR',
+    propertyType: 'PLOT',
+    bhk: null,
+    purpose: 'RENT',
+    budgetMin: null,
+    budgetMax: null,
+    timeline: 'EXPLORING',
+    source: 'WALK_IN',
+    status: 'NEW',
+    dropReason: null,
+    visitedAt: null,
+    notes: null,
+    tags: [],
+    owner: { name: null, email: 'agent@example.com' },
+    createdAt: new Date('2026-01-02T03:04:05.000Z'),
+    updatedAt: new Date('2026-01-02T03:04:05.000Z'),
+  },
+] as unknown as ExportBuyer[]
+
+describe('CSV Import', () => {
+  describe('parseCsv', () => {
+    it('should key rows by trimmed header and skip blank rows', async () => {
+      const content = '\uFEFFName , Mobile\n"Doe, John",9876543210\n,\nJane,9876543211\n'
+      const { headers, rows } = await parseCsv(content)
+      expect(headers).toEqual(['Name', 'Mobile'])
+      expect(rows).toEqual([
+        { Name: 'Doe, John', Mobile: '9876543210' },
+        { Name: 'Jane', Mobile: '9876543211' },
+      ])
+    })
+
+    it('should count every row but only return up to the limit', async () => {
+      const content = ['Name', 'A', 'B', 'C'].join('\n')
+      const { rows, totalRows } = await parseCsv(content, 2)
+      expect(rows).toEqual([{ Name: 'A' }, { Name: 'B' }])
+      expect(totalRows).toBe(3)
+    })
+  })
+
+  describe('importErrorsToCsv', () => {
+    it('should list failed rows in the import column layout', async () => {
+      const csv = await importErrorsToCsv([
+        {
+          row: 4,
+          values: { fullName: 'Amit', phone: '123' },
+          errors: [
+            { field: 'phone', message: 'Phone must be at least 10 digits' },
+            { field: null, message: 'Budget values must be valid positive numbers' },
+          ],
+        },
+      ])
+      const [header, line] = csv.trim().split('\n')
+      expect(header).toBe('row,errors,id,fullName,email,phone,city,propertyType,bhk,purpose,budgetMin,budgetMax,timeline,source,status,dropReason,visitDate,notes,tags')
+      expect(line).toBe('4,phone: Phone must be at least 10 digits; Budget values must be valid positive numbers,,Amit,,123,,,,,,,,,,,,,')
+    })
+  })
+
+  describe('suggestMapping', () => {
+    it('should match headers regardless of case, spacing and punctuation', () => {
+      expect(suggestMapping(['Full Name', 'PHONE', 'property_type', 'Budget Min']))
+        .toEqual({ fullName: 'Full Name', phone: 'PHONE', propertyType: 'property_type', budgetMin: 'Budget Min' })
+    })
+
+    it('should recognise common aliases', () => {
+      expect(suggestMapping(['Customer Name', 'Mobile Number', 'Lead Source', 'Remarks']))
+        .toEqual({ fullName: 'Customer Name', phone: 'Mobile Number', source: 'Lead Source', notes: 'Remarks' })
+    })
+
+    it('should prefer the exact field name over an alias', () => {
+      expect(suggestMapping(['Property Type', 'Type'])).toEqual({ propertyType: 'Property Type' })
+    })
+  })
+
+  describe('applyPreset', () => {
+    it('should drop columns the file does not have', () => {
+      expect(applyPreset({ fullName: 'Name', phone: 'Mobile' }, ['Name', 'City']))
+        .toEqual({ fullName: 'Name' })
+    })
+  })
+
+  describe('mappingErrors', () => {
+    const mapping = {
+      fullName: 'Name',
+      phone: 'Mobile',
+      city: 'City',
+      propertyType: 'Type',
+      purpose: 'Purpose',
+      timeline: 'Timeline',
+      source: 'Source',
+    }
+
+    it('should accept a mapping with every required field', () => {
+      expect(mappingErrors(mapping)).toEqual([])
+    })
+
+    it('should report unmapped required fields', () => {
+      expect(mappingErrors({ ...mapping, phone: undefined })).toEqual(['Phone must be mapped to a column'])
+    })
+
+    it('should report a column used for several fields', () => {
+      expect(mappingErrors({ ...mapping, notes: 'Name' }))
+        .toEqual(['"Name" is mapped to Full Name and Notes'])
+    })
+  })
+
+  describe('mapRow', () => {
+    it('should read each mapped field from its column and keep blank cells', () => {
+      const source = { Name: ' Priya Singh ', Mobile: '9876543210', Email: '  ', Extra: 'ignored' }
+      expect(mapRow(source, { fullName: 'Name', phone: 'Mobile', email: 'Email', city: 'Missing' }))
+        .toEqual({ fullName: 'Priya Singh', phone: '9876543210', email: '' })
+    })
+
+    it('should compact rows edited after mapping', () => {
+      expect(compactRow({ fullName: ' Amit ', notes: '' })).toEqual({ fullName: 'Amit' })
+    })
+  })
+
+  describe('changedSinceImport', () => {
+    it('should keep leads with history after the import or logged activity', () => {
+      expect(changedSinceImport({ _count: { history: 1, activities: 0 } })).toBe(false)
+      expect(changedSinceImport({ _count: { history: 2, activities: 0 } })).toBe(true)
+      expect(changedSinceImport({ _count: { history: 1, activities: 1 } })).toBe(true)
+    })
+  })
+
+  describe('importChanges', () => {
+    const existing = {
+      fullName: 'Amit Kumar',
+      email: null,
+      phone: '9876543210',
+      city: 'MOHALI',
+      budgetMin: 3000000,
+      tags: ['investment', 'plot'],
+    }
+    const data = {
+      fullName: 'Amit Kumar',
+      email: 'amit@example.com',
+      phone: '9876543210',
+      city: 'CHANDIGARH',
+      propertyType: 'PLOT',
+      purpose: 'BUY',
+      budgetMin: 3000000,
+      budgetMax: undefined,
+      timeline: 'ZERO_TO_THREE_MONTHS',
+      source: 'WEBSITE',
+      tags: ['plot', 'investment'],
+    } as unknown as Parameters<typeof importChanges>[1]
+
+    const row = { fullName: 'Amit Kumar', email: 'amit@example.com', phone: '9876543210', city: 'CHANDIGARH', budgetMin: '3000000', tags: 'investment,plot' }
+
+    it('should list only the fields the row changes', () => {
+      expect(importChanges(existing, data, row)).toEqual({
+        email: { old: null, new: 'amit@example.com' },
+        city: { old: 'MOHALI', new: 'CHANDIGARH' },
+      })
+    })
+
+    it('should keep the current value of columns that are not mapped', () => {
+      expect(importChanges(existing, data, { fullName: 'Amit Kumar', phone: '9876543210' })).toEqual({})
+    })
+
+    it('should clear optional fields the row leaves blank', () => {
+      const blanks = { ...data, city: 'MOHALI' as const, budgetMin: undefined, tags: [] }
+      expect(importChanges(existing, blanks, { ...row, city: 'MOHALI', budgetMin: '', tags: '' })).toEqual({
+        email: { old: null, new: 'amit@example.com' },
+        budgetMin: { old: 3000000, new: null },
+        tags: { old: ['investment', 'plot'], new: [] },
+      })
+    })
+
+    it('should keep values that could not be read, and blank statuses', () => {
+      const unread = { ...data, city: 'MOHALI' as const, email: undefined, budgetMin: undefined }
+      expect(importChanges({ ...existing, email: 'amit@example.com', status: 'CONTACTED' }, unread, { ...row, email: 'not an email', budgetMin: 'call me', city: 'MOHALI', status: '' })).toEqual({})
+    })
+  })
+
+  describe('importStatusIssue', () => {
+    const row = (values: Record<string, string>) => {
+      const validation = validateCSVRow({ fullName: 'Amit Kumar', phone: '9876543212', city: 'ZIRAKPUR', propertyType: 'PLOT', purpose: 'RENT', timeline: 'EXPLORING', source: 'WALK_IN', ...values }, 0)
+      if (!validation.success) throw new Error('invalid test row')
+      return validation.data
+    }
+
+    it('should start new leads as NEW, as the API does', () => {
+      expect(importStatusIssue(row({}))).toBeNull()
+      expect(importStatusIssue(row({ status: 'QUALIFIED' }))).toBeNull()
+      expect(importStatusIssue(row({ status: 'CONVERTED' }))).toEqual({
+        field: 'status',
+        message: 'New leads start as NEW and cannot be imported as CONVERTED; to update the leads a file was exported from, import it with "Update existing leads"',
+      })
+      expect(importStatusIssue(row({ status: 'VISITED', visitDate: '2026-01-20' }))).toMatchObject({ message: expect.stringContaining('cannot be imported as VISITED') })
+    })
+
+    it('should require the details a status records', () => {
+      expect(importStatusIssue(row({ status: 'DROPPED' }))).toMatchObject({ field: 'status' })
+      expect(importStatusIssue(row({ status: 'DROPPED', dropReason: 'Budget too low' }))).toBeNull()
+    })
+
+    it('should move updated leads from their current status', () => {
+      expect(importStatusIssue(row({ status: 'CONVERTED' }), { status: 'NEGOTIATION' })).toBeNull()
+      expect(importStatusIssue(row({ status: 'NEW' }), { status: 'CONVERTED' })).toEqual({ field: 'status', message: 'A CONVERTED lead cannot be moved to NEW' })
+      expect(importStatusIssue(row({}), { status: 'CONVERTED' })).toBeNull()
+    })
+  })
+
+  describe('CSV round trip', () => {
+    const reimport = async (csv: string) => {
+      const { headers, rows } = await parseCsv(csv)
+      const mapping = suggestMapping(headers)
+      return rows.map(source => {
+        const values = mapRow(source, mapping)
+        const { row, coercions } = normalizeCSVRow(compactRow(values))
+        return { values, coercions, validation: validateCSVRow(row, 0) }
+      })
+    }
+
+    it('should export the versioned column layout', async () => {
+      const csv = await buyersToCsv([])
+      const headers = csv.trim().split(',')
+      expect(headers).toEqual(BUYER_CSV_COLUMNS)
+      expect(detectBuyerCsvVersion(headers)).toBeNull()
+      expect(detectBuyerCsvVersion(['name', 'phone'])).toBeNull()
+
+      const { headers: exported, rows } = await parseCsv(await buyersToCsv(buyers))
+      expect(detectBuyerCsvVersion(exported, rows[0])).toBe(BUYER_CSV_VERSION)
+    })
+
+    it('should recognise version 1 exports by their header row', () => {
+      const headers = ['id', 'fullName', 'email', 'phone', 'city', 'propertyType', 'bhk', 'purpose', 'budgetMin', 'budgetMax', 'timeline', 'source', 'status', 'notes', 'tags', 'owner', 'createdAt', 'updatedAt']
+      expect(detectBuyerCsvVersion(headers)).toBe(1)
+    })
+
+    it('should import an unedited export without changes', async () => {
+      const imported = await reimport(await buyersToCsv(buyers))
+
+      expect(imported).toHaveLength(2)
+      imported.forEach(({ values, coercions, validation }, index) => {
+        const buyer = buyers[index]
+        expect(coercions).toEqual([])
+        expect(values.id).toBe(buyer.id)
+        expect(validation.success).toBe(true)
+        if (!validation.success) return
+
+        const existing = { ...buyer, tags: buyer.tags.map(link => link.tag.name) }
+        const fields = ['fullName', 'email', 'phone', 'city', 'propertyType', 'bhk', 'purpose', 'budgetMin', 'budgetMax', 'timeline', 'source', 'status', 'dropReason', 'notes', 'tags'] as const
+        for (const field of fields) {
+          expect(validation.data[field] ?? null).toEqual(existing[field])
+        }
+        expect(validation.data.visitDate ?? null).toEqual(buyer.visitedAt?.toISOString().slice(0, 10) ?? null)
+        expect(importChanges(existing, validation.data, values)).toEqual({})
+      })
+    })
+
+    it('should pick up cells edited between export and import', async () => {
+      const csv = (await buyersToCsv(buyers))
+        .replace('NEGOTIATION', 'CONVERTED')
+        .replace('"family,urgent"', '"family,urgent,vip"')
+      const [{ values, validation }] = await reimport(csv)
+
+      expect(validation.success).toBe(true)
+      if (!validation.success) return
+      const existing = { ...buyers[0], tags: ['family', 'urgent'] }
+      expect(importChanges(existing, validation.data, values)).toEqual({
+        status: { old: 'NEGOTIATION', new: 'CONVERTED' },
+        tags: { old: ['family', 'urgent'], new: ['family', 'urgent', 'vip'] },
+      })
+    })
+
+    it('should send the visit date along when a row moves the lead to VISITED', async () => {
+      const [{ values, validation }] = await reimport((await buyersToCsv(buyers)).replace('NEGOTIATION', 'VISITED'))
+
+      expect(validation.success).toBe(true)
+      if (!validation.success) return
+      const existing = { ...buyers[0], tags: ['family', 'urgent'] }
+      expect(importChanges(existing, validation.data, values)).toEqual({
+        status: { old: 'NEGOTIATION', new: 'VISITED' },
+        visitDate: { old: '2026-01-20', new: '2026-01-20' },
+      })
+    })
+
+    it('should carry drop reasons and only compare them while the lead is dropped', async () => {
+      const dropped = { ...buyers[1], status: 'DROPPED', dropReason: 'Budget too low' } as ExportBuyer
+      const [{ values, validation }] = await reimport(await buyersToCsv([dropped]))
+
+      expect(validation.success).toBe(true)
+      if (!validation.success) return
+      expect(validation.data.dropReason).toBe('Budget too low')
+      const existing = { ...dropped, tags: [] }
+      expect(importChanges(existing, validation.data, values)).toEqual({})
+      expect(importChanges(existing, { ...validation.data, dropReason: 'Bought elsewhere' }, values)).toEqual({
+        dropReason: { old: 'Budget too low', new: 'Bought elsewhere' },
+      })
+      expect(importChanges(existing, { ...validation.data, status: 'NEW' }, values)).toEqual({
+        status: { old: 'DROPPED', new: 'NEW' },
+      })
+    })
+  })
+  describe('Excel files', () => {
+    const workbookBuffer = async (sheets: Record<string, unknown[][]>) => {
+      const workbook = new ExcelJS.Workbook()
+      for (const [name, rows] of Object.entries(sheets)) {
+        workbook.addWorksheet(name).addRows(rows)
+      }
+      return Buffer.from(await workbook.xlsx.writeBuffer())
+    }
+
+    it('should read the chosen sheet like a CSV', async () => {
+      const content = await workbookBuffer({
+        Summary: [['Total'], [2]],
+        Leads: [
+          [' Name ', 'Mobile', 'Notes'],
+          ['Zoë Müller', 9876543210, 'Wants 3BHK, near park'],
+          [null, null, null],
+          ['अमित कुमार', '+91 98765 43211', null],
+        ],
+      })
+
+      const first = await readXlsx(content)
+      expect(first).toMatchObject({ success: true, sheets: ['Summary', 'Leads'], sheet: 'Summary', headers: ['Total'] })
+
+      const leads = await readXlsx(content, 'Leads')
+      expect(leads).toMatchObject({
+        success: true,
+        sheet: 'Leads',
+        headers: ['Name', 'Mobile', 'Notes'],
+        rows: [
+          { Name: 'Zoë Müller', Mobile: '9876543210', Notes: 'Wants 3BHK, near park' },
+          { Name: 'अमित कुमार', Mobile: '+91 98765 43211', Notes: '' },
+        ],
+        totalRows: 2,
+      })
+    })
+
+    it('should stream the chosen sheet of a workbook file into a CSV file', async () => {
+      const dir = await mkdtemp(path.join(os.tmpdir(), 'xlsx-test-'))
+      const workbookPath = path.join(dir, 'leads.xlsx')
+      const csvPath = path.join(dir, 'leads.csv')
+      await writeFile(workbookPath, await workbookBuffer({
+        Summary: [['Total'], [2]],
+        Leads: [
+          [' Name ', null, 'Mobile'],
+          ['Doe, John', 'ignored', 9876543210],
+          [null, null, null],
+          ['अमित कुमार', null, '+91 98765 43211'],
+        ],
+      }))
+
+      try {
+        expect(await xlsxSheetToCsv(workbookPath, csvPath, 'Leads')).toEqual({ success: true })
+        expect(await parseCsv(await readFile(csvPath, 'utf-8'))).toEqual({
+          headers: ['Name', 'Mobile'],
+          rows: [
+            { Name: 'Doe, John', Mobile: '9876543210' },
+            { Name: 'अमित कुमार', Mobile: '+91 98765 43211' },
+          ],
+          totalRows: 2,
+        })
+
+        expect(await xlsxSheetToCsv(workbookPath, csvPath, 'Missing')).toEqual({ success: false, error: 'The workbook has no sheet named "Missing"' })
+        await writeFile(workbookPath, 'not a workbook')
+        expect(await xlsxSheetToCsv(workbookPath, csvPath)).toMatchObject({ success: false })
+      } finally {
+        await rm(dir, { recursive: true, force: true })
+      }
+    })
+
+    it('should report unknown sheets and unreadable files', async () => {
+      const content = await workbookBuffer({ Leads: [['Name']] })
+      expect(await readXlsx(content, 'Missing')).toEqual({ success: false, error: 'The workbook has no sheet named "Missing"' })
+      expect(await readXlsx(Buffer.from('not a workbook'))).toMatchObject({ success: false })
+    })
+
+    it('should read date cells as the date Excel shows', async () => {
+      const content = await workbookBuffer({
+        Leads: [
+          ['Name', 'Mobile', 'City', 'Property Type', 'Purpose', 'Timeline', 'Source', 'Visit Date'],
+          ['Amit Kumar', '9876543212', 'ZIRAKPUR', 'PLOT', 'RENT', 'EXPLORING', 'WALK_IN', new Date(Date.UTC(2026, 0, 15))],
+        ],
+      })
+
+      const result = await readXlsx(content)
+      expect(result.success).toBe(true)
+      if (!result.success) return
+      expect(result.rows[0]['Visit Date']).toBe('2026-01-15')
+
+      const values = mapRow(result.rows[0], suggestMapping(result.headers))
+      const validation = validateCSVRow(normalizeCSVRow(compactRow(values)).row, 0)
+      expect(validation.success && validation.data.visitDate).toBe('2026-01-15')
+    })
+
+    it('should read the displayed text of formulas, rich text and links', () => {
+      expect(cellText({ formula: 'A1*2', result: 10 } as ExcelJS.CellValue)).toBe('10')
+      expect(cellText({ richText: [{ text: 'Doe, ' }, { text: 'John' }] })).toBe('Doe, John')
+      expect(cellText({ text: 'john@example.com', hyperlink: 'mailto:john@example.com' })).toBe('john@example.com')
+      expect(cellText(null)).toBe('')
+    })
+
+    it('should export a styled sheet that imports back unchanged', async () => {
+      const content = await buyersToXlsx(buyers)
+
+      const workbook = new ExcelJS.Workbook()
+      await workbook.xlsx.load(content as unknown as ExcelBuffer)
+      const sheet = workbook.worksheets[0]
+      expect(sheet.views[0]).toMatchObject({ state: 'frozen', ySplit: 1 })
+      expect(sheet.getCell('A1').font).toMatchObject({ bold: true })
+      const statusColumn = (sheet.getRow(1).values as unknown[]).indexOf('status')
+      expect(sheet.getCell(2, statusColumn).dataValidation).toMatchObject({ type: 'list', formulae: [expect.stringContaining('NEGOTIATION')] })
+
+      const result = await readXlsx(content)
+      expect(result.success).toBe(true)
+      if (!result.success) return
+      const { rows: csvRows } = await parseCsv(await buyersToCsv(buyers))
+      expect(result.rows).toEqual(csvRows)
+    })
+  })
+})
@@ -0,0 +1,47 @@
+/**
+ * @jest-environment node
+ */
+import { text } from 'stream/consumers'
+import { FILE_TOO_LARGE, readMultipart } from '@/lib/multipart'
+
+const upload = (content: string) => {
+  const form = new FormData()
+  form.append('mapping', '{"fullName":"Name"}')
+  form.append('mode', 'UPSERT')
+  form.append('file', new Blob([content], { type: 'text/csv' }), 'leads.csv')
+  form.append('sheet', 'sent too late')
+  return new Request('http://localhost/api/buyers/import/jobs', { method: 'POST', body: form })
+}
+
+describe('Multipart Uploads', () => {
+  it('should stream the file to the handler with the fields sent before it', async () => {
+    const result = await readMultipart(upload('Name\nAmit\n'), 1024, async (file, fields) => ({
+      file: { field: file.field, fileName: file.fileName, mimeType: file.mimeType },
+      fields,
+      content: await text(file.content),
+    }))
+
+    expect(result).toEqual({
+      file: { field: 'file', fileName: 'leads.csv', mimeType: 'text/csv' },
+      fields: { mapping: '{"fullName":"Name"}', mode: 'UPSERT' },
+      content: 'Name\nAmit\n',
+    })
+  })
+
+  it('should fail the file once it is larger than allowed', async () => {
+    await expect(readMultipart(upload('x'.repeat(100)), 10, file => text(file.content)))
+      .rejects.toThrow(FILE_TOO_LARGE)
+  })
+
+  it('should finish reading the body when the handler leaves the file unread', async () => {
+    expect(await readMultipart(upload('x'.repeat(100_000)), 200_000, async () => 'rejected')).toBe('rejected')
+  })
+
+  it('should resolve without a result when no file was sent', async () => {
+    const form = new FormData()
+    form.append('mode', 'CREATE')
+    const request = new Request('http://localhost/', { method: 'POST', body: form })
+
+    expect(await readMultipart(request, 1024, async () => 'handled')).toBeUndefined()
+  })
+})
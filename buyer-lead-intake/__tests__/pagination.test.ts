@@ -0,0 +1,151 @@
+/**
+ * @jest-environment node
+ */
+import { cursorWhere, decodeCursor, encodeCursor, fetchSortedPage, parseLimit, parseSort, rankedValues, sortOrderBy } from '@/lib/pagination'
+import { prisma } from '@/lib/db'
+
+jest.mock('../lib/db', () => ({
+  prisma: {
+    buyer: {
+      findMany: jest.fn(),
+    },
+  },
+}))
+
+const findMany = prisma.buyer.findMany as jest.Mock
+
+describe('Buyer Pagination', () => {
+  describe('parseSort', () => {
+    it('should default to most recently updated first', () => {
+      expect(parseSort(null)).toEqual({ sort: 'updatedAt:desc', field: 'updatedAt', direction: 'desc' })
+    })
+
+    it('should map sort keys to columns', () => {
+      expect(parseSort('name:asc').field).toBe('fullName')
+      expect(parseSort('budget:desc').field).toBe('budgetMin')
+    })
+
+    it('should reject keys outside the whitelist', () => {
+      expect(() => parseSort('passwordHash:asc')).toThrow()
+      expect(() => parseSort('name:up')).toThrow()
+    })
+  })
+
+  describe('parseLimit', () => {
+    it('should default and clamp the page size', () => {
+      expect(parseLimit(null)).toBe(10)
+      expect(parseLimit('abc')).toBe(10)
+      expect(parseLimit('25')).toBe(25)
+      expect(parseLimit('5000')).toBe(100)
+      expect(parseLimit('0')).toBe(1)
+    })
+  })
+
+  describe('cursors', () => {
+    it('should round-trip through an opaque token', () => {
+      const cursor = { s: 'name:asc', k: ['Rahul', 'buyer-1'] as [string, string] }
+      const token = encodeCursor(cursor)
+      expect(token).not.toContain('Rahul')
+      expect(decodeCursor(token)).toEqual(cursor)
+    })
+
+    it('should reject tampered tokens', () => {
+      expect(() => decodeCursor('not-a-cursor')).toThrow('Invalid cursor')
+      expect(() => decodeCursor(Buffer.from('{"o":-1}').toString('base64url'))).toThrow('Invalid cursor')
+    })
+  })
+
+  describe('sortOrderBy', () => {
+    it('should break ties by id', () => {
+      expect(sortOrderBy(parseSort('name:asc'))).toEqual([{ fullName: 'asc' }, { id: 'asc' }])
+    })
+
+    it('should keep empty budgets last and reverse for previous pages', () => {
+      expect(sortOrderBy(parseSort('budget:desc'))).toEqual([
+        { budgetMin: { sort: 'desc', nulls: 'last' } },
+        { id: 'desc' },
+      ])
+      expect(sortOrderBy(parseSort('budget:desc'), true)).toEqual([
+        { budgetMin: { sort: 'asc', nulls: 'first' } },
+        { id: 'asc' },
+      ])
+    })
+  })
+
+  describe('cursorWhere', () => {
+    it('should select rows after the boundary', () => {
+      expect(cursorWhere(parseSort('name:asc'), ['Rahul', 'b1'])).toEqual({
+        OR: [
+          { fullName: { gt: 'Rahul' } },
+          { fullName: 'Rahul', id: { gt: 'b1' } },
+        ],
+      })
+    })
+
+    it('should select rows before the boundary when going backwards', () => {
+      expect(cursorWhere(parseSort('createdAt:desc'), ['2024-01-15T00:00:00.000Z', 'b1'], true)).toEqual({
+        OR: [
+          { createdAt: { gt: new Date('2024-01-15T00:00:00.000Z') } },
+          { createdAt: new Date('2024-01-15T00:00:00.000Z'), id: { gt: 'b1' } },
+        ],
+      })
+    })
+
+    it('should include empty budgets after every value', () => {
+      expect(cursorWhere(parseSort('budget:asc'), [5000000, 'b1'])).toEqual({
+        OR: [
+          { budgetMin: { gt: 5000000 } },
+          { budgetMin: 5000000, id: { gt: 'b1' } },
+          { budgetMin: null },
+        ],
+      })
+      expect(cursorWhere(parseSort('budget:asc'), [null, 'b1'])).toEqual({ budgetMin: null, id: { gt: 'b1' } })
+    })
+  })
+  describe('ranked sorts', () => {
+    const buyers = [
+      { id: 'b1', status: 'DROPPED' },
+      { id: 'b2', status: 'NEW' },
+      { id: 'b3', status: 'CONTACTED' },
+      { id: 'b4', status: 'NEW' },
+    ]
+
+    beforeEach(() => {
+      // Stands in for the database: one status at a time, ordered and paged by id
+      findMany.mockReset()
+      findMany.mockImplementation(({ where, orderBy, take }) => {
+        const { status, id } = where.AND[1]
+        const rows = buyers
+          .filter(buyer => buyer.status === status)
+          .filter(buyer => !id || (id.gt ? buyer.id > id.gt : buyer.id < id.lt))
+          .sort((a, b) => (orderBy.id === 'asc' ? 1 : -1) * a.id.localeCompare(b.id))
+        return Promise.resolve(rows.slice(0, take))
+      })
+    })
+
+    it('should order status and timeline by pipeline position, not alphabetically', () => {
+      expect(rankedValues(parseSort('status:asc'))).toEqual(['NEW', 'QUALIFIED', 'CONTACTED', 'VISITED', 'NEGOTIATION', 'CONVERTED', 'DROPPED'])
+      expect(rankedValues(parseSort('timeline:asc'))).toEqual(['ZERO_TO_THREE_MONTHS', 'THREE_TO_SIX_MONTHS', 'MORE_THAN_SIX_MONTHS', 'EXPLORING'])
+      expect(rankedValues(parseSort('timeline:desc'))[0]).toBe('EXPLORING')
+      expect(rankedValues(parseSort('timeline:desc'), true)[0]).toBe('ZERO_TO_THREE_MONTHS')
+    })
+
+    it('should page through statuses in rank order', async () => {
+      const order = parseSort('status:asc')
+      const first = await fetchSortedPage({}, order, 2, null, {})
+      expect(first.buyers.map(buyer => buyer.id)).toEqual(['b2', 'b4'])
+
+      const second = await fetchSortedPage({}, order, 2, decodeCursor(first.nextCursor), {})
+      expect(second.buyers.map(buyer => buyer.id)).toEqual(['b3', 'b1'])
+      expect(second.nextCursor).toBeNull()
+
+      const back = await fetchSortedPage({}, order, 2, decodeCursor(second.prevCursor), {})
+      expect(back.buyers.map(buyer => buyer.id)).toEqual(['b2', 'b4'])
+    })
+
+    it('should reject a cursor with an unknown value', async () => {
+      const cursor = decodeCursor(encodeCursor({ s: 'status:asc', k: ['ARCHIVED', 'b1'] }))
+      await expect(fetchSortedPage({}, parseSort('status:asc'), 2, cursor, {})).rejects.toThrow('Invalid cursor')
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { buyerScope, buyerScopeSql, canAccessBuyer, canAccessTask, canAssignOwner, canAssignTask, canPurgeBuyers, canRollbackImport, importBatchScope } from '@/lib/permissions'
+import type { User } from '@/lib/auth'
+
+describe('Buyer Permissions', () => {
+  const agent: User = { id: 'agent-1', email: 'agent@example.com', role: 'AGENT', teamId: 'team-a' }
+  const teamLead: User = { id: 'lead-1', email: 'lead@example.com', role: 'TEAM_LEAD', teamId: 'team-a' }
+  const admin: User = { id: 'admin-1', email: 'admin@example.com', role: 'ADMIN', teamId: null }
+
+  const ownBuyer = { ownerId: 'agent-1', owner: { teamId: 'team-a' } }
+  const teamBuyer = { ownerId: 'agent-2', owner: { teamId: 'team-a' } }
+  const otherTeamBuyer = { ownerId: 'agent-3', owner: { teamId: 'team-b' } }
+
+  describe('buyerScope', () => {
+    it('should limit agents to their own leads', () => {
+      expect(buyerScope(agent)).toEqual({ ownerId: 'agent-1' })
+    })
+
+    it('should let team leads see their team', () => {
+      expect(buyerScope(teamLead)).toEqual({
+        OR: [
+          { ownerId: 'lead-1' },
+          { owner: { teamId: 'team-a' } },
+        ],
+      })
+    })
+
+    it('should fall back to own leads for a team lead without a team', () => {
+      expect(buyerScope({ ...teamLead, teamId: null })).toEqual({ ownerId: 'lead-1' })
+    })
+
+    it('should not restrict admins', () => {
+      expect(buyerScope(admin)).toEqual({})
+    })
+  })
+
+  describe('buyerScopeSql', () => {
+    it('should match buyerScope for each role', () => {
+      expect(buyerScopeSql(agent)).toEqual({ sql: 'b.ownerId = ?', params: ['agent-1'] })
+      expect(buyerScopeSql(teamLead)).toEqual({ sql: '(b.ownerId = ? OR u.teamId = ?)', params: ['lead-1', 'team-a'] })
+      expect(buyerScopeSql({ ...teamLead, teamId: null })).toEqual({ sql: 'b.ownerId = ?', params: ['lead-1'] })
+      expect(buyerScopeSql(admin)).toEqual({ sql: '1 = 1', params: [] })
+    })
+  })
+
+  describe('canAccessBuyer', () => {
+    it('should let agents view and edit only their own leads', () => {
+      expect(canAccessBuyer(agent, 'view', ownBuyer)).toBe(true)
+      expect(canAccessBuyer(agent, 'edit', ownBuyer)).toBe(true)
+      expect(canAccessBuyer(agent, 'view', teamBuyer)).toBe(false)
+      expect(canAccessBuyer(agent, 'edit', teamBuyer)).toBe(false)
+    })
+
+    it('should let team leads view but not edit team leads', () => {
+      expect(canAccessBuyer(teamLead, 'view', teamBuyer)).toBe(true)
+      expect(canAccessBuyer(teamLead, 'edit', teamBuyer)).toBe(false)
+      expect(canAccessBuyer(teamLead, 'view', otherTeamBuyer)).toBe(false)
+    })
+
+    it('should only let admins reassign', () => {
+      expect(canAccessBuyer(agent, 'reassign', ownBuyer)).toBe(false)
+      expect(canAccessBuyer(teamLead, 'reassign', teamBuyer)).toBe(false)
+      expect(canAccessBuyer(admin, 'reassign', otherTeamBuyer)).toBe(true)
+    })
+  })
+
+  describe('canAssignOwner', () => {
+    it('should only let admins assign leads to someone else', () => {
+      expect(canAssignOwner(agent, 'agent-1')).toBe(true)
+      expect(canAssignOwner(agent, 'agent-2')).toBe(false)
+      expect(canAssignOwner(admin, 'agent-2')).toBe(true)
+    })
+  })
+
+  describe('canAccessTask', () => {
+    it('should let lead editors manage tasks and assignees update their own', () => {
+      const teammateTask = { assigneeId: 'agent-2', buyer: teamBuyer }
+      const delegatedTask = { assigneeId: 'agent-1', buyer: teamBuyer }
+
+      expect(canAccessTask(agent, 'delete', { assigneeId: 'agent-1', buyer: ownBuyer })).toBe(true)
+      expect(canAccessTask(agent, 'edit', teammateTask)).toBe(false)
+      expect(canAccessTask(agent, 'edit', delegatedTask)).toBe(true)
+      expect(canAccessTask(agent, 'delete', delegatedTask)).toBe(false)
+      expect(canAccessTask(teamLead, 'edit', teammateTask)).toBe(false)
+    })
+  })
+
+  describe('canAssignTask', () => {
+    it('should keep tasks with the lead owner unless an admin assigns them', () => {
+      expect(canAssignTask(agent, 'agent-1', ownBuyer)).toBe(true)
+      expect(canAssignTask(agent, 'agent-2', ownBuyer)).toBe(false)
+      expect(canAssignTask(admin, 'agent-1', ownBuyer)).toBe(true)
+      expect(canAssignTask(admin, 'lead-1', ownBuyer)).toBe(true)
+    })
+  })
+
+  describe('canPurgeBuyers', () => {
+    it('should only let admins permanently delete trashed leads', () => {
+      expect(canPurgeBuyers(agent)).toBe(false)
+      expect(canPurgeBuyers(teamLead)).toBe(false)
+      expect(canPurgeBuyers(admin)).toBe(true)
+    })
+  })
+
+  describe('import rollback', () => {
+    it('should show admins every import and others their own', () => {
+      expect(importBatchScope(admin)).toEqual({})
+      expect(importBatchScope(teamLead)).toEqual({ ownerId: 'lead-1' })
+    })
+
+    it('should let whoever ran the import or an admin roll it back', () => {
+      const batch = { ownerId: 'agent-1' }
+      expect(canRollbackImport(agent, batch)).toBe(true)
+      expect(canRollbackImport(teamLead, batch)).toBe(false)
+      expect(canRollbackImport(admin, batch)).toBe(true)
+    })
+  })
+})
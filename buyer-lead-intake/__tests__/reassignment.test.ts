@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+import type { User } from '@/lib/auth'
+import { updateBuyer } from '@/lib/buyers'
+import { prisma } from '@/lib/db'
+import { reassignBuyers } from '@/lib/reassignment'
+
+const tx = {
+  buyer: { findUnique: jest.fn(), update: jest.fn() },
+  user: { findUnique: jest.fn() },
+  buyerHistory: { create: jest.fn() },
+  task: { updateMany: jest.fn() },
+}
+
+jest.mock('../lib/db', () => ({
+  prisma: {
+    buyer: { findUnique: jest.fn(), findMany: jest.fn() },
+    user: { findUnique: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}))
+
+const mocked = prisma as unknown as {
+  buyer: { findMany: jest.Mock }
+  $transaction: jest.Mock
+}
+
+describe('Reassignment', () => {
+  const admin: User = { id: 'admin-1', email: 'admin@example.com', role: 'ADMIN', teamId: null }
+  const buyer = {
+    id: 'b1',
+    ownerId: 'agent-1',
+    updatedAt: new Date('2026-01-15T00:00:00Z'),
+    owner: { teamId: 'team-a' },
+    status: 'NEW',
+    tags: [],
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mocked.buyer.findMany.mockResolvedValue([buyer])
+    tx.buyer.findUnique.mockResolvedValue(buyer)
+    tx.user.findUnique.mockResolvedValue({ id: 'agent-2' })
+    mocked.$transaction.mockImplementation(run => run(tx))
+    tx.buyer.update.mockResolvedValue({ ...buyer, ownerId: 'agent-2' })
+  })
+
+  const movedTasks = {
+    where: { buyerId: 'b1', assigneeId: 'agent-1', completedAt: null },
+    data: { assigneeId: 'agent-2' },
+  }
+
+  it('should move the old owner\'s open tasks when reassigning in bulk', async () => {
+    await reassignBuyers(admin, ['b1'], 'agent-2')
+
+    expect(tx.task.updateMany).toHaveBeenCalledWith(movedTasks)
+  })
+
+  it('should move them the same way when the owner is changed through an edit', async () => {
+    const result = await updateBuyer(admin, 'b1', { ownerId: 'agent-2' })
+
+    expect(result.success).toBe(true)
+    expect(tx.task.updateMany).toHaveBeenCalledWith(movedTasks)
+    expect(tx.buyerHistory.create).toHaveBeenCalledWith({
+      data: {
+        buyerId: 'b1',
+        changedBy: 'admin-1',
+        diff: { action: 'reassigned', fields: { ownerId: { old: 'agent-1', new: 'agent-2' } } },
+      },
+    })
+  })
+
+  it('should leave tasks alone when the owner does not change', async () => {
+    await updateBuyer(admin, 'b1', { ownerId: 'agent-1', notes: 'Called back' })
+
+    expect(tx.task.updateMany).not.toHaveBeenCalled()
+  })
+})
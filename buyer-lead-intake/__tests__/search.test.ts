@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+import { buildMatchExpression, editDistance, phoneQuery, tokenizeQuery, typoBudget } from '@/lib/search'
+import { normalizePhone } from '@/lib/validation'
+
+describe('Buyer Search', () => {
+  describe('normalizePhone', () => {
+    it('should strip formatting and country codes', () => {
+      expect(normalizePhone('+91 98765-43210')).toBe('9876543210')
+      expect(normalizePhone('(987) 654-3210')).toBe('9876543210')
+      expect(normalizePhone('9876543210')).toBe('9876543210')
+    })
+  })
+
+  describe('phoneQuery', () => {
+    it('should treat formatted numbers as phone queries', () => {
+      expect(phoneQuery('+91 98765-43210')).toBe('9876543210')
+      expect(phoneQuery('98765 43')).toBe('9876543')
+    })
+
+    it('should ignore short numbers and text', () => {
+      expect(phoneQuery('2024')).toBeNull()
+      expect(phoneQuery('Rahul 98765')).toBeNull()
+    })
+  })
+
+  describe('tokenizeQuery', () => {
+    it('should lowercase, strip accents and split on punctuation', () => {
+      expect(tokenizeQuery('  José  Sharma-Kapoor ')).toEqual(['jose', 'sharma', 'kapoor'])
+      expect(tokenizeQuery('rahul@example.com')).toEqual(['rahul', 'example', 'com'])
+    })
+  })
+
+  describe('editDistance', () => {
+    it('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('sharma', 'sharma')).toBe(0)
+      expect(editDistance('shrma', 'sharma')).toBe(1)
+      expect(editDistance('sharma', 'sharmaa')).toBe(1)
+      expect(editDistance('sarma', 'sharmaa')).toBe(2)
+    })
+
+    it('should stop once the distance exceeds the limit', () => {
+      expect(editDistance('priya', 'rahul', 1)).toBe(2)
+      expect(editDistance('a', 'abcdef', 2)).toBe(3)
+    })
+  })
+
+  describe('typoBudget', () => {
+    it('should allow more typos for longer words', () => {
+      expect(typoBudget('raj')).toBe(0)
+      expect(typoBudget('rahul')).toBe(1)
+      expect(typoBudget('chandigarh')).toBe(2)
+    })
+  })
+
+  describe('buildMatchExpression', () => {
+    it('should require every token as a prefix', () => {
+      expect(buildMatchExpression(['rahul', 'sh'])).toBe('"rahul"* AND "sh"*')
+    })
+
+    it('should add typo alternatives', () => {
+      const alternatives = new Map([['shrma', ['sharma', 'sherma']]])
+      expect(buildMatchExpression(['shrma'], alternatives)).toBe('("shrma"* OR "sharma" OR "sherma")')
+    })
+
+    it('should escape quotes', () => {
+      expect(buildMatchExpression(['a"b'])).toBe('"a""b"*')
+    })
+  })
+})
@@ -0,0 +1,39 @@
+import { suggestFollowUp, taskBucket } from '@/lib/tasks'
+
+describe('Follow-up Tasks', () => {
+  // Thursday 15 January 2026, 09:30 local time
+  const now = new Date(2026, 0, 15, 9, 30)
+
+  describe('suggestFollowUp', () => {
+    it('should follow up sooner for buyers with a shorter timeline', () => {
+      expect(suggestFollowUp('ZERO_TO_THREE_MONTHS', 'NEW', now)?.dueAt).toEqual(new Date(2026, 0, 16, 10, 0))
+      expect(suggestFollowUp('THREE_TO_SIX_MONTHS', 'NEW', now)?.dueAt).toEqual(new Date(2026, 0, 18, 10, 0))
+      expect(suggestFollowUp('MORE_THAN_SIX_MONTHS', 'NEW', now)?.dueAt).toEqual(new Date(2026, 0, 22, 10, 0))
+      expect(suggestFollowUp('EXPLORING', 'NEW', now)?.dueAt).toEqual(new Date(2026, 0, 29, 10, 0))
+    })
+
+    it('should suggest a site visit once the lead is qualified or contacted', () => {
+      expect(suggestFollowUp('EXPLORING', 'NEW', now)?.type).toBe('CALL')
+      expect(suggestFollowUp('EXPLORING', 'CONTACTED', now)?.type).toBe('VISIT')
+      expect(suggestFollowUp('EXPLORING', 'NEGOTIATION', now)?.type).toBe('CALL')
+    })
+
+    it('should not suggest follow-ups for closed leads', () => {
+      expect(suggestFollowUp('ZERO_TO_THREE_MONTHS', 'CONVERTED', now)).toBeNull()
+      expect(suggestFollowUp('ZERO_TO_THREE_MONTHS', 'DROPPED', now)).toBeNull()
+    })
+  })
+
+  describe('taskBucket', () => {
+    it('should sort open tasks into overdue, today and upcoming', () => {
+      expect(taskBucket({ dueAt: new Date(2026, 0, 14, 17, 0) }, now)).toBe('overdue')
+      expect(taskBucket({ dueAt: new Date(2026, 0, 15, 9, 0) }, now)).toBe('overdue')
+      expect(taskBucket({ dueAt: new Date(2026, 0, 15, 23, 0).toISOString() }, now)).toBe('today')
+      expect(taskBucket({ dueAt: new Date(2026, 0, 16, 0, 0) }, now)).toBe('upcoming')
+    })
+
+    it('should treat completed tasks as done regardless of due date', () => {
+      expect(taskBucket({ dueAt: new Date(2026, 0, 1), completedAt: new Date(2026, 0, 2) }, now)).toBe('done')
+    })
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * @jest-environment node
+ */
+import type { User } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { DEFAULT_TRASH_RETENTION_DAYS, purgeDate, restoreBuyer, retentionCutoff } from '@/lib/trash'
+
+const tx = {
+  buyer: { update: jest.fn() },
+  buyerHistory: { create: jest.fn() },
+}
+
+jest.mock('../lib/db', () => ({
+  prisma: {
+    buyer: { findFirst: jest.fn() },
+    buyerHistory: { findFirst: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}))
+
+const mocked = prisma as unknown as {
+  buyer: { findFirst: jest.Mock }
+  buyerHistory: { findFirst: jest.Mock }
+  $transaction: jest.Mock
+}
+
+describe('Trash Retention', () => {
+  const now = new Date('2024-03-31T12:00:00Z')
+
+  it('should purge leads deleted more than the retention period ago', () => {
+    expect(retentionCutoff(30, now)).toEqual(new Date('2024-03-01T12:00:00Z'))
+    expect(retentionCutoff(1, now)).toEqual(new Date('2024-03-30T12:00:00Z'))
+  })
+
+  it('should show when a trashed lead will be purged', () => {
+    const deletedAt = new Date('2024-03-01T12:00:00Z')
+    expect(purgeDate(deletedAt, DEFAULT_TRASH_RETENTION_DAYS)).toEqual(now)
+  })
+
+  it('should agree on the boundary between the cutoff and the purge date', () => {
+    const cutoff = retentionCutoff(7, now)
+    expect(purgeDate(cutoff, 7)).toEqual(now)
+  })
+})
+
+describe('Restoring from the Trash', () => {
+  const agent: User = { id: 'agent-1', email: 'agent@example.com', role: 'AGENT', teamId: 'team-a' }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mocked.buyer.findFirst.mockResolvedValue({ id: 'b2', ownerId: 'agent-1', updatedAt: new Date(), owner: { teamId: 'team-a' } })
+    mocked.$transaction.mockImplementation(run => run(tx))
+    tx.buyer.update.mockResolvedValue({ id: 'b2', deletedAt: null })
+  })
+
+  it('should restore a deleted lead', async () => {
+    mocked.buyerHistory.findFirst.mockResolvedValue({ diff: { action: 'deleted' } })
+
+    expect(await restoreBuyer(agent, 'b2')).toEqual({ success: true, buyer: { id: 'b2', deletedAt: null } })
+    expect(tx.buyer.update).toHaveBeenCalledWith({ where: { id: 'b2' }, data: { deletedAt: null, deletedBy: null } })
+    expect(tx.buyerHistory.create).toHaveBeenCalledWith({ data: { buyerId: 'b2', changedBy: 'agent-1', diff: { action: 'restored' } } })
+  })
+
+  it('should refuse a duplicate trashed by a merge and point to the lead it went into', async () => {
+    mocked.buyerHistory.findFirst.mockResolvedValue({ diff: { action: 'deleted', mergedInto: 'b1' } })
+
+    expect(await restoreBuyer(agent, 'b2')).toMatchObject({ success: false, status: 409, mergedInto: 'b1' })
+    expect(mocked.$transaction).not.toHaveBeenCalled()
+  })
+})
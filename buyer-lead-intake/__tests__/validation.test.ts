@@ -1,4 +1,4 @@
-import { BuyerSchema, validateCSVRow } from '@/lib/validation'
+import { ActivitySchema, BulkActionSchema, BuyerSchema, ChangePasswordSchema, RenameTagSchema, SavedViewSchema, SignupSchema, TagListSchema, TrashSettingsSchema, UpdateBuyerSchema, UpdateSavedViewSchema, legacyTagNames, normalizeCSVRow, normalizeImportPhone, parseIndianAmount, statusTransitionError, validateCSVRow } from '@/lib/validation'
 
 describe('Buyer Validation', () => {
   describe('BuyerSchema', () => {
@@ -181,6 +181,18 @@ describe('Buyer Validation', () => {
       }
     })
 
+    it('should report each problem against the field it belongs to', () => {
+      const invalidRow = { ...validCSVRow, phone: '123', bhk: undefined }
+      const result = validateCSVRow(invalidRow, 0)
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.issues).toEqual([
+          { field: 'phone', message: 'Phone must be at least 10 digits' },
+          { field: 'bhk', message: 'BHK is required for Apartment and Villa properties' },
+        ])
+      }
+    })
+
     it('should handle invalid budget values in CSV', () => {
       const rowWithInvalidBudget = { ...validCSVRow, budgetMin: 'invalid', budgetMax: '-100' }
       const result = validateCSVRow(rowWithInvalidBudget, 3)
@@ -190,4 +202,229 @@ describe('Buyer Validation', () => {
       }
     })
   })
+
+  describe('Import Normalization', () => {
+    it('should read spreadsheet spellings of enum values', () => {
+      const { row, coercions } = normalizeCSVRow({
+        city: 'chandigarh',
+        propertyType: 'Flat',
+        bhk: '3BHK',
+        purpose: 'buy',
+        timeline: '0-3 months',
+        source: 'Walk-in',
+      })
+      expect(row).toEqual({
+        city: 'CHANDIGARH',
+        propertyType: 'APARTMENT',
+        bhk: 'THREE',
+        purpose: 'BUY',
+        timeline: 'ZERO_TO_THREE_MONTHS',
+        source: 'WALK_IN',
+      })
+      expect(coercions).toContainEqual({ field: 'bhk', from: '3BHK', to: 'THREE' })
+      expect(coercions).toHaveLength(6)
+    })
+
+    it('should not report values that are already in the expected form', () => {
+      expect(normalizeCSVRow({ city: 'MOHALI', phone: '9876543210', budgetMin: '5000000' }).coercions).toEqual([])
+    })
+
+    it('should leave unrecognised values for validation to reject', () => {
+      const { row, coercions } = normalizeCSVRow({ city: 'Delhi', bhk: '5BHK' })
+      expect(row).toEqual({ city: 'Delhi', bhk: '5BHK' })
+      expect(coercions).toEqual([])
+    })
+
+    it('should parse budgets in lakh and crore', () => {
+      expect(parseIndianAmount('₹50L')).toBe('5000000')
+      expect(parseIndianAmount('1.2 Cr')).toBe('12000000')
+      expect(parseIndianAmount('Rs. 45,000')).toBe('45000')
+      expect(parseIndianAmount('50,00,000')).toBe('5000000')
+      expect(parseIndianAmount('45k')).toBe('45000')
+      expect(parseIndianAmount('fifty lakh')).toBeUndefined()
+      expect(parseIndianAmount('50 million')).toBeUndefined()
+    })
+
+    it('should strip country codes and formatting from phones', () => {
+      expect(normalizeImportPhone('+91 98765-43210')).toBe('9876543210')
+      expect(normalizeImportPhone('0091 98765 43210')).toBe('9876543210')
+      expect(normalizeImportPhone('098765 43210')).toBe('9876543210')
+      expect(normalizeImportPhone('+1 (415) 555-0134')).toBe('14155550134')
+      expect(normalizeImportPhone('12345')).toBeUndefined()
+    })
+
+    it('should validate a normalized row', () => {
+      const { row } = normalizeCSVRow({
+        fullName: 'Amit Kumar',
+        phone: '+91 98765 43212',
+        city: 'zirakpur',
+        propertyType: 'plot',
+        purpose: 'Buy',
+        budgetMin: '30L',
+        budgetMax: '₹0.5 Cr',
+        timeline: '6+ months',
+        source: 'walk in',
+      })
+      const result = validateCSVRow(row, 0)
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.phone).toBe('9876543212')
+        expect(result.data.budgetMin).toBe(3000000)
+        expect(result.data.budgetMax).toBe(5000000)
+      }
+    })
+  })
+
+  describe('Auth Schemas', () => {
+    it('should require a minimum password length on signup', () => {
+      const result = SignupSchema.safeParse({ token: 'abc', password: 'short' })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('Password must be at least 8 characters')
+      }
+    })
+
+    it('should require an invite token on signup', () => {
+      const result = SignupSchema.safeParse({ token: '', password: 'longenough' })
+      expect(result.success).toBe(false)
+    })
+
+    it('should reject reusing the current password', () => {
+      const result = ChangePasswordSchema.safeParse({ currentPassword: 'samepass123', newPassword: 'samepass123' })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('New password must be different from the current password')
+      }
+    })
+
+    it('should accept a valid password change', () => {
+      const result = ChangePasswordSchema.safeParse({ currentPassword: 'demo123', newPassword: 'newpassword' })
+      expect(result.success).toBe(true)
+    })
+  })
+
+  describe('Saved Views', () => {
+    it('should accept list filters and fill in defaults', () => {
+      const result = SavedViewSchema.parse({
+        name: 'My new Mohali leads',
+        filters: { status: 'NEW', city: 'MOHALI', propertyType: 'APARTMENT', timeline: 'ZERO_TO_THREE_MONTHS' },
+      })
+      expect(result.sort).toBe('updatedAt:desc')
+      expect(result.isDefault).toBe(false)
+      expect(result.shared).toBe(false)
+    })
+
+    it('should reject invalid filter values', () => {
+      const result = SavedViewSchema.safeParse({ name: 'Bad', filters: { city: 'DELHI' } })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('View contains invalid filters')
+      }
+    })
+
+    it('should reject unknown filter keys and malformed sorts', () => {
+      expect(SavedViewSchema.safeParse({ name: 'Bad', filters: { colour: 'red' } }).success).toBe(false)
+      expect(SavedViewSchema.safeParse({ name: 'Bad', sort: 'updatedAt' }).success).toBe(false)
+    })
+
+    it('should leave omitted fields out of updates', () => {
+      expect(UpdateSavedViewSchema.parse({ isDefault: true })).toEqual({ isDefault: true })
+    })
+  })
+  describe('Tags', () => {
+    it('should normalize case and whitespace and drop duplicates', () => {
+      expect(TagListSchema.parse([' VIP ', 'vip', 'First  Time Buyer'])).toEqual(['vip', 'first time buyer'])
+    })
+
+    it('should reject empty and overly long tags', () => {
+      expect(TagListSchema.safeParse(['   ']).success).toBe(false)
+      expect(TagListSchema.safeParse(['a'.repeat(31)]).success).toBe(false)
+    })
+
+    it('should reject commas, which separate tags in CSV files', () => {
+      expect(TagListSchema.safeParse(['hot, urgent']).success).toBe(false)
+    })
+
+    it('should limit the number of tags per lead', () => {
+      const tags = Array.from({ length: 21 }, (_, i) => `tag-${i}`)
+      expect(TagListSchema.safeParse(tags).success).toBe(false)
+    })
+
+    it('should normalize renamed tag names', () => {
+      expect(RenameTagSchema.parse({ name: '  Hot Lead ' })).toEqual({ name: 'hot lead' })
+    })
+
+    it('should split old comma-separated tags, skipping blank and invalid ones', () => {
+      expect(legacyTagNames(' VIP,first  time buyer,,vip,' + 'a'.repeat(31))).toEqual(['vip', 'first time buyer'])
+      expect(legacyTagNames('')).toEqual([])
+      expect(legacyTagNames(null)).toEqual([])
+    })
+  })
+  describe('Status Transitions', () => {
+    it('should allow moves along the pipeline and keeping the same status', () => {
+      expect(statusTransitionError('NEW', 'QUALIFIED', {})).toBeNull()
+      expect(statusTransitionError('NEGOTIATION', 'CONVERTED', {})).toBeNull()
+      expect(statusTransitionError('CONVERTED', 'CONVERTED', {})).toBeNull()
+    })
+
+    it('should reject skipping stages and leaving a converted lead', () => {
+      expect(statusTransitionError('NEW', 'CONVERTED', {})).toBe('A NEW lead cannot be moved to CONVERTED')
+      expect(statusTransitionError('CONVERTED', 'NEW', {})).not.toBeNull()
+    })
+
+    it('should only reopen dropped leads as new', () => {
+      expect(statusTransitionError('DROPPED', 'NEW', {})).toBeNull()
+      expect(statusTransitionError('DROPPED', 'NEGOTIATION', {})).not.toBeNull()
+    })
+
+    it('should require a drop reason and a visit date', () => {
+      expect(statusTransitionError('CONTACTED', 'DROPPED', {})).toBe('A reason is required to drop a lead')
+      expect(statusTransitionError('CONTACTED', 'DROPPED', { dropReason: 'Bought elsewhere' })).toBeNull()
+      expect(statusTransitionError('CONTACTED', 'VISITED', {})).toBe('A visit date is required to mark a lead as visited')
+      expect(statusTransitionError('CONTACTED', 'VISITED', { visitDate: '2024-01-15' })).toBeNull()
+    })
+
+    it('should reject visit dates in the future', () => {
+      expect(UpdateBuyerSchema.safeParse({ visitDate: '2024-01-15' }).success).toBe(true)
+      expect(UpdateBuyerSchema.safeParse({ visitDate: '2999-01-01' }).success).toBe(false)
+      expect(UpdateBuyerSchema.safeParse({ visitDate: 'last week' }).success).toBe(false)
+    })
+  })
+
+  describe('Activities', () => {
+    it('should require text and accept backdated entries', () => {
+      expect(ActivitySchema.safeParse({ type: 'CALL', body: '  ' }).success).toBe(false)
+      expect(ActivitySchema.safeParse({ type: 'CALL', outcome: 'NO_RESPONSE', body: 'Rang twice', occurredAt: '2024-01-15T10:30:00+05:30' }).success).toBe(true)
+    })
+
+    it('should reject entries dated in the future', () => {
+      const result = ActivitySchema.safeParse({ type: 'NOTE', body: 'Later', occurredAt: '2999-01-01T00:00:00Z' })
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0].message).toBe('Activity time cannot be in the future')
+    })
+  })
+
+  describe('Trash Settings', () => {
+    it('should accept a whole number of days up to a year', () => {
+      expect(TrashSettingsSchema.safeParse({ retentionDays: 30 }).success).toBe(true)
+      expect(TrashSettingsSchema.safeParse({ retentionDays: 0 }).success).toBe(false)
+      expect(TrashSettingsSchema.safeParse({ retentionDays: 7.5 }).success).toBe(false)
+      expect(TrashSettingsSchema.safeParse({ retentionDays: 366 }).success).toBe(false)
+    })
+  })
+  describe('Bulk Actions', () => {
+    it('should validate the fields each action needs', () => {
+      expect(BulkActionSchema.safeParse({ action: 'status', buyerIds: ['b1'], status: 'CONTACTED' }).success).toBe(true)
+      expect(BulkActionSchema.safeParse({ action: 'addTags', buyerIds: ['b1'], tags: ['VIP '] }).data).toEqual({ action: 'addTags', buyerIds: ['b1'], tags: ['vip'] })
+      expect(BulkActionSchema.safeParse({ action: 'removeTags', buyerIds: ['b1'], tags: [] }).success).toBe(false)
+      expect(BulkActionSchema.safeParse({ action: 'reassign', buyerIds: ['b1'] }).success).toBe(false)
+      expect(BulkActionSchema.safeParse({ action: 'archive', buyerIds: ['b1'] }).success).toBe(false)
+    })
+
+    it('should limit the selection size', () => {
+      expect(BulkActionSchema.safeParse({ action: 'delete', buyerIds: [] }).success).toBe(false)
+      const buyerIds = Array.from({ length: 101 }, (_, i) => `b${i}`)
+      expect(BulkActionSchema.safeParse({ action: 'export', buyerIds }).success).toBe(false)
+    })
+  })
 })
@@ -0,0 +1,451 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface AssignmentRule {
+  id: string
+  name: string
+  priority: number
+  active: boolean
+  city?: string | null
+  propertyType?: string | null
+  purpose?: string | null
+  source?: string | null
+  budgetMin?: number | null
+  budgetMax?: number | null
+  assigneeId: string
+  assignee: {
+    id: string
+    name?: string
+    email: string
+  }
+}
+
+interface Agent {
+  id: string
+  name?: string
+  email: string
+  role: string
+  inRoundRobin: boolean
+}
+
+const emptyForm = {
+  name: '',
+  priority: '0',
+  active: true,
+  city: '',
+  propertyType: '',
+  purpose: '',
+  source: '',
+  budgetMin: '',
+  budgetMax: '',
+  assigneeId: '',
+}
+
+export default function AssignmentRulesPage() {
+  const [rules, setRules] = useState<AssignmentRule[]>([])
+  const [agents, setAgents] = useState<Agent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [form, setForm] = useState(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const router = useRouter()
+
+  const fetchData = async () => {
+    try {
+      const [rulesResponse, usersResponse] = await Promise.all([
+        fetch('/api/assignment-rules'),
+        fetch('/api/users'),
+      ])
+
+      if (rulesResponse.status === 401 || usersResponse.status === 401) {
+        router.push('/login')
+        return
+      }
+
+      if (rulesResponse.ok && usersResponse.ok) {
+        const rulesData = await rulesResponse.json()
+        const usersData = await usersResponse.json()
+        setRules(rulesData.rules)
+        setAgents(usersData.users)
+      } else {
+        const errorData = await rulesResponse.json()
+        setError(errorData.error || 'Failed to load assignment rules')
+      }
+    } catch {
+      setError('Network error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const handleFormChange = (key: keyof typeof emptyForm, value: string | boolean) => {
+    setForm(prev => ({ ...prev, [key]: value }))
+  }
+
+  const startEdit = (rule: AssignmentRule) => {
+    setEditingId(rule.id)
+    setForm({
+      name: rule.name,
+      priority: rule.priority.toString(),
+      active: rule.active,
+      city: rule.city || '',
+      propertyType: rule.propertyType || '',
+      purpose: rule.purpose || '',
+      source: rule.source || '',
+      budgetMin: rule.budgetMin?.toString() || '',
+      budgetMax: rule.budgetMax?.toString() || '',
+      assigneeId: rule.assigneeId,
+    })
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError('')
+
+    try {
+      const payload = {
+        name: form.name,
+        priority: parseInt(form.priority) || 0,
+        active: form.active,
+        city: form.city || null,
+        propertyType: form.propertyType || null,
+        purpose: form.purpose || null,
+        source: form.source || null,
+        budgetMin: form.budgetMin ? parseInt(form.budgetMin) : null,
+        budgetMax: form.budgetMax ? parseInt(form.budgetMax) : null,
+        assigneeId: form.assigneeId,
+      }
+
+      const response = await fetch(
+        editingId ? `/api/assignment-rules/${editingId}` : '/api/assignment-rules',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(payload),
+        }
+      )
+
+      if (response.ok) {
+        resetForm()
+        await fetchData()
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to save rule')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (rule: AssignmentRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/assignment-rules/${rule.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        await fetchData()
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to delete rule')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    }
+  }
+
+  const toggleRoundRobin = async (agent: Agent) => {
+    try {
+      const response = await fetch(`/api/users/${agent.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ inRoundRobin: !agent.inRoundRobin }),
+      })
+      if (response.ok) {
+        setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, inRoundRobin: !a.inRoundRobin } : a))
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to update round-robin pool')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    }
+  }
+
+  const describeRule = (rule: AssignmentRule) => {
+    const parts = [rule.city, rule.propertyType, rule.purpose, rule.source].filter(Boolean) as string[]
+    if (rule.budgetMin != null || rule.budgetMax != null) {
+      parts.push(`₹${(rule.budgetMin ?? 0).toLocaleString()} - ${rule.budgetMax != null ? `₹${rule.budgetMax.toLocaleString()}` : 'any'}`)
+    }
+    return parts.join(' • ')
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading assignment rules...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Lead Assignment</h1>
+        <p className="text-gray-600">
+          Rules are checked in priority order (lowest first). Leads that match no rule go to the
+          round-robin member with the fewest open leads.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Rules */}
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Rules</h3>
+          {rules.length === 0 ? (
+            <p className="text-sm text-gray-500">No rules yet</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Priority</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Matches</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Assignee</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rules.map((rule) => (
+                  <tr key={rule.id} className={rule.active ? '' : 'opacity-50'}>
+                    <td className="px-3 py-2 text-sm text-gray-900">{rule.priority}</td>
+                    <td className="px-3 py-2 text-sm text-gray-900">
+                      {rule.name}
+                      {!rule.active && <span className="ml-2 text-xs text-gray-500">(inactive)</span>}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-600">{describeRule(rule)}</td>
+                    <td className="px-3 py-2 text-sm text-gray-900">{rule.assignee.name || rule.assignee.email}</td>
+                    <td className="px-3 py-2 text-sm text-right space-x-3">
+                      <button onClick={() => startEdit(rule)} className="text-blue-600 hover:text-blue-500">
+                        Edit
+                      </button>
+                      <button onClick={() => handleDelete(rule)} className="text-red-600 hover:text-red-500">
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {/* Rule Form */}
+      <form onSubmit={handleSubmit} className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">{editingId ? 'Edit Rule' : 'New Rule'}</h3>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">Name *</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => handleFormChange('name', e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Priority</label>
+              <input
+                type="number"
+                min="0"
+                value={form.priority}
+                onChange={(e) => handleFormChange('priority', e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">City</label>
+              <select
+                value={form.city}
+                onChange={(e) => handleFormChange('city', e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                <option value="">Any</option>
+                <option value="CHANDIGARH">Chandigarh</option>
+                <option value="MOHALI">Mohali</option>
+                <option value="ZIRAKPUR">Zirakpur</option>
+                <option value="PANCHKULA">Panchkula</option>
+                <option value="OTHER">Other</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Property Type</label>
+              <select
+                value={form.propertyType}
+                onChange={(e) => handleFormChange('propertyType', e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                <option value="">Any</option>
+                <option value="APARTMENT">Apartment</option>
+                <option value="VILLA">Villa</option>
+                <option value="PLOT">Plot</option>
+                <option value="OFFICE">Office</option>
+                <option value="RETAIL">Retail</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Purpose</label>
+              <select
+                value={form.purpose}
+                onChange={(e) => handleFormChange('purpose', e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                <option value="">Any</option>
+                <option value="BUY">Buy</option>
+                <option value="RENT">Rent</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Source</label>
+              <select
+                value={form.source}
+                onChange={(e) => handleFormChange('source', e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                <option value="">Any</option>
+                <option value="WEBSITE">Website</option>
+                <option value="REFERRAL">Referral</option>
+                <option value="WALK_IN">Walk-in</option>
+                <option value="CALL">Call</option>
+                <option value="OTHER">Other</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Budget From (₹)</label>
+              <input
+                type="number"
+                min="0"
+                value={form.budgetMin}
+                onChange={(e) => handleFormChange('budgetMin', e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Budget To (₹)</label>
+              <input
+                type="number"
+                min="0"
+                value={form.budgetMax}
+                onChange={(e) => handleFormChange('budgetMax', e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">Assign To *</label>
+              <select
+                required
+                value={form.assigneeId}
+                onChange={(e) => handleFormChange('assigneeId', e.target.value)}
+                className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                <option value="">Select agent</option>
+                {agents.map((agent) => (
+                  <option key={agent.id} value={agent.id}>
+                    {agent.name || agent.email}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-end">
+              <label className="inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.active}
+                  onChange={(e) => handleFormChange('active', e.target.checked)}
+                  className="mr-2"
+                />
+                Active
+              </label>
+            </div>
+          </div>
+          <div className="mt-4 flex justify-end space-x-3">
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-blue-600 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : editingId ? 'Save Rule' : 'Add Rule'}
+            </button>
+          </div>
+        </div>
+      </form>
+
+      {/* Round-robin pool */}
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Round-Robin Pool</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Unmatched leads go to the pool member with the fewest open leads. With an empty pool the creator keeps the lead.
+          </p>
+          <ul className="divide-y divide-gray-200">
+            {agents.map((agent) => (
+              <li key={agent.id} className="py-2 flex items-center justify-between">
+                <span className="text-sm text-gray-900">
+                  {agent.name || agent.email}
+                  <span className="ml-2 text-xs text-gray-500">{agent.role.replace(/_/g, ' ').toLowerCase()}</span>
+                </span>
+                <label className="inline-flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={agent.inRoundRobin}
+                    onChange={() => toggleRoundRobin(agent)}
+                    className="mr-2"
+                  />
+                  In pool
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  )
+}
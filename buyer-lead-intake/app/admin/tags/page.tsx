@@ -0,0 +1,237 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface Tag {
+  id: string
+  name: string
+  count: number
+}
+
+export default function TagsPage() {
+  const [tags, setTags] = useState<Tag[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [mergingId, setMergingId] = useState<string | null>(null)
+  const [mergeTargetId, setMergeTargetId] = useState('')
+  const router = useRouter()
+
+  const fetchTags = async () => {
+    try {
+      const response = await fetch('/api/tags')
+      if (response.status === 401) {
+        router.push('/login')
+        return
+      }
+
+      if (response.ok) {
+        const data = await response.json()
+        setTags(data.tags)
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to load tags')
+      }
+    } catch {
+      setError('Network error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchTags()
+  }, [])
+
+  const closeForms = () => {
+    setEditingId(null)
+    setNewName('')
+    setMergingId(null)
+    setMergeTargetId('')
+  }
+
+  // Every action shares the same request/refresh/error flow
+  const runAction = async (url: string, init: RequestInit, fallbackError: string) => {
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch(url, init)
+      const data = await response.json()
+      if (response.ok) {
+        setMessage(data.message || '')
+        closeForms()
+        await fetchTags()
+      } else {
+        setError(data.error || fallbackError)
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    }
+  }
+
+  const handleRename = (tag: Tag) =>
+    runAction(`/api/tags/${tag.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: newName }),
+    }, 'Failed to rename tag')
+
+  const handleMerge = (tag: Tag) =>
+    runAction(`/api/tags/${tag.id}/merge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ targetId: mergeTargetId }),
+    }, 'Failed to merge tags')
+
+  const handleDelete = (tag: Tag) => {
+    if (!confirm(`Delete the tag "${tag.name}"? It will be removed from ${tag.count} leads.`)) {
+      return
+    }
+    runAction(`/api/tags/${tag.id}`, { method: 'DELETE' }, 'Failed to delete tag')
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading tags...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Tags</h1>
+        <p className="text-gray-600">
+          Rename tags to fix spelling, or merge duplicates into one tag. Changes apply to every lead.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          {tags.length === 0 ? (
+            <p className="text-sm text-gray-500">No tags yet</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Tag</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Leads</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {tags.map((tag) => (
+                  <tr key={tag.id}>
+                    <td className="px-3 py-2 text-sm text-gray-900">
+                      {editingId === tag.id ? (
+                        <input
+                          type="text"
+                          value={newName}
+                          onChange={(e) => setNewName(e.target.value)}
+                          className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          autoFocus
+                        />
+                      ) : mergingId === tag.id ? (
+                        <div className="flex items-center space-x-2">
+                          <span>{tag.name} into</span>
+                          <select
+                            value={mergeTargetId}
+                            onChange={(e) => setMergeTargetId(e.target.value)}
+                            className="block border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          >
+                            <option value="">Select tag</option>
+                            {tags.filter(other => other.id !== tag.id).map((other) => (
+                              <option key={other.id} value={other.id}>
+                                {other.name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      ) : (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          {tag.name}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-600">{tag.count}</td>
+                    <td className="px-3 py-2 text-sm text-right space-x-3">
+                      {editingId === tag.id ? (
+                        <>
+                          <button
+                            onClick={() => handleRename(tag)}
+                            disabled={!newName.trim()}
+                            className="text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                          <button onClick={closeForms} className="text-gray-600 hover:text-gray-500">
+                            Cancel
+                          </button>
+                        </>
+                      ) : mergingId === tag.id ? (
+                        <>
+                          <button
+                            onClick={() => handleMerge(tag)}
+                            disabled={!mergeTargetId}
+                            className="text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                          >
+                            Merge
+                          </button>
+                          <button onClick={closeForms} className="text-gray-600 hover:text-gray-500">
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => {
+                              closeForms()
+                              setEditingId(tag.id)
+                              setNewName(tag.name)
+                            }}
+                            className="text-blue-600 hover:text-blue-500"
+                          >
+                            Rename
+                          </button>
+                          <button
+                            onClick={() => {
+                              closeForms()
+                              setMergingId(tag.id)
+                            }}
+                            className="text-blue-600 hover:text-blue-500"
+                          >
+                            Merge
+                          </button>
+                          <button onClick={() => handleDelete(tag)} className="text-red-600 hover:text-red-500">
+                            Delete
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
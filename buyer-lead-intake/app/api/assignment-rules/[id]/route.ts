@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { canManageAssignmentRules } from '@/lib/permissions';
+import { AssignmentRuleSchema } from '@/lib/validation';
+
+// PUT /api/assignment-rules/[id] - Replace an assignment rule (admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!canManageAssignmentRules(user)) {
+      return NextResponse.json(
+        { error: 'Only admins can manage assignment rules' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const ruleData = AssignmentRuleSchema.parse(body);
+
+    const existingRule = await prisma.assignmentRule.findUnique({
+      where: { id: params.id },
+      select: { id: true }
+    });
+    if (!existingRule) {
+      return NextResponse.json(
+        { error: 'Assignment rule not found' },
+        { status: 404 }
+      );
+    }
+
+    const assignee = await prisma.user.findUnique({
+      where: { id: ruleData.assigneeId },
+      select: { id: true }
+    });
+    if (!assignee) {
+      return NextResponse.json(
+        { error: 'Assignee not found' },
+        { status: 400 }
+      );
+    }
+
+    // Criteria left out of the payload are cleared rather than kept
+    const rule = await prisma.assignmentRule.update({
+      where: { id: params.id },
+      data: {
+        city: null,
+        propertyType: null,
+        purpose: null,
+        source: null,
+        budgetMin: null,
+        budgetMax: null,
+        ...ruleData,
+      },
+      include: {
+        assignee: {
+          select: { id: true, name: true, email: true }
+        }
+      }
+    });
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error('Error updating assignment rule:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid rule data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to update assignment rule' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/assignment-rules/[id] - Delete an assignment rule (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!canManageAssignmentRules(user)) {
+      return NextResponse.json(
+        { error: 'Only admins can manage assignment rules' },
+        { status: 403 }
+      );
+    }
+
+    const existingRule = await prisma.assignmentRule.findUnique({
+      where: { id: params.id },
+      select: { id: true }
+    });
+    if (!existingRule) {
+      return NextResponse.json(
+        { error: 'Assignment rule not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.assignmentRule.delete({
+      where: { id: params.id }
+    });
+
+    return NextResponse.json({ message: 'Assignment rule deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting assignment rule:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to delete assignment rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { canManageAssignmentRules } from '@/lib/permissions';
+import { AssignmentRuleSchema } from '@/lib/validation';
+
+// GET /api/assignment-rules - List assignment rules in evaluation order (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!canManageAssignmentRules(user)) {
+      return NextResponse.json(
+        { error: 'Only admins can manage assignment rules' },
+        { status: 403 }
+      );
+    }
+
+    const rules = await prisma.assignmentRule.findMany({
+      include: {
+        assignee: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Error fetching assignment rules:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch assignment rules' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/assignment-rules - Create an assignment rule (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!canManageAssignmentRules(user)) {
+      return NextResponse.json(
+        { error: 'Only admins can manage assignment rules' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const ruleData = AssignmentRuleSchema.parse(body);
+
+    const assignee = await prisma.user.findUnique({
+      where: { id: ruleData.assigneeId },
+      select: { id: true }
+    });
+    if (!assignee) {
+      return NextResponse.json(
+        { error: 'Assignee not found' },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.assignmentRule.create({
+      data: ruleData,
+      include: {
+        assignee: {
+          select: { id: true, name: true, email: true }
+        }
+      }
+    });
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error('Error creating assignment rule:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid rule data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to create assignment rule' },
+      { status: 500 }
+    );
+  }
+}
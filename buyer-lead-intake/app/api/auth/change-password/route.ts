@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { changePassword, requireAuth } from '@/lib/auth';
+import { ChangePasswordSchema } from '@/lib/validation';
+
+// POST /api/auth/change-password - Change the current user's password
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const { currentPassword, newPassword } = ChangePasswordSchema.parse(body);
+
+    const changed = await changePassword(user.id, currentPassword, newPassword);
+
+    if (!changed) {
+      return NextResponse.json(
+        { error: 'Current password is incorrect' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Password changed successfully' });
+  } catch (error) {
+    console.error('Change password error:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid request data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to change password' },
+      { status: 500 }
+    );
+  }
+}
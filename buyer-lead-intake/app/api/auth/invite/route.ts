@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { createInvite, requireAuth } from '@/lib/auth';
+import { canManageUsers } from '@/lib/permissions';
+import { InviteSchema } from '@/lib/validation';
+
+// POST /api/auth/invite - Invite a new agent by email
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const { email, name, role, teamId } = InviteSchema.parse(body);
+
+    // Only admins pick the role and team; everyone else invites agents into their own team
+    if (!canManageUsers(user) && ((role && role !== 'AGENT') || (teamId && teamId !== user.teamId))) {
+      return NextResponse.json(
+        { error: 'Only admins can assign roles or teams' },
+        { status: 403 }
+      );
+    }
+
+    const result = canManageUsers(user)
+      ? await createInvite(email, name, user, role, teamId)
+      : await createInvite(email, name, user, 'AGENT', user.teamId ?? undefined);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'A user with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      user: result.user,
+      inviteUrl: new URL(`/signup?token=${result.inviteToken}`, request.url).toString(),
+      expiresAt: result.expiresAt,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Invite error:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid request data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to create invite' },
+      { status: 500 }
+    );
+  }
+}
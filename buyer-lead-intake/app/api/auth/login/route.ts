@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { login } from '@/lib/auth';
+import { login, setAuthCookie } from '@/lib/auth';
 import { LoginSchema } from '@/lib/validation';
 
 export async function POST(request: NextRequest) {
@@ -22,13 +22,7 @@ export async function POST(request: NextRequest) {
     });
 
     // Set HTTP-only cookie
-    response.cookies.set('auth-token', result.token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 7 * 24 * 60 * 60, // 7 days
-      path: '/'
-    });
+    setAuthCookie(response, result.token);
 
     return response;
   } catch (error) {
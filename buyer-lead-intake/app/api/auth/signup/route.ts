@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { acceptInvite, setAuthCookie } from '@/lib/auth';
+import { SignupSchema } from '@/lib/validation';
+
+// POST /api/auth/signup - Set a password for an invited user and sign them in
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { token, name, password } = SignupSchema.parse(body);
+
+    const result = await acceptInvite(token, password, name);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Invite is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    const response = NextResponse.json({
+      user: result.user,
+      message: 'Signup successful'
+    }, { status: 201 });
+
+    setAuthCookie(response, result.token);
+
+    return response;
+  } catch (error) {
+    console.error('Signup error:', error);
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid request data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to sign up' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { buyerAccessSelect, canAccessBuyer } from '@/lib/permissions';
+import { TIMELINE_LIMIT, mergeTimeline } from '@/lib/activities';
+import { ActivitySchema } from '@/lib/validation';
+
+const authorSelect = {
+  select: { id: true, name: true, email: true }
+} as const;
+
+// GET /api/buyers/[id]/activities - Timeline of logged activities interleaved with record changes, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const buyer = await prisma.buyer.findUnique({
+      where: { id: params.id, deletedAt: null },
+      select: buyerAccessSelect
+    });
+
+    if (!buyer) {
+      return NextResponse.json(
+        { error: 'Buyer not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canAccessBuyer(user, 'view', buyer)) {
+      return NextResponse.json(
+        { error: 'You do not have access to this buyer' },
+        { status: 403 }
+      );
+    }
+
+    const [activities, history] = await Promise.all([
+      prisma.activity.findMany({
+        where: { buyerId: params.id },
+        include: { author: authorSelect },
+        orderBy: [{ occurredAt: 'desc' }, { id: 'desc' }],
+        take: TIMELINE_LIMIT,
+      }),
+      prisma.buyerHistory.findMany({
+        where: { buyerId: params.id },
+        orderBy: [{ changedAt: 'desc' }, { id: 'desc' }],
+        take: TIMELINE_LIMIT,
+      }),
+    ]);
+
+    // History only stores the user id, so look up who made each change
+    const changers = await prisma.user.findMany({
+      where: { id: { in: [...new Set(history.map(change => change.changedBy))] } },
+      ...authorSelect,
+    });
+    const changersById = new Map(changers.map(changer => [changer.id, changer]));
+
+    return NextResponse.json({
+      timeline: mergeTimeline(
+        activities,
+        history.map(change => ({ ...change, author: changersById.get(change.changedBy) ?? null }))
+      ),
+    });
+  } catch (error) {
+    console.error('Error fetching activities:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch activities' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/buyers/[id]/activities - Log a call, message, visit or note (entries cannot be edited later)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const { occurredAt, ...activityData } = ActivitySchema.parse(body);
+
+    const buyer = await prisma.buyer.findUnique({
+      where: { id: params.id, deletedAt: null },
+      select: buyerAccessSelect
+    });
+
+    if (!buyer) {
+      return NextResponse.json(
+        { error: 'Buyer not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canAccessBuyer(user, 'edit', buyer)) {
+      return NextResponse.json(
+        { error: 'You can only log activity on leads you can edit' },
+        { status: 403 }
+      );
+    }
+
+    const activity = await prisma.activity.create({
+      data: {
+        ...activityData,
+        ...(occurredAt && { occurredAt: new Date(occurredAt) }),
+        buyerId: params.id,
+        authorId: user.id,
+      },
+      include: { author: authorSelect },
+    });
+
+    return NextResponse.json(activity, { status: 201 });
+  } catch (error) {
+    console.error('Error logging activity:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid activity data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to log activity' },
+      { status: 500 }
+    );
+  }
+}
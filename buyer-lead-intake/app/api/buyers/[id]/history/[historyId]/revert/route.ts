@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { updateBuyer } from '@/lib/buyers';
+import { planRevert } from '@/lib/history';
+import { buyerAccessSelect, canAccessBuyer } from '@/lib/permissions';
+import { RevertBuyerSchema } from '@/lib/validation';
+
+// GET /api/buyers/[id]/history/[historyId]/revert - Preview what restoring this version would change
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; historyId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const buyer = await prisma.buyer.findUnique({
+      where: { id: params.id, deletedAt: null },
+      select: buyerAccessSelect
+    });
+
+    if (!buyer) {
+      return NextResponse.json(
+        { error: 'Buyer not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canAccessBuyer(user, 'view', buyer)) {
+      return NextResponse.json(
+        { error: 'You do not have access to this buyer' },
+        { status: 403 }
+      );
+    }
+
+    const result = await planRevert(params.id, params.historyId);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { target, updatedAt, changes, blocked } = result.plan;
+    return NextResponse.json({
+      target,
+      updatedAt,
+      changes,
+      blocked,
+      canRevert: canAccessBuyer(user, 'edit', buyer),
+    });
+  } catch (error) {
+    console.error('Error previewing revert:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to preview revert' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/buyers/[id]/history/[historyId]/revert - Restore this version through the normal update path
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; historyId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const { updatedAt } = RevertBuyerSchema.parse(body);
+
+    const buyer = await prisma.buyer.findUnique({
+      where: { id: params.id, deletedAt: null },
+      select: buyerAccessSelect
+    });
+
+    if (!buyer) {
+      return NextResponse.json(
+        { error: 'Buyer not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canAccessBuyer(user, 'edit', buyer)) {
+      return NextResponse.json(
+        { error: 'You can only edit your own buyers' },
+        { status: 403 }
+      );
+    }
+
+    const planned = await planRevert(params.id, params.historyId);
+    if (!planned.success) {
+      return NextResponse.json(
+        { error: planned.error },
+        { status: planned.status }
+      );
+    }
+
+    const { plan } = planned;
+    if (!plan.update) {
+      return NextResponse.json(
+        { error: 'This version matches the current record' },
+        { status: 400 }
+      );
+    }
+    if (plan.blocked) {
+      return NextResponse.json(
+        { error: plan.blocked },
+        { status: 400 }
+      );
+    }
+
+    // updatedAt makes this fail with 409 if the buyer changed since the preview
+    const result = await updateBuyer(user, params.id, { ...plan.update, updatedAt }, {
+      action: 'reverted',
+      details: {
+        revertedTo: { id: plan.target.id, changedAt: plan.target.changedAt.toISOString() },
+      },
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(result.buyer);
+  } catch (error) {
+    console.error('Error reverting buyer:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid revert request' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to revert buyer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { buyerAccessSelect, canAccessBuyer } from '@/lib/permissions';
+import { fetchHistoryPage, fieldChanges } from '@/lib/history';
+import { parseLimit } from '@/lib/pagination';
+import { HistoryFiltersSchema } from '@/lib/validation';
+
+// GET /api/buyers/[id]/history - Paged audit history with before/after values, optionally filtered by action
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const { searchParams } = new URL(request.url);
+    const { action } = HistoryFiltersSchema.parse({ action: searchParams.getAll('action').join(',') });
+    const limit = parseLimit(searchParams.get('limit'));
+
+    const buyer = await prisma.buyer.findUnique({
+      where: { id: params.id, deletedAt: null },
+      select: buyerAccessSelect
+    });
+
+    if (!buyer) {
+      return NextResponse.json(
+        { error: 'Buyer not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canAccessBuyer(user, 'view', buyer)) {
+      return NextResponse.json(
+        { error: 'You do not have access to this buyer' },
+        { status: 403 }
+      );
+    }
+
+    const page = await fetchHistoryPage(params.id, action, limit, searchParams.get('cursor'));
+    const entries = page.entries.map(entry => ({ entry, changes: fieldChanges(entry.diff) }));
+
+    // Resolve who made each change, and owner ids in ownership changes, to names
+    const userIds = new Set<string>();
+    entries.forEach(({ entry, changes }) => {
+      userIds.add(entry.changedBy);
+      changes.filter(change => change.field === 'ownerId').forEach(change => {
+        [change.old, change.new].forEach(id => typeof id === 'string' && userIds.add(id));
+      });
+    });
+    const users = await prisma.user.findMany({
+      where: { id: { in: [...userIds] } },
+      select: { id: true, name: true, email: true }
+    });
+    const usersById = new Map(users.map(found => [found.id, found]));
+    const displayName = (id: unknown) => {
+      const found = typeof id === 'string' ? usersById.get(id) : undefined;
+      return found ? found.name || found.email : id;
+    };
+
+    return NextResponse.json({
+      history: entries.map(({ entry, changes }) => {
+        const diff = entry.diff as { action?: string; reason?: string; revertedTo?: { id: string; changedAt: string } };
+        return {
+          id: entry.id,
+          changedAt: entry.changedAt,
+          action: diff.action,
+          reason: diff.reason,
+          revertedTo: diff.revertedTo,
+          author: usersById.get(entry.changedBy) ?? null,
+          changes: changes.map(change => change.field === 'ownerId'
+            ? { ...change, old: displayName(change.old), new: displayName(change.new) }
+            : change
+          ),
+        };
+      }),
+      pagination: {
+        limit,
+        total: page.total,
+        nextCursor: page.nextCursor,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching history:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid history filters' },
+        { status: 400 }
+      );
+    }
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      return NextResponse.json(
+        { error: 'Invalid or expired page cursor' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch history' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { requireAuth } from '@/lib/auth';
-import { UpdateBuyerSchema } from '@/lib/validation';
+import { canAccessBuyer } from '@/lib/permissions';
+import { updateBuyer } from '@/lib/buyers';
+import { buyerTagsInclude, withTagNames } from '@/lib/tags';
+import { trashBuyer } from '@/lib/trash';
+import { STATUS_TRANSITIONS, UpdateBuyerSchema } from '@/lib/validation';
 
 // GET /api/buyers/[id] - Get buyer by ID
 export async function GET(
@@ -12,11 +16,12 @@ export async function GET(
     const user = await requireAuth(request);
     
     const buyer = await prisma.buyer.findUnique({
-      where: { id: params.id },
+      where: { id: params.id, deletedAt: null },
       include: {
         owner: {
-          select: { id: true, name: true, email: true }
+          select: { id: true, name: true, email: true, teamId: true }
         },
+        tags: buyerTagsInclude,
         history: {
           include: {
             buyer: {
@@ -36,7 +41,23 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(buyer);
+    if (!canAccessBuyer(user, 'view', buyer)) {
+      return NextResponse.json(
+        { error: 'You do not have access to this buyer' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      ...withTagNames(buyer),
+      // Statuses the detail page may offer as the next move
+      nextStatuses: STATUS_TRANSITIONS[buyer.status],
+      permissions: {
+        edit: canAccessBuyer(user, 'edit', buyer),
+        delete: canAccessBuyer(user, 'delete', buyer),
+        reassign: canAccessBuyer(user, 'reassign', buyer),
+      },
+    });
   } catch (error) {
     console.error('Error fetching buyer:', error);
     return NextResponse.json(
@@ -55,81 +76,16 @@ export async function PUT(
     const user = await requireAuth(request);
     
     const body = await request.json();
-    const { updatedAt, ...updateData } = UpdateBuyerSchema.parse(body);
-
-    // Check if buyer exists and user owns it
-    const existingBuyer = await prisma.buyer.findUnique({
-      where: { id: params.id },
-      select: { id: true, ownerId: true, updatedAt: true }
-    });
-
-    if (!existingBuyer) {
-      return NextResponse.json(
-        { error: 'Buyer not found' },
-        { status: 404 }
-      );
-    }
-
-    if (existingBuyer.ownerId !== user.id) {
-      return NextResponse.json(
-        { error: 'You can only edit your own buyers' },
-        { status: 403 }
-      );
-    }
+    const result = await updateBuyer(user, params.id, UpdateBuyerSchema.parse(body));
 
-    // Concurrency check
-    if (updatedAt && new Date(updatedAt).getTime() !== existingBuyer.updatedAt.getTime()) {
+    if (!result.success) {
       return NextResponse.json(
-        { error: 'Buyer has been modified by another user. Please refresh and try again.' },
-        { status: 409 }
+        { error: result.error },
+        { status: result.status }
       );
     }
 
-    // Get old data for history
-    const oldBuyer = await prisma.buyer.findUnique({
-      where: { id: params.id }
-    });
-
-    // Update buyer with history
-    const updatedBuyer = await prisma.$transaction(async (tx) => {
-      const buyer = await tx.buyer.update({
-        where: { id: params.id },
-        data: updateData,
-        include: {
-          owner: {
-            select: { id: true, name: true, email: true }
-          }
-        }
-      });
-
-      // Create history entry with diff
-      const diff: any = {};
-      Object.keys(updateData).forEach(key => {
-        if (oldBuyer && oldBuyer[key as keyof typeof oldBuyer] !== updateData[key as keyof typeof updateData]) {
-          diff[key] = {
-            old: oldBuyer[key as keyof typeof oldBuyer],
-            new: updateData[key as keyof typeof updateData]
-          };
-        }
-      });
-
-      if (Object.keys(diff).length > 0) {
-        await tx.buyerHistory.create({
-          data: {
-            buyerId: params.id,
-            changedBy: user.id,
-            diff: {
-              action: 'updated',
-              fields: diff,
-            },
-          },
-        });
-      }
-
-      return buyer;
-    });
-
-    return NextResponse.json(updatedBuyer);
+    return NextResponse.json(result.buyer);
   } catch (error) {
     console.error('Error updating buyer:', error);
     if (error instanceof Error && error.message.includes('validation')) {
@@ -145,7 +101,7 @@ export async function PUT(
   }
 }
 
-// DELETE /api/buyers/[id] - Delete buyer
+// DELETE /api/buyers/[id] - Move buyer to the trash
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -153,31 +109,16 @@ export async function DELETE(
   try {
     const user = await requireAuth(request);
     
-    // Check if buyer exists and user owns it
-    const existingBuyer = await prisma.buyer.findUnique({
-      where: { id: params.id },
-      select: { id: true, ownerId: true }
-    });
-
-    if (!existingBuyer) {
-      return NextResponse.json(
-        { error: 'Buyer not found' },
-        { status: 404 }
-      );
-    }
+    const result = await trashBuyer(user, params.id);
 
-    if (existingBuyer.ownerId !== user.id) {
+    if (!result.success) {
       return NextResponse.json(
-        { error: 'You can only delete your own buyers' },
-        { status: 403 }
+        { error: result.error },
+        { status: result.status }
       );
     }
 
-    await prisma.buyer.delete({
-      where: { id: params.id }
-    });
-
-    return NextResponse.json({ message: 'Buyer deleted successfully' });
+    return NextResponse.json({ message: 'Buyer moved to trash' });
   } catch (error) {
     console.error('Error deleting buyer:', error);
     return NextResponse.json(
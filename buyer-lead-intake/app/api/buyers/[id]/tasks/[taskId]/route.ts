@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { buyerAccessSelect, canAccessBuyer, canAccessTask, canAssignTask } from '@/lib/permissions';
+import { UpdateTaskSchema } from '@/lib/validation';
+
+// PUT /api/buyers/[id]/tasks/[taskId] - Reschedule, edit, reassign or complete a task
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; taskId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const { completed, dueAt, ...taskData } = UpdateTaskSchema.parse(body);
+
+    const task = await prisma.task.findFirst({
+      where: { id: params.taskId, buyerId: params.id, buyer: { deletedAt: null } },
+      include: { buyer: { select: buyerAccessSelect } }
+    });
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canAccessTask(user, 'edit', task)) {
+      return NextResponse.json(
+        { error: 'You can only change your own tasks or tasks on leads you can edit' },
+        { status: 403 }
+      );
+    }
+
+    if (taskData.assigneeId && taskData.assigneeId !== task.assigneeId) {
+      if (!canAccessBuyer(user, 'edit', task.buyer) || !canAssignTask(user, taskData.assigneeId, task.buyer)) {
+        return NextResponse.json(
+          { error: 'Only admins can assign tasks to someone other than the lead owner' },
+          { status: 403 }
+        );
+      }
+
+      const assignee = await prisma.user.findUnique({
+        where: { id: taskData.assigneeId },
+        select: { id: true }
+      });
+      if (!assignee) {
+        return NextResponse.json(
+          { error: 'Assignee not found' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updatedTask = await prisma.task.update({
+      where: { id: task.id },
+      data: {
+        ...taskData,
+        ...(dueAt && { dueAt: new Date(dueAt) }),
+        // Completing an already completed task keeps the original completion time
+        ...(completed !== undefined && { completedAt: completed ? task.completedAt ?? new Date() : null }),
+      },
+      include: {
+        assignee: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+    });
+
+    return NextResponse.json({
+      ...updatedTask,
+      permissions: {
+        edit: canAccessTask(user, 'edit', { ...updatedTask, buyer: task.buyer }),
+        delete: canAccessTask(user, 'delete', { ...updatedTask, buyer: task.buyer }),
+      },
+    });
+  } catch (error) {
+    console.error('Error updating task:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid task data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to update task' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/buyers/[id]/tasks/[taskId] - Delete a task (lead editors only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; taskId: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const task = await prisma.task.findFirst({
+      where: { id: params.taskId, buyerId: params.id, buyer: { deletedAt: null } },
+      include: { buyer: { select: buyerAccessSelect } }
+    });
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Task not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canAccessTask(user, 'delete', task)) {
+      return NextResponse.json(
+        { error: 'You can only delete tasks on leads you can edit' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.task.delete({
+      where: { id: task.id }
+    });
+
+    return NextResponse.json({ message: 'Task deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting task:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to delete task' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { buyerAccessSelect, canAccessBuyer, canAccessTask, canAssignTask } from '@/lib/permissions';
+import { TaskSchema } from '@/lib/validation';
+
+const assigneeSelect = {
+  select: { id: true, name: true, email: true }
+} as const;
+
+// GET /api/buyers/[id]/tasks - List a buyer's tasks, open and completed, by due date
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const buyer = await prisma.buyer.findUnique({
+      where: { id: params.id, deletedAt: null },
+      select: buyerAccessSelect
+    });
+
+    if (!buyer) {
+      return NextResponse.json(
+        { error: 'Buyer not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canAccessBuyer(user, 'view', buyer)) {
+      return NextResponse.json(
+        { error: 'You do not have access to this buyer' },
+        { status: 403 }
+      );
+    }
+
+    const tasks = await prisma.task.findMany({
+      where: { buyerId: params.id },
+      include: { assignee: assigneeSelect },
+      orderBy: [{ dueAt: 'asc' }, { id: 'asc' }],
+    });
+
+    return NextResponse.json({
+      tasks: tasks.map(task => ({
+        ...task,
+        permissions: {
+          edit: canAccessTask(user, 'edit', { ...task, buyer }),
+          delete: canAccessTask(user, 'delete', { ...task, buyer }),
+        },
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching tasks:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch tasks' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/buyers/[id]/tasks - Schedule a follow-up task (assigned to the lead's owner by default)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const { assigneeId: requestedAssigneeId, dueAt, ...taskData } = TaskSchema.parse(body);
+
+    const buyer = await prisma.buyer.findUnique({
+      where: { id: params.id, deletedAt: null },
+      select: buyerAccessSelect
+    });
+
+    if (!buyer) {
+      return NextResponse.json(
+        { error: 'Buyer not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canAccessBuyer(user, 'edit', buyer)) {
+      return NextResponse.json(
+        { error: 'You can only add tasks to leads you can edit' },
+        { status: 403 }
+      );
+    }
+
+    const assigneeId = requestedAssigneeId ?? buyer.ownerId;
+    if (!canAssignTask(user, assigneeId, buyer)) {
+      return NextResponse.json(
+        { error: 'Only admins can assign tasks to someone other than the lead owner' },
+        { status: 403 }
+      );
+    }
+
+    const assignee = await prisma.user.findUnique({
+      where: { id: assigneeId },
+      select: { id: true }
+    });
+    if (!assignee) {
+      return NextResponse.json(
+        { error: 'Assignee not found' },
+        { status: 400 }
+      );
+    }
+
+    const task = await prisma.task.create({
+      data: {
+        ...taskData,
+        dueAt: new Date(dueAt),
+        buyerId: params.id,
+        assigneeId,
+        createdBy: user.id,
+      },
+      include: { assignee: assigneeSelect },
+    });
+
+    return NextResponse.json({
+      ...task,
+      permissions: { edit: true, delete: true },
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating task:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid task data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to create task' },
+      { status: 500 }
+    );
+  }
+}
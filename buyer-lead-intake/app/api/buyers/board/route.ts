@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { canAccessBuyer } from '@/lib/permissions';
+import { buildBuyerQuery, parseBuyerFilters } from '@/lib/filters';
+import { BOARD_COLUMN_LIMIT, columnTotals } from '@/lib/board';
+import { buyerTagsInclude, withTagNames } from '@/lib/tags';
+import { STATUS_TRANSITIONS, StatusSchema } from '@/lib/validation';
+
+// GET /api/buyers/board - Leads grouped into one column per status, with the list's filters
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const { searchParams } = new URL(request.url);
+    const filters = parseBuyerFilters(searchParams);
+    const { where } = await buildBuyerQuery(filters, user);
+
+    // A status filter limits the board to those columns
+    const statuses = StatusSchema.options.filter(
+      status => filters.status.length === 0 || filters.status.includes(status)
+    );
+
+    const [budgetRows, columnBuyers] = await Promise.all([
+      prisma.buyer.findMany({
+        where,
+        select: { status: true, budgetMin: true, budgetMax: true },
+      }),
+      Promise.all(statuses.map(status =>
+        prisma.buyer.findMany({
+          where: { AND: [where, { status }] },
+          include: {
+            owner: {
+              select: { id: true, name: true, email: true, teamId: true }
+            },
+            tags: buyerTagsInclude,
+          },
+          orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+          take: BOARD_COLUMN_LIMIT,
+        })
+      )),
+    ]);
+
+    const totals = columnTotals(budgetRows);
+
+    return NextResponse.json({
+      columns: statuses.map((status, index) => ({
+        status,
+        ...totals[status],
+        nextStatuses: STATUS_TRANSITIONS[status],
+        buyers: columnBuyers[index].map(buyer => ({
+          ...withTagNames(buyer),
+          editable: canAccessBuyer(user, 'edit', buyer),
+        })),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching board:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid filters' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch board' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { exportSelection, runBulkChange, type BulkResult } from '@/lib/bulk';
+import { exportFilename } from '@/lib/export';
+import { reassignBuyers } from '@/lib/reassignment';
+import { BulkActionSchema, type BulkAction } from '@/lib/validation';
+
+const SUMMARY_VERBS: Record<BulkAction['action'], string> = {
+  status: 'Updated',
+  addTags: 'Tagged',
+  removeTags: 'Untagged',
+  reassign: 'Reassigned',
+  delete: 'Trashed',
+  export: 'Exported',
+};
+
+// POST /api/buyers/bulk - Change status, add or remove tags, reassign, trash or export selected buyers
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const data = BulkActionSchema.parse(body);
+
+    let results: BulkResult[];
+    let csv: string | undefined;
+
+    if (data.action === 'export') {
+      ({ results, csv } = await exportSelection(user, data.buyerIds));
+    } else if (data.action === 'reassign') {
+      const newOwner = await prisma.user.findUnique({
+        where: { id: data.ownerId },
+        select: { id: true }
+      });
+
+      if (!newOwner) {
+        return NextResponse.json(
+          { error: 'Owner not found' },
+          { status: 400 }
+        );
+      }
+
+      results = await reassignBuyers(user, data.buyerIds, data.ownerId, data.reason || undefined);
+    } else {
+      results = await runBulkChange(user, data);
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+
+    return NextResponse.json({
+      message: `${SUMMARY_VERBS[data.action]} ${succeeded} of ${results.length} buyers`,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+      ...(csv !== undefined && { csv, filename: exportFilename() }),
+    }, { status: succeeded > 0 ? 200 : 400 });
+  } catch (error) {
+    console.error('Error running bulk action:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid bulk action' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to run bulk action' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { buyerScope } from '@/lib/permissions';
+import { findDuplicateGroups, findDuplicates, summarizeDuplicate } from '@/lib/duplicates';
+import { DuplicateCheckSchema } from '@/lib/validation';
+
+// GET /api/buyers/duplicates - Scan the buyers the user can see for duplicate groups
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const groups = await findDuplicateGroups({ ...buyerScope(user), deletedAt: null });
+
+    return NextResponse.json({ groups });
+  } catch (error) {
+    console.error('Error scanning for duplicates:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to scan for duplicates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/buyers/duplicates - Check a lead's name, phone and email against existing buyers
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const { excludeId, ...candidate } = DuplicateCheckSchema.parse(body);
+
+    // Every buyer is checked, including ones owned by other agents
+    const matches = await findDuplicates(candidate, excludeId);
+
+    return NextResponse.json({
+      duplicates: matches.map(match => summarizeDuplicate(user, match)),
+    });
+  } catch (error) {
+    console.error('Error checking for duplicates:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid duplicate check' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to check for duplicates' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,86 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/db';
+import { ZodError } from 'zod';
 import { requireAuth } from '@/lib/auth';
-import { stringify } from 'csv-stringify';
+import { buildBuyerQuery, parseBuyerFilters } from '@/lib/filters';
+import { findBuyersInOrder, parseSort } from '@/lib/pagination';
+import { buyersToCsv, buyersToXlsx, exportBuyerInclude, exportFilename } from '@/lib/export';
+import { XLSX_MIME_TYPE } from '@/lib/import-mapping';
+import { ExportFormatSchema } from '@/lib/validation';
 
+// GET /api/buyers/export - Download the filtered buyers as CSV, or as Excel with format=xlsx
 export async function GET(request: NextRequest) {
   try {
     const user = await requireAuth(request);
     
     const { searchParams } = new URL(request.url);
-    const search = searchParams.get('search') || '';
-    const city = searchParams.get('city') || '';
-    const propertyType = searchParams.get('propertyType') || '';
-    const status = searchParams.get('status') || '';
-    const timeline = searchParams.get('timeline') || '';
+    const filters = parseBuyerFilters(searchParams);
+    const order = parseSort(searchParams.get('sort'));
+    const format = ExportFormatSchema.parse(searchParams.get('format') ?? undefined);
     
-    // Build where clause (same as list endpoint)
-    const where: any = {};
-    
-    if (search) {
-      where.OR = [
-        { fullName: { contains: search, mode: 'insensitive' } },
-        { email: { contains: search, mode: 'insensitive' } },
-        { phone: { contains: search, mode: 'insensitive' } },
-      ];
-    }
-    
-    if (city) where.city = city;
-    if (propertyType) where.propertyType = propertyType;
-    if (status) where.status = status;
-    if (timeline) where.timeline = timeline;
-
-    const buyers = await prisma.buyer.findMany({
-      where,
-      include: {
-        owner: {
-          select: { name: true, email: true }
-        }
-      },
-      orderBy: { updatedAt: 'desc' },
-    });
+    // Same scope and filters as the list endpoint
+    const { where } = await buildBuyerQuery(filters, user);
 
-    // Convert to CSV format
-    const csvData = buyers.map(buyer => ({
-      fullName: buyer.fullName,
-      email: buyer.email || '',
-      phone: buyer.phone,
-      city: buyer.city,
-      propertyType: buyer.propertyType,
-      bhk: buyer.bhk || '',
-      purpose: buyer.purpose,
-      budgetMin: buyer.budgetMin || '',
-      budgetMax: buyer.budgetMax || '',
-      timeline: buyer.timeline,
-      source: buyer.source,
-      status: buyer.status,
-      notes: buyer.notes || '',
-      tags: buyer.tags.join(','),
-      owner: buyer.owner.name || buyer.owner.email,
-      createdAt: buyer.createdAt.toISOString(),
-      updatedAt: buyer.updatedAt.toISOString(),
-    }));
+    const buyers = await findBuyersInOrder(where, order, exportBuyerInclude);
 
-    // Generate CSV
-    const csv = await new Promise<string>((resolve, reject) => {
-      stringify(csvData, { header: true }, (err, output) => {
-        if (err) reject(err);
-        else resolve(output);
-      });
-    });
+    const body = format === 'xlsx' ? new Uint8Array(await buyersToXlsx(buyers)) : await buyersToCsv(buyers);
 
-    // Return CSV file
-    const response = new NextResponse(csv, {
+    // Return the file
+    const response = new NextResponse(body, {
       status: 200,
       headers: {
-        'Content-Type': 'text/csv',
-        'Content-Disposition': `attachment; filename="buyers-${new Date().toISOString().split('T')[0]}.csv"`,
+        'Content-Type': format === 'xlsx' ? XLSX_MIME_TYPE : 'text/csv',
+        'Content-Disposition': `attachment; filename="${exportFilename(new Date(), format)}"`,
       },
     });
 
     return response;
   } catch (error) {
     console.error('Error exporting buyers:', error);
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid filters' },
+        { status: 400 }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to export buyers' },
       { status: 500 }
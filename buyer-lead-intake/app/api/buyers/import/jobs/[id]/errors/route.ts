@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { importErrorsToCsv } from '@/lib/import-jobs';
+
+// GET /api/buyers/import/jobs/[id]/errors - Download the rows a background import could not save, as CSV
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const job = await prisma.importJob.findUnique({
+      where: { id: params.id },
+      select: { id: true, ownerId: true }
+    });
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Import not found' },
+        { status: 404 }
+      );
+    }
+
+    if (job.ownerId !== user.id) {
+      return NextResponse.json(
+        { error: 'You can only view your own imports' },
+        { status: 403 }
+      );
+    }
+
+    const errors = await prisma.importJobError.findMany({
+      where: { jobId: job.id },
+      select: { row: true, values: true, errors: true },
+      orderBy: { row: 'asc' },
+    });
+
+    const csv = await importErrorsToCsv(errors);
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="import-errors-${job.id}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting import errors:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to export import errors' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { importJobSelect } from '@/lib/import-jobs';
+
+// GET /api/buyers/import/jobs/[id] - Progress and counts of a background import (owner only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const job = await prisma.importJob.findUnique({
+      where: { id: params.id },
+      select: { ...importJobSelect, ownerId: true }
+    });
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Import not found' },
+        { status: 404 }
+      );
+    }
+
+    if (job.ownerId !== user.id) {
+      return NextResponse.json(
+        { error: 'You can only view your own imports' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('Error fetching import job:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch import job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { createImportJob, importJobSelect, startImportJob } from '@/lib/import-jobs';
+import { MAX_IMPORT_BYTES, importFileType, mappingErrors } from '@/lib/import-mapping';
+import { FILE_TOO_LARGE, readMultipart } from '@/lib/multipart';
+import { ImportMappingSchema, ImportModeSchema } from '@/lib/validation';
+
+// GET /api/buyers/import/jobs - The user's recent background imports, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const jobs = await prisma.importJob.findMany({
+      where: { ownerId: user.id },
+      select: importJobSelect,
+      orderBy: { createdAt: 'desc' },
+      take: 10,
+    });
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('Error fetching import jobs:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch import jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/buyers/import/jobs - Upload a CSV or Excel file (`file`, with `sheet`) with its column `mapping` and import `mode`,
+// and import it in the background. The fields must come before the file, which is streamed to disk as it arrives.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const response = await readMultipart(request, MAX_IMPORT_BYTES, async (file, fields) => {
+      if (file.field !== 'file') {
+        return NextResponse.json(
+          { error: 'No file provided' },
+          { status: 400 }
+        );
+      }
+
+      const fileType = importFileType({ name: file.fileName, type: file.mimeType });
+      if (!fileType) {
+        return NextResponse.json(
+          { error: 'File must be a CSV or Excel (.xlsx) file' },
+          { status: 400 }
+        );
+      }
+
+      let mappingJson: unknown;
+      try {
+        mappingJson = JSON.parse(fields.mapping ?? '{}');
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid column mapping' },
+          { status: 400 }
+        );
+      }
+      const mapping = ImportMappingSchema.parse(mappingJson);
+      const mode = ImportModeSchema.parse(fields.mode ?? 'CREATE');
+
+      const errors = mappingErrors(mapping);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: errors[0] },
+          { status: 400 }
+        );
+      }
+
+      const result = await createImportJob(user, {
+        fileName: file.fileName,
+        fileType,
+        content: file.content,
+        sheet: fields.sheet || undefined,
+      }, mapping, mode);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+
+      startImportJob(result.job.id);
+
+      return NextResponse.json(result.job, { status: 202 });
+    });
+
+    return response ?? NextResponse.json(
+      { error: 'No file provided' },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error('Error starting import job:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid column mapping' },
+        { status: 400 }
+      );
+    }
+    if (error instanceof Error && error.message === FILE_TOO_LARGE) {
+      return NextResponse.json(
+        { error: 'File size must be less than 50MB' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to start import' },
+      { status: 500 }
+    );
+  }
+}
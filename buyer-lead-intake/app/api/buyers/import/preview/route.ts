@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { detectBuyerCsvVersion } from '@/lib/csv-format';
+import { readImportFile } from '@/lib/import-file';
+import { MAX_IMPORT_BYTES, importFileType, suggestMapping } from '@/lib/import-mapping';
+import { MAX_IMPORT_ROWS } from '@/lib/validation';
+
+// POST /api/buyers/import/preview - Read an uploaded CSV or Excel file's columns and first rows and suggest a
+// column mapping; formatVersion is set when the file is one of our own exports. Excel files are read from
+// `sheet`, or their first sheet, and list their `sheets`.
+export async function POST(request: NextRequest) {
+  try {
+    await requireAuth(request);
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    const fileType = importFileType(file);
+    if (!fileType) {
+      return NextResponse.json(
+        { error: 'File must be a CSV or Excel (.xlsx) file' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      return NextResponse.json(
+        { error: 'File size must be less than 50MB' },
+        { status: 400 }
+      );
+    }
+
+    // Only the first rows are sent back; larger files are imported as a background job
+    const result = await readImportFile(
+      Buffer.from(await file.arrayBuffer()),
+      fileType,
+      String(formData.get('sheet') ?? '') || undefined,
+      MAX_IMPORT_ROWS
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    const { headers, rows, totalRows, sheets, sheet } = result;
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: sheet ? `The sheet "${sheet}" has no rows to import` : 'The file has no rows to import', sheets },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      headers,
+      rows,
+      totalRows,
+      suggestedMapping: suggestMapping(headers),
+      formatVersion: detectBuyerCsvVersion(headers, rows[0]),
+      sheets,
+      sheet,
+    });
+  } catch (error) {
+    console.error('Error reading import file:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to read import file' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,142 +1,69 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/db';
+import { ZodError } from 'zod';
 import { requireAuth } from '@/lib/auth';
-import { validateCSVRow } from '@/lib/validation';
-import csv from 'csv-parser';
-import { Readable } from 'stream';
+import { checkImportRows, commitImportRows } from '@/lib/import';
+import { ImportRowsSchema } from '@/lib/validation';
 
+// POST /api/buyers/import - Import mapped rows; with skipInvalid, only the valid rows are saved.
+// In UPSERT mode, rows matching an existing lead update it instead.
 export async function POST(request: NextRequest) {
   try {
     const user = await requireAuth(request);
-    
-    const formData = await request.formData();
-    const file = formData.get('file') as File;
-    
-    if (!file) {
-      return NextResponse.json(
-        { error: 'No file provided' },
-        { status: 400 }
-      );
-    }
 
-    if (file.type !== 'text/csv' && !file.name.endsWith('.csv')) {
-      return NextResponse.json(
-        { error: 'File must be a CSV' },
-        { status: 400 }
-      );
-    }
+    const body = await request.json();
+    const { rows, skipInvalid, fileName, mode } = ImportRowsSchema.parse(body);
 
-    // Check file size (max 5MB)
-    if (file.size > 5 * 1024 * 1024) {
-      return NextResponse.json(
-        { error: 'File size must be less than 5MB' },
-        { status: 400 }
-      );
-    }
-
-    const buffer = await file.arrayBuffer();
-    const csvContent = Buffer.from(buffer).toString('utf-8');
-    
-    // Parse CSV
-    const rows: any[] = [];
-    const stream = Readable.from([csvContent]);
-    
-    await new Promise((resolve, reject) => {
-      stream
-        .pipe(csv({ 
-          headers: true,
-          skipEmptyLines: true,
-          skipLinesWithError: true
-        }))
-        .on('data', (row) => {
-          // Only add rows that have actual data (not just headers)
-          if (row.fullName && row.fullName !== 'fullName') {
-            rows.push(row);
-          }
-        })
-        .on('end', resolve)
-        .on('error', reject);
-    });
+    const { results, validRows, updateRows } = await checkImportRows(user, rows, mode);
+    const invalidRows = results.filter(result => !result.valid);
 
-    // Check row limit
-    if (rows.length > 200) {
-      return NextResponse.json(
-        { error: 'Maximum 200 rows allowed per import' },
-        { status: 400 }
-      );
-    }
-
-    // Validate each row
-    const validationResults = rows.map((row, index) => validateCSVRow(row, index));
-    const validRows = validationResults.filter(result => result.success);
-    const invalidRows = validationResults.filter(result => !result.success);
-
-    // Debug: Log first few rows and validation results
-    console.log('Total rows parsed:', rows.length);
-    console.log('First row:', rows[0]);
-    console.log('First validation result:', validationResults[0]);
-    if (validationResults[0] && !validationResults[0].success) {
-      console.log('Validation error details:', validationResults[0].error);
+    if (invalidRows.length > 0 && !skipInvalid) {
+      return NextResponse.json({
+        error: `${invalidRows.length} of ${rows.length} rows have errors`,
+        rows: results,
+      }, { status: 400 });
     }
 
-    // If there are validation errors, return them
-    if (invalidRows.length > 0) {
+    if (validRows.length === 0 && updateRows.length === 0) {
       return NextResponse.json({
-        success: false,
-        errors: invalidRows.map(result => result.error),
-        validCount: validRows.length,
-        invalidCount: invalidRows.length,
-        debug: {
-          firstRow: rows[0],
-          firstValidation: validationResults[0]
-        }
+        error: invalidRows.length === rows.length ? 'No valid rows to import' : 'No new or changed rows to import',
+        rows: results,
       }, { status: 400 });
     }
 
-    // Insert valid rows in transaction
-    const createdBuyers = await prisma.$transaction(async (tx) => {
-      const buyers = [];
-      
-      for (const result of validRows) {
-        if (result.success) {
-          const buyer = await tx.buyer.create({
-            data: {
-              ...result.data,
-              ownerId: user.id,
-            },
-            include: {
-              owner: {
-                select: { id: true, name: true, email: true }
-              }
-            }
-          });
-
-          // Create history entry
-          await tx.buyerHistory.create({
-            data: {
-              buyerId: buyer.id,
-              changedBy: user.id,
-              diff: {
-                action: 'imported',
-                fields: result.data,
-              },
-            },
-          });
-
-          buyers.push(buyer);
-        }
-      }
-      
-      return buyers;
-    });
+    const { batchId, created, updated, failed } = await commitImportRows(
+      user,
+      { fileName, totalRows: rows.length },
+      validRows,
+      updateRows
+    );
 
     return NextResponse.json({
       success: true,
-      message: `Successfully imported ${createdBuyers.length} buyers`,
-      count: createdBuyers.length,
+      message: mode === 'UPSERT'
+        ? `Imported ${created.length} new buyers and updated ${updated.length}`
+        : `Successfully imported ${created.length} buyers`,
+      count: created.length,
+      batchId,
+      created,
+      updated,
+      failed,
+      skipped: invalidRows,
+      rows: results,
     });
   } catch (error) {
     console.error('Error importing buyers:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid import data' },
+        { status: 400 }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to import buyers' },
       { status: 500 }
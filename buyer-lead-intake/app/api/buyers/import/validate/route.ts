@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { checkImportRows } from '@/lib/import';
+import { ImportRowsSchema } from '@/lib/validation';
+
+// POST /api/buyers/import/validate - Check mapped rows without saving anything
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const { rows, mode } = ImportRowsSchema.parse(body);
+
+    const { results, validRows, updateRows } = await checkImportRows(user, rows, mode);
+    const validCount = results.filter(result => result.valid).length;
+
+    return NextResponse.json({
+      rows: results,
+      validCount,
+      invalidCount: results.length - validCount,
+      createCount: validRows.length,
+      updateCount: updateRows.length,
+    });
+  } catch (error) {
+    console.error('Error validating import:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid import data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to validate import' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { rollbackImportBatch } from '@/lib/import-batches';
+
+// POST /api/buyers/imports/[id]/rollback - Move an import's unchanged leads to the trash and revert its updates
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const result = await rollbackImportBatch(user, params.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { removed, kept, reverted, notReverted } = result;
+    const parts = [
+      `Moved ${removed} buyers to the trash`,
+      ...(kept > 0 ? [`${kept} changed since the import were kept`] : []),
+      ...(reverted > 0 ? [`reverted ${reverted} updated buyers`] : []),
+      ...(notReverted > 0 ? [`${notReverted} updated buyers changed since the import or could not be restored and were not reverted`] : []),
+    ];
+
+    return NextResponse.json({
+      message: parts.join('; '),
+      removed,
+      kept,
+      reverted,
+      notReverted,
+    });
+  } catch (error) {
+    console.error('Error rolling back import:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to roll back import' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { importBatchSelect } from '@/lib/import-batches';
+import { canRollbackImport, importBatchScope } from '@/lib/permissions';
+
+// GET /api/buyers/imports - Import history, newest first, with who ran each import and its row counts
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const batches = await prisma.importBatch.findMany({
+      where: importBatchScope(user),
+      select: importBatchSelect,
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    return NextResponse.json({
+      batches: batches.map(batch => ({
+        ...batch,
+        canRollback: canRollbackImport(user, batch) &&
+          !batch.rolledBackAt &&
+          batch.job?.status !== 'QUEUED' &&
+          batch.job?.status !== 'RUNNING',
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching imports:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch imports' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { canAccessBuyer } from '@/lib/permissions';
+import { resolveMergedFields } from '@/lib/duplicates';
+import { buyerTagsInclude, replaceTags, withTagNames } from '@/lib/tags';
+import { moveToTrash } from '@/lib/trash';
+import { BuyerSchema, MERGE_FIELDS, MergeBuyersSchema, statusTransitionError } from '@/lib/validation';
+
+// POST /api/buyers/merge - Merge a duplicate buyer into the record that is kept
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const { survivorId, duplicateId, fields, survivorUpdatedAt, duplicateUpdatedAt } = MergeBuyersSchema.parse(body);
+
+    const include = {
+      owner: {
+        select: { teamId: true }
+      },
+      tags: buyerTagsInclude,
+    };
+    const [survivor, duplicate] = await Promise.all([
+      prisma.buyer.findUnique({ where: { id: survivorId, deletedAt: null }, include }),
+      prisma.buyer.findUnique({ where: { id: duplicateId, deletedAt: null }, include }),
+    ]);
+
+    if (!survivor || !duplicate) {
+      return NextResponse.json(
+        { error: 'Buyer not found' },
+        { status: 404 }
+      );
+    }
+
+    // Merging edits the kept record and moves the other one to the trash
+    if (!canAccessBuyer(user, 'edit', survivor) || !canAccessBuyer(user, 'delete', duplicate)) {
+      return NextResponse.json(
+        { error: 'You can only merge buyers you can edit and delete' },
+        { status: 403 }
+      );
+    }
+
+    // Concurrency check on both records
+    if (
+      (survivorUpdatedAt && new Date(survivorUpdatedAt).getTime() !== survivor.updatedAt.getTime()) ||
+      (duplicateUpdatedAt && new Date(duplicateUpdatedAt).getTime() !== duplicate.updatedAt.getTime())
+    ) {
+      return NextResponse.json(
+        { error: 'One of the buyers has been modified by another user. Please refresh and try again.' },
+        { status: 409 }
+      );
+    }
+
+    const merged = resolveMergedFields(survivor, duplicate, fields);
+
+    // Mixing fields from two records can break cross-field rules (e.g. BHK for apartments)
+    const check = BuyerSchema.safeParse(
+      Object.fromEntries(Object.entries(merged).map(([key, value]) => [key, value ?? undefined]))
+    );
+    if (!check.success) {
+      return NextResponse.json(
+        { error: check.error.issues[0]?.message || 'Merged buyer is invalid' },
+        { status: 400 }
+      );
+    }
+
+    // The drop reason follows the chosen status; the latest visit from either record is kept
+    const statusSource = merged.status === survivor.status ? survivor : duplicate;
+    const visits = [survivor.visitedAt, duplicate.visitedAt].filter((date): date is Date => date !== null);
+    const statusData = {
+      dropReason: merged.status === 'DROPPED' ? statusSource.dropReason : null,
+      visitedAt: visits.length > 0 ? new Date(Math.max(...visits.map(date => date.getTime()))) : null,
+    };
+
+    // Taking the duplicate's status moves the kept record through the pipeline like an edit
+    const transitionError = statusTransitionError(survivor.status, merged.status, {
+      dropReason: statusData.dropReason ?? undefined,
+      visitDate: statusData.visitedAt?.toISOString(),
+    });
+    if (transitionError) {
+      return NextResponse.json(
+        { error: `Cannot take the other record's status: ${transitionError}` },
+        { status: 400 }
+      );
+    }
+
+    // Tags from both records are kept
+    const survivorTags = withTagNames(survivor).tags;
+    const tags = [...new Set([...survivorTags, ...withTagNames(duplicate).tags])].sort();
+
+    const diff: Record<string, { old: Prisma.JsonValue; new: Prisma.JsonValue }> = {};
+    MERGE_FIELDS.forEach(key => {
+      if (survivor[key] !== merged[key]) {
+        diff[key] = { old: survivor[key], new: merged[key] };
+      }
+    });
+    if (tags.join(',') !== survivorTags.join(',')) {
+      diff.tags = { old: survivorTags, new: tags };
+    }
+
+    const mergedBuyer = await prisma.$transaction(async (tx) => {
+      const buyer = await tx.buyer.update({
+        where: { id: survivorId },
+        data: {
+          ...merged,
+          ...statusData,
+          tags: replaceTags(tags),
+        },
+        include: {
+          owner: {
+            select: { id: true, name: true, email: true }
+          },
+          tags: buyerTagsInclude,
+        }
+      });
+
+      // The duplicate's history, tasks and activity log move over before it is trashed
+      await tx.buyerHistory.updateMany({
+        where: { buyerId: duplicateId },
+        data: { buyerId: survivorId },
+      });
+      await tx.task.updateMany({
+        where: { buyerId: duplicateId },
+        data: { buyerId: survivorId },
+      });
+      await tx.activity.updateMany({
+        where: { buyerId: duplicateId },
+        data: { buyerId: survivorId },
+      });
+
+      // Trashed like any deleted lead, until it is purged; it cannot be restored, since
+      // everything it held now belongs to the survivor
+      await moveToTrash(tx, user.id, duplicateId, { mergedInto: survivorId });
+
+      await tx.buyerHistory.create({
+        data: {
+          buyerId: survivorId,
+          changedBy: user.id,
+          diff: {
+            action: 'merged',
+            fields: diff,
+            mergedFrom: {
+              id: duplicate.id,
+              ownerId: duplicate.ownerId,
+              createdAt: duplicate.createdAt.toISOString(),
+              ...Object.fromEntries(MERGE_FIELDS.map(key => [key, duplicate[key]])),
+              tags: withTagNames(duplicate).tags,
+            },
+          },
+        },
+      });
+
+      return buyer;
+    });
+
+    return NextResponse.json(withTagNames(mergedBuyer));
+  } catch (error) {
+    console.error('Error merging buyers:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid merge request' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to merge buyers' },
+      { status: 500 }
+    );
+  }
+}
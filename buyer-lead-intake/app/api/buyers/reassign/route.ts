@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { reassignBuyers } from '@/lib/reassignment';
+import { ReassignBuyersSchema } from '@/lib/validation';
+
+// POST /api/buyers/reassign - Transfer one or more buyers to another user
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const { buyerIds, ownerId, reason } = ReassignBuyersSchema.parse(body);
+
+    const newOwner = await prisma.user.findUnique({
+      where: { id: ownerId },
+      select: { id: true }
+    });
+
+    if (!newOwner) {
+      return NextResponse.json(
+        { error: 'Owner not found' },
+        { status: 400 }
+      );
+    }
+
+    const results = await reassignBuyers(user, buyerIds, ownerId, reason || undefined);
+    const reassigned = results.filter(result => result.success).length;
+
+    return NextResponse.json({
+      message: `Reassigned ${reassigned} of ${results.length} buyers`,
+      reassigned,
+      failed: results.length - reassigned,
+      results,
+    }, { status: reassigned > 0 ? 200 : 400 });
+  } catch (error) {
+    console.error('Error reassigning buyers:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid request data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to reassign buyers' },
+      { status: 500 }
+    );
+  }
+}
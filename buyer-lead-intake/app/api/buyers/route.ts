@@ -1,66 +1,69 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
 import { prisma } from '@/lib/db';
 import { requireAuth } from '@/lib/auth';
+import { assignOwner, loadAssignmentContext, type AssignmentDecision } from '@/lib/assignment';
+import { canAccessBuyer, canAssignOwner } from '@/lib/permissions';
+import { findDuplicates, summarizeDuplicate } from '@/lib/duplicates';
+import { buildBuyerQuery, parseBuyerFilters } from '@/lib/filters';
+import { decodeCursor, fetchRankedPage, fetchSortedPage, parseLimit, parseSort } from '@/lib/pagination';
+import { buyerTagsInclude, connectTags, withTagNames } from '@/lib/tags';
 import { CreateBuyerSchema } from '@/lib/validation';
 
-// GET /api/buyers - List buyers with pagination and filters
+// GET /api/buyers - List buyers with filters, sorting and cursor pagination
 export async function GET(request: NextRequest) {
   try {
     const user = await requireAuth(request);
     
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '10');
-    const search = searchParams.get('search') || '';
-    const city = searchParams.get('city') || '';
-    const propertyType = searchParams.get('propertyType') || '';
-    const status = searchParams.get('status') || '';
-    const timeline = searchParams.get('timeline') || '';
-    
-    const skip = (page - 1) * limit;
+    const filters = parseBuyerFilters(searchParams);
+    const limit = parseLimit(searchParams.get('limit'));
+    const cursor = decodeCursor(searchParams.get('cursor'));
+    const sortParam = searchParams.get('sort');
+    const order = parseSort(sortParam);
 
-    // Build where clause
-    const where: any = {};
-    
-    if (search) {
-      where.OR = [
-        { fullName: { contains: search, mode: 'insensitive' } },
-        { email: { contains: search, mode: 'insensitive' } },
-        { phone: { contains: search, mode: 'insensitive' } },
-      ];
-    }
-    
-    if (city) where.city = city;
-    if (propertyType) where.propertyType = propertyType;
-    if (status) where.status = status;
-    if (timeline) where.timeline = timeline;
+    // Scope, filters and full-text search (ids ranked by relevance)
+    const { where, rankedIds } = await buildBuyerQuery(filters, user);
 
-    const [buyers, total] = await Promise.all([
-      prisma.buyer.findMany({
-        where,
-        include: {
-          owner: {
-            select: { id: true, name: true, email: true }
-          }
-        },
-        orderBy: { updatedAt: 'desc' },
-        skip,
-        take: limit,
-      }),
+    const include = {
+      owner: {
+        select: { id: true, name: true, email: true }
+      },
+      tags: buyerTagsInclude,
+    };
+
+    // Searches are ordered by relevance unless a sort is requested explicitly
+    const [page, total] = await Promise.all([
+      rankedIds && !sortParam
+        ? fetchRankedPage(where, rankedIds, limit, cursor, include)
+        : fetchSortedPage(where, order, limit, cursor, include),
       prisma.buyer.count({ where }),
     ]);
 
     return NextResponse.json({
-      buyers,
+      buyers: page.buyers.map(withTagNames),
       pagination: {
-        page,
         limit,
         total,
-        pages: Math.ceil(total / limit),
+        sort: rankedIds && !sortParam ? 'relevance' : order.sort,
+        nextCursor: page.nextCursor,
+        prevCursor: page.prevCursor,
       },
     });
   } catch (error) {
     console.error('Error fetching buyers:', error);
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid filters' },
+        { status: 400 }
+      );
+    }
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      return NextResponse.json(
+        { error: 'Invalid or expired page cursor' },
+        { status: 400 }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to fetch buyers' },
       { status: 500 }
@@ -74,19 +77,47 @@ export async function POST(request: NextRequest) {
     const user = await requireAuth(request);
     
     const body = await request.json();
-    const buyerData = CreateBuyerSchema.parse(body);
+    const { ownerId: requestedOwnerId, ...buyerData } = CreateBuyerSchema.parse(body);
+
+    if (requestedOwnerId && !canAssignOwner(user, requestedOwnerId)) {
+      return NextResponse.json(
+        { error: 'Only admins can create buyers for other users' },
+        { status: 403 }
+      );
+    }
+
+    if (requestedOwnerId && requestedOwnerId !== user.id) {
+      const owner = await prisma.user.findUnique({ where: { id: requestedOwnerId }, select: { id: true } });
+      if (!owner) {
+        return NextResponse.json(
+          { error: 'Owner not found' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // An explicit owner wins; otherwise the assignment engine routes the lead
+    const assignment: AssignmentDecision = requestedOwnerId
+      ? { ownerId: requestedOwnerId, via: 'creator' }
+      : assignOwner(await loadAssignmentContext(), buyerData, user.id);
+    const ownerId = assignment.ownerId;
+
+    // Duplicates don't block the create; they are returned as a warning
+    const duplicates = await findDuplicates(buyerData);
 
     // Create buyer with history
     const buyer = await prisma.$transaction(async (tx) => {
       const newBuyer = await tx.buyer.create({
         data: {
           ...buyerData,
-          ownerId: user.id,
+          tags: connectTags(buyerData.tags),
+          ownerId,
         },
         include: {
           owner: {
-            select: { id: true, name: true, email: true }
-          }
+            select: { id: true, name: true, email: true, teamId: true }
+          },
+          tags: buyerTagsInclude,
         }
       });
 
@@ -98,6 +129,7 @@ export async function POST(request: NextRequest) {
           diff: {
             action: 'created',
             fields: buyerData,
+            assignment,
           },
         },
       });
@@ -105,7 +137,15 @@ export async function POST(request: NextRequest) {
       return newBuyer;
     });
 
-    return NextResponse.json(buyer, { status: 201 });
+    return NextResponse.json({
+      ...withTagNames(buyer),
+      assignment: {
+        ...assignment,
+        // The creator may not be able to open a lead routed to someone else
+        visible: canAccessBuyer(user, 'view', buyer),
+      },
+      duplicates: duplicates.map(match => summarizeDuplicate(user, match)),
+    }, { status: 201 });
   } catch (error) {
     console.error('Error creating buyer:', error);
     if (error instanceof Error && error.message.includes('validation')) {
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { restoreBuyer } from '@/lib/trash';
+
+// POST /api/buyers/trash/[id]/restore - Move a buyer out of the trash
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const result = await restoreBuyer(user, params.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, ...(result.mergedInto && { mergedInto: result.mergedInto }) },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(result.buyer);
+  } catch (error) {
+    console.error('Error restoring buyer:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to restore buyer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { canPurgeBuyers } from '@/lib/permissions';
+
+// DELETE /api/buyers/trash/[id] - Permanently delete a buyer from the trash (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!canPurgeBuyers(user)) {
+      return NextResponse.json(
+        { error: 'Only admins can permanently delete buyers' },
+        { status: 403 }
+      );
+    }
+
+    // Only trashed leads can be purged, so a live lead always goes through the trash first
+    const existingBuyer = await prisma.buyer.findFirst({
+      where: { id: params.id, deletedAt: { not: null } },
+      select: { id: true }
+    });
+
+    if (!existingBuyer) {
+      return NextResponse.json(
+        { error: 'Buyer not found in trash' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.buyer.delete({
+      where: { id: params.id }
+    });
+
+    return NextResponse.json({ message: 'Buyer permanently deleted' });
+  } catch (error) {
+    console.error('Error purging buyer:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to permanently delete buyer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { canPurgeBuyers } from '@/lib/permissions';
+import { purgeExpiredTrash } from '@/lib/trash';
+
+// POST /api/buyers/trash/purge - Run the retention job now: purge trash past the retention period (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!canPurgeBuyers(user)) {
+      return NextResponse.json(
+        { error: 'Only admins can purge the trash' },
+        { status: 403 }
+      );
+    }
+
+    const purged = await purgeExpiredTrash();
+
+    return NextResponse.json({
+      message: `Purged ${purged} expired ${purged === 1 ? 'buyer' : 'buyers'}`,
+      purged,
+    });
+  } catch (error) {
+    console.error('Error purging trash:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to purge trash' },
+      { status: 500 }
+    );
+  }
+}
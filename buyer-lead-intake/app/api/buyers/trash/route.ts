@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { buyerScope, canAccessBuyer, canPurgeBuyers } from '@/lib/permissions';
+import { getTrashRetentionDays, purgeDate } from '@/lib/trash';
+
+const TRASH_LIMIT = 200;
+
+// GET /api/buyers/trash - List deleted buyers the user can see, most recently deleted first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const where = { ...buyerScope(user), deletedAt: { not: null } };
+    const [buyers, total, retentionDays] = await Promise.all([
+      prisma.buyer.findMany({
+        where,
+        include: {
+          owner: {
+            select: { id: true, name: true, email: true, teamId: true }
+          }
+        },
+        orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+        take: TRASH_LIMIT,
+      }),
+      prisma.buyer.count({ where }),
+      getTrashRetentionDays(),
+    ]);
+
+    const deleterIds = [...new Set(buyers.map(buyer => buyer.deletedBy).filter((id): id is string => !!id))];
+    const deleters = await prisma.user.findMany({
+      where: { id: { in: deleterIds } },
+      select: { id: true, name: true, email: true }
+    });
+    const deletersById = new Map(deleters.map(deleter => [deleter.id, deleter]));
+
+    return NextResponse.json({
+      buyers: buyers.map(buyer => ({
+        id: buyer.id,
+        fullName: buyer.fullName,
+        phone: buyer.phone,
+        email: buyer.email,
+        city: buyer.city,
+        status: buyer.status,
+        owner: buyer.owner,
+        deletedAt: buyer.deletedAt,
+        deletedBy: buyer.deletedBy ? deletersById.get(buyer.deletedBy) ?? null : null,
+        purgeAt: buyer.deletedAt ? purgeDate(buyer.deletedAt, retentionDays) : null,
+        canRestore: canAccessBuyer(user, 'delete', buyer),
+      })),
+      total,
+      retentionDays,
+      // Purging and retention settings are admin only
+      canPurge: canPurgeBuyers(user),
+    });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch trash' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { canPurgeBuyers } from '@/lib/permissions';
+import { getTrashRetentionDays, setTrashRetentionDays } from '@/lib/trash';
+import { TrashSettingsSchema } from '@/lib/validation';
+
+// GET /api/buyers/trash/settings - Get the trash retention period
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth(request);
+
+    return NextResponse.json({ retentionDays: await getTrashRetentionDays() });
+  } catch (error) {
+    console.error('Error fetching trash settings:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch trash settings' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/buyers/trash/settings - Change the trash retention period (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!canPurgeBuyers(user)) {
+      return NextResponse.json(
+        { error: 'Only admins can change trash retention' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { retentionDays } = TrashSettingsSchema.parse(body);
+
+    await setTrashRetentionDays(retentionDays, user.id);
+
+    return NextResponse.json({ retentionDays });
+  } catch (error) {
+    console.error('Error updating trash settings:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid trash settings' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to update trash settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+
+// DELETE /api/import-mappings/[id] - Delete a column mapping preset (owner only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const existingPreset = await prisma.importMapping.findUnique({
+      where: { id: params.id },
+      select: { id: true, ownerId: true }
+    });
+
+    if (!existingPreset) {
+      return NextResponse.json(
+        { error: 'Mapping not found' },
+        { status: 404 }
+      );
+    }
+
+    if (existingPreset.ownerId !== user.id) {
+      return NextResponse.json(
+        { error: 'You can only delete your own mappings' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.importMapping.delete({
+      where: { id: params.id }
+    });
+
+    return NextResponse.json({ message: 'Mapping deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting import mapping:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to delete import mapping' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { ImportMappingPresetSchema } from '@/lib/validation';
+
+// GET /api/import-mappings - List the user's saved column mapping presets
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const presets = await prisma.importMapping.findMany({
+      where: { ownerId: user.id },
+      select: { id: true, name: true, mapping: true, updatedAt: true },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ presets });
+  } catch (error) {
+    console.error('Error fetching import mappings:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch import mappings' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/import-mappings - Save a column mapping as a named preset
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const presetData = ImportMappingPresetSchema.parse(body);
+
+    const existingPreset = await prisma.importMapping.findUnique({
+      where: { ownerId_name: { ownerId: user.id, name: presetData.name } },
+      select: { id: true }
+    });
+    if (existingPreset) {
+      return NextResponse.json(
+        { error: 'You already have a mapping with this name' },
+        { status: 409 }
+      );
+    }
+
+    const preset = await prisma.importMapping.create({
+      data: {
+        ...presetData,
+        ownerId: user.id,
+      },
+      select: { id: true, name: true, mapping: true, updatedAt: true },
+    });
+
+    return NextResponse.json(preset, { status: 201 });
+  } catch (error) {
+    console.error('Error creating import mapping:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid mapping data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to create import mapping' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { canManageTags } from '@/lib/permissions';
+import { mergeTags } from '@/lib/tags';
+import { MergeTagSchema } from '@/lib/validation';
+
+// POST /api/tags/[id]/merge - Merge this tag into another one (admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!canManageTags(user)) {
+      return NextResponse.json(
+        { error: 'Only admins can manage tags' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { targetId } = MergeTagSchema.parse(body);
+
+    if (targetId === params.id) {
+      return NextResponse.json(
+        { error: 'A tag cannot be merged into itself' },
+        { status: 400 }
+      );
+    }
+
+    const [source, target] = await Promise.all([
+      prisma.tag.findUnique({ where: { id: params.id }, select: { id: true, name: true } }),
+      prisma.tag.findUnique({ where: { id: targetId }, select: { id: true, name: true } }),
+    ]);
+
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Tag not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!target) {
+      return NextResponse.json(
+        { error: 'Target tag not found' },
+        { status: 400 }
+      );
+    }
+
+    const moved = await mergeTags(source.id, target.id);
+
+    return NextResponse.json({
+      message: `Merged "${source.name}" into "${target.name}"`,
+      moved,
+      target,
+    });
+  } catch (error) {
+    console.error('Error merging tags:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid merge request' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to merge tags' },
+      { status: 500 }
+    );
+  }
+}
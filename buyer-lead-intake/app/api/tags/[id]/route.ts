@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { canManageTags } from '@/lib/permissions';
+import { RenameTagSchema } from '@/lib/validation';
+
+// PATCH /api/tags/[id] - Rename a tag (admin only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!canManageTags(user)) {
+      return NextResponse.json(
+        { error: 'Only admins can manage tags' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { name } = RenameTagSchema.parse(body);
+
+    const existingTag = await prisma.tag.findUnique({
+      where: { id: params.id },
+      select: { id: true }
+    });
+    if (!existingTag) {
+      return NextResponse.json(
+        { error: 'Tag not found' },
+        { status: 404 }
+      );
+    }
+
+    const duplicate = await prisma.tag.findUnique({
+      where: { name },
+      select: { id: true }
+    });
+    if (duplicate && duplicate.id !== params.id) {
+      return NextResponse.json(
+        { error: 'A tag with this name already exists. Merge the tags instead.' },
+        { status: 409 }
+      );
+    }
+
+    const tag = await prisma.tag.update({
+      where: { id: params.id },
+      data: { name },
+    });
+
+    return NextResponse.json(tag);
+  } catch (error) {
+    console.error('Error renaming tag:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid tag name' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to rename tag' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tags/[id] - Delete a tag and remove it from every lead (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!canManageTags(user)) {
+      return NextResponse.json(
+        { error: 'Only admins can manage tags' },
+        { status: 403 }
+      );
+    }
+
+    const existingTag = await prisma.tag.findUnique({
+      where: { id: params.id },
+      include: { _count: { select: { buyers: true } } }
+    });
+    if (!existingTag) {
+      return NextResponse.json(
+        { error: 'Tag not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.tag.delete({
+      where: { id: params.id }
+    });
+
+    return NextResponse.json({
+      message: `Deleted tag "${existingTag.name}" from ${existingTag._count.buyers} buyers`,
+      removed: existingTag._count.buyers,
+    });
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to delete tag' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { buyerScope } from '@/lib/permissions';
+import { normalizeTagName } from '@/lib/validation';
+
+// GET /api/tags - List tags with usage counts; ?q= filters by prefix for autocomplete
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const { searchParams } = new URL(request.url);
+    const query = normalizeTagName(searchParams.get('q') || '');
+
+    // Counts only include leads the user can see
+    const tags = await prisma.tag.findMany({
+      where: query ? { name: { startsWith: query } } : {},
+      include: {
+        _count: {
+          select: {
+            buyers: { where: { buyer: { ...buyerScope(user), deletedAt: null } } }
+          }
+        }
+      },
+      // Suggestions put the most used tags first; the full list is alphabetical
+      orderBy: query ? [{ buyers: { _count: 'desc' } }, { name: 'asc' }] : { name: 'asc' },
+      take: query ? 10 : undefined,
+    });
+
+    return NextResponse.json({
+      tags: tags.map(({ _count, ...tag }) => ({
+        ...tag,
+        count: _count.buyers,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch tags' },
+      { status: 500 }
+    );
+  }
+}
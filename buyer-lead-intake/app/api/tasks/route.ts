@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { endOfDay } from '@/lib/tasks';
+
+// GET /api/tasks - The current user's open tasks due by `until` (default: end of today), overdue first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    // The browser sends the end of its own day so "today" follows the user's timezone
+    const { searchParams } = new URL(request.url);
+    const until = searchParams.get('until') ? new Date(searchParams.get('until')!) : endOfDay(new Date());
+    if (isNaN(until.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid until date' },
+        { status: 400 }
+      );
+    }
+
+    const tasks = await prisma.task.findMany({
+      where: {
+        assigneeId: user.id,
+        completedAt: null,
+        buyer: { deletedAt: null },
+        dueAt: { lte: until },
+      },
+      include: {
+        buyer: {
+          select: { id: true, fullName: true, phone: true, email: true, status: true, timeline: true }
+        }
+      },
+      orderBy: [{ dueAt: 'asc' }, { id: 'asc' }],
+    });
+
+    return NextResponse.json({ tasks });
+  } catch (error) {
+    console.error('Error fetching tasks:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch tasks' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { canManageUsers } from '@/lib/permissions';
+import { TeamSchema } from '@/lib/validation';
+
+// GET /api/teams - List teams with member counts
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth(request);
+
+    const teams = await prisma.team.findMany({
+      include: {
+        _count: {
+          select: { members: true }
+        }
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ teams });
+  } catch (error) {
+    console.error('Error fetching teams:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch teams' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/teams - Create a team (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!canManageUsers(user)) {
+      return NextResponse.json(
+        { error: 'Only admins can create teams' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { name } = TeamSchema.parse(body);
+
+    const existingTeam = await prisma.team.findUnique({ where: { name } });
+    if (existingTeam) {
+      return NextResponse.json(
+        { error: 'A team with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const team = await prisma.team.create({
+      data: { name }
+    });
+
+    return NextResponse.json(team, { status: 201 });
+  } catch (error) {
+    console.error('Error creating team:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid team data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to create team' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth, userSelect } from '@/lib/auth';
+import { canManageUsers } from '@/lib/permissions';
+import { UpdateUserSchema } from '@/lib/validation';
+
+// PATCH /api/users/[id] - Change a user's name, role or team (admin only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    if (!canManageUsers(user)) {
+      return NextResponse.json(
+        { error: 'Only admins can manage users' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const updateData = UpdateUserSchema.parse(body);
+
+    // Keep at least one admin around to manage everyone else
+    if (params.id === user.id && updateData.role && updateData.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'You cannot remove your own admin role' },
+        { status: 400 }
+      );
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: { id: true }
+    });
+
+    if (!existingUser) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (updateData.teamId) {
+      const team = await prisma.team.findUnique({
+        where: { id: updateData.teamId },
+        select: { id: true }
+      });
+      if (!team) {
+        return NextResponse.json(
+          { error: 'Team not found' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id: params.id },
+      data: updateData,
+      select: userSelect
+    });
+
+    return NextResponse.json(updatedUser);
+  } catch (error) {
+    console.error('Error updating user:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid user data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { requireAuth, userSelect } from '@/lib/auth';
+import { isAdmin } from '@/lib/permissions';
+
+// GET /api/users - List users visible to the current user
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    // Admins see everyone; other roles see their own team (or just themselves)
+    const where = isAdmin(user)
+      ? {}
+      : user.teamId
+        ? { teamId: user.teamId }
+        : { id: user.id };
+
+    const users = await prisma.user.findMany({
+      where,
+      select: {
+        ...userSelect,
+        inRoundRobin: true,
+        team: {
+          select: { id: true, name: true }
+        }
+      },
+      orderBy: { email: 'asc' },
+    });
+
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { UpdateSavedViewSchema } from '@/lib/validation';
+
+// PUT /api/views/[id] - Rename, re-filter, share or make a view the default (owner only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const viewData = UpdateSavedViewSchema.parse(body);
+
+    const existingView = await prisma.savedView.findUnique({
+      where: { id: params.id },
+      select: { id: true, ownerId: true, name: true }
+    });
+
+    if (!existingView) {
+      return NextResponse.json(
+        { error: 'View not found' },
+        { status: 404 }
+      );
+    }
+
+    if (existingView.ownerId !== user.id) {
+      return NextResponse.json(
+        { error: 'You can only change your own views' },
+        { status: 403 }
+      );
+    }
+
+    if (viewData.shared && !user.teamId) {
+      return NextResponse.json(
+        { error: 'Join a team before sharing views' },
+        { status: 400 }
+      );
+    }
+
+    if (viewData.name && viewData.name !== existingView.name) {
+      const duplicate = await prisma.savedView.findUnique({
+        where: { ownerId_name: { ownerId: user.id, name: viewData.name } },
+        select: { id: true }
+      });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: 'You already have a view with this name' },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Only one default view per user
+    const view = await prisma.$transaction(async (tx) => {
+      if (viewData.isDefault) {
+        await tx.savedView.updateMany({
+          where: { ownerId: user.id, isDefault: true, id: { not: params.id } },
+          data: { isDefault: false },
+        });
+      }
+
+      return tx.savedView.update({
+        where: { id: params.id },
+        data: viewData,
+        include: {
+          owner: {
+            select: { id: true, name: true, email: true }
+          }
+        },
+      });
+    });
+
+    return NextResponse.json({ ...view, mine: true });
+  } catch (error) {
+    console.error('Error updating view:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid view data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to update view' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/views/[id] - Delete a saved view (owner only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request);
+
+    const existingView = await prisma.savedView.findUnique({
+      where: { id: params.id },
+      select: { id: true, ownerId: true }
+    });
+
+    if (!existingView) {
+      return NextResponse.json(
+        { error: 'View not found' },
+        { status: 404 }
+      );
+    }
+
+    if (existingView.ownerId !== user.id) {
+      return NextResponse.json(
+        { error: 'You can only delete your own views' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.savedView.delete({
+      where: { id: params.id }
+    });
+
+    return NextResponse.json({ message: 'View deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting view:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to delete view' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { prisma } from '@/lib/db';
+import { requireAuth } from '@/lib/auth';
+import { savedViewScope } from '@/lib/permissions';
+import { SavedViewSchema } from '@/lib/validation';
+
+// GET /api/views - List the user's saved views and views shared with their team
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const views = await prisma.savedView.findMany({
+      where: savedViewScope(user),
+      include: {
+        owner: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      views: views.map(view => ({
+        ...view,
+        mine: view.ownerId === user.id,
+        // A teammate's default view is not the current user's default
+        isDefault: view.ownerId === user.id && view.isDefault,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching views:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch views' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/views - Save the current filters and sort order as a named view
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request);
+
+    const body = await request.json();
+    const viewData = SavedViewSchema.parse(body);
+
+    if (viewData.shared && !user.teamId) {
+      return NextResponse.json(
+        { error: 'Join a team before sharing views' },
+        { status: 400 }
+      );
+    }
+
+    const existingView = await prisma.savedView.findUnique({
+      where: { ownerId_name: { ownerId: user.id, name: viewData.name } },
+      select: { id: true }
+    });
+    if (existingView) {
+      return NextResponse.json(
+        { error: 'You already have a view with this name' },
+        { status: 409 }
+      );
+    }
+
+    // Only one default view per user
+    const view = await prisma.$transaction(async (tx) => {
+      if (viewData.isDefault) {
+        await tx.savedView.updateMany({
+          where: { ownerId: user.id, isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+
+      return tx.savedView.create({
+        data: {
+          ...viewData,
+          ownerId: user.id,
+        },
+        include: {
+          owner: {
+            select: { id: true, name: true, email: true }
+          }
+        },
+      });
+    });
+
+    return NextResponse.json({ ...view, mine: true }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating view:', error);
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid view data' },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to create view' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,353 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { HISTORY_ACTIONS, type HistoryAction } from '@/lib/validation'
+
+interface RevertPreview {
+  entryId: string
+  updatedAt: string
+  changes: Array<{
+    field: string
+    current: unknown
+    restored: unknown
+  }>
+  blocked: string | null
+  canRevert: boolean
+}
+
+interface HistoryEntry {
+  id: string
+  changedAt: string
+  action: HistoryAction
+  reason?: string
+  revertedTo?: {
+    id: string
+    changedAt: string
+  }
+  author: {
+    id: string
+    name?: string | null
+    email: string
+  } | null
+  changes: Array<{
+    field: string
+    old: unknown
+    new: unknown
+  }>
+}
+
+const ACTION_LABELS: Record<HistoryAction, string> = {
+  created: 'Created',
+  updated: 'Updated',
+  imported: 'Imported',
+  reassigned: 'Reassigned',
+  merged: 'Merged duplicate',
+  reverted: 'Restored an earlier version',
+  deleted: 'Moved to trash',
+  restored: 'Restored from trash',
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  fullName: 'Full Name',
+  email: 'Email',
+  phone: 'Phone',
+  city: 'City',
+  propertyType: 'Property Type',
+  bhk: 'BHK',
+  purpose: 'Purpose',
+  budgetMin: 'Budget Min',
+  budgetMax: 'Budget Max',
+  timeline: 'Timeline',
+  source: 'Source',
+  status: 'Status',
+  dropReason: 'Drop Reason',
+  visitedAt: 'Visited',
+  notes: 'Notes',
+  tags: 'Tags',
+  ownerId: 'Owner',
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—'
+  if (typeof value === 'number') return value.toLocaleString()
+  if (typeof value === 'string' && ISO_DATE.test(value)) return new Date(value).toLocaleString()
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+export default function BuyerHistoryPage({ params }: { params: { id: string } }) {
+  const [buyerName, setBuyerName] = useState('')
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [action, setAction] = useState<HistoryAction | ''>('')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [preview, setPreview] = useState<RevertPreview | null>(null)
+  const [reverting, setReverting] = useState(false)
+  const [message, setMessage] = useState('')
+  const router = useRouter()
+
+  useEffect(() => {
+    const fetchBuyer = async () => {
+      try {
+        const response = await fetch(`/api/buyers/${params.id}`)
+        if (response.ok) {
+          const data = await response.json()
+          setBuyerName(data.fullName)
+        }
+      } catch {
+        // The heading falls back to a generic title
+      }
+    }
+
+    fetchBuyer()
+  }, [params.id])
+
+  const fetchHistory = async (cursor: string | null) => {
+    setLoading(true)
+    try {
+      const query = new URLSearchParams({ limit: '20' })
+      if (action) query.set('action', action)
+      if (cursor) query.set('cursor', cursor)
+
+      const response = await fetch(`/api/buyers/${params.id}/history?${query}`)
+      if (response.ok) {
+        const data = await response.json()
+        setHistory(prev => cursor ? [...prev, ...data.history] : data.history)
+        setTotal(data.pagination.total)
+        setNextCursor(data.pagination.nextCursor)
+      } else if (response.status === 401) {
+        router.push('/login')
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to load history')
+      }
+    } catch {
+      setError('Network error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchHistory(null)
+  }, [params.id, action])
+
+  const openPreview = async (entry: HistoryEntry) => {
+    setError('')
+    setMessage('')
+    try {
+      const response = await fetch(`/api/buyers/${params.id}/history/${entry.id}/revert`)
+      if (response.ok) {
+        const data = await response.json()
+        setPreview({ ...data, entryId: entry.id })
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to preview this version')
+      }
+    } catch {
+      setError('Network error')
+    }
+  }
+
+  const handleRevert = async () => {
+    if (!preview) return
+
+    setReverting(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/buyers/${params.id}/history/${preview.entryId}/revert`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ updatedAt: preview.updatedAt }),
+      })
+
+      if (response.ok) {
+        setPreview(null)
+        setMessage('Version restored')
+        await fetchHistory(null)
+      } else {
+        const errorData = await response.json()
+        if (response.status === 409) {
+          setPreview(null)
+        }
+        setError(errorData.error || 'Failed to restore this version')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setReverting(false)
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {buyerName ? `History: ${buyerName}` : 'History'}
+          </h1>
+          <p className="text-gray-600">Every change to this lead, newest first.</p>
+        </div>
+        <Link href={`/buyers/${params.id}`} className="text-blue-600 hover:text-blue-500 text-sm">
+          Back to Lead
+        </Link>
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <label htmlFor="action" className="text-sm font-medium text-gray-700">Show</label>
+        <select
+          id="action"
+          value={action}
+          onChange={(e) => setAction(e.target.value as HistoryAction | '')}
+          className="border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        >
+          <option value="">All changes</option>
+          {HISTORY_ACTIONS.map(value => (
+            <option key={value} value={value}>{ACTION_LABELS[value]}</option>
+          ))}
+        </select>
+        <span className="text-sm text-gray-500">{total} {total === 1 ? 'entry' : 'entries'}</span>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      {history.map(entry => (
+        <div key={entry.id} className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <div className="flex justify-between items-baseline">
+              <h3 className="text-sm font-medium text-gray-900">{ACTION_LABELS[entry.action] ?? entry.action}</h3>
+              <span className="text-xs text-gray-500">
+                {new Date(entry.changedAt).toLocaleString()}
+                {entry.author && ` • ${entry.author.name || entry.author.email}`}
+              </span>
+            </div>
+            {entry.reason && (
+              <p className="mt-1 text-xs text-gray-600 italic">Reason: {entry.reason}</p>
+            )}
+            {entry.revertedTo && (
+              <p className="mt-1 text-xs text-gray-600">
+                Restored the version from {new Date(entry.revertedTo.changedAt).toLocaleString()}
+              </p>
+            )}
+            {entry.changes.length > 0 && (
+              <table className="mt-3 min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr>
+                    <th className="py-2 pr-3 text-left text-xs font-medium text-gray-500 uppercase">Field</th>
+                    <th className="py-2 px-3 text-left text-xs font-medium text-gray-500 uppercase">Before</th>
+                    <th className="py-2 px-3 text-left text-xs font-medium text-gray-500 uppercase">After</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {entry.changes.map(change => (
+                    <tr key={change.field}>
+                      <td className="py-2 pr-3 text-sm font-medium text-gray-700">{FIELD_LABELS[change.field] ?? change.field}</td>
+                      <td className="py-2 px-3 text-sm text-gray-500 whitespace-pre-wrap">{formatValue(change.old)}</td>
+                      <td className="py-2 px-3 text-sm text-gray-900 whitespace-pre-wrap">{formatValue(change.new)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {preview?.entryId === entry.id ? (
+              <div className="mt-4 border-t border-gray-200 pt-4">
+                <h4 className="text-sm font-medium text-gray-900">Restoring this version will change</h4>
+                {preview.changes.length === 0 ? (
+                  <p className="mt-2 text-sm text-gray-500">Nothing: the lead already matches this version.</p>
+                ) : (
+                  <table className="mt-2 min-w-full divide-y divide-gray-200">
+                    <thead>
+                      <tr>
+                        <th className="py-2 pr-3 text-left text-xs font-medium text-gray-500 uppercase">Field</th>
+                        <th className="py-2 px-3 text-left text-xs font-medium text-gray-500 uppercase">Now</th>
+                        <th className="py-2 px-3 text-left text-xs font-medium text-gray-500 uppercase">Restored</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {preview.changes.map(change => (
+                        <tr key={change.field}>
+                          <td className="py-2 pr-3 text-sm font-medium text-gray-700">{FIELD_LABELS[change.field] ?? change.field}</td>
+                          <td className="py-2 px-3 text-sm text-gray-500 whitespace-pre-wrap">{formatValue(change.current)}</td>
+                          <td className="py-2 px-3 text-sm text-gray-900 whitespace-pre-wrap">{formatValue(change.restored)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {preview.blocked && (
+                  <p className="mt-2 text-sm text-red-600">This version can&apos;t be restored: {preview.blocked}</p>
+                )}
+                <div className="mt-3 flex justify-end space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => setPreview(null)}
+                    className="bg-white py-1 px-3 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  {preview.canRevert && preview.changes.length > 0 && !preview.blocked && (
+                    <button
+                      type="button"
+                      onClick={handleRevert}
+                      disabled={reverting}
+                      className="bg-blue-600 py-1 px-3 border border-transparent rounded-md shadow-sm text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {reverting ? 'Restoring...' : 'Restore'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div className="mt-3 flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => openPreview(entry)}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-500"
+                >
+                  Restore this version
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {!loading && history.length === 0 && !error && (
+        <p className="text-sm text-gray-500">No history matches this filter.</p>
+      )}
+
+      {nextCursor && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => fetchHistory(nextCursor)}
+            disabled={loading}
+            className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {loading ? 'Loading...' : 'Load More'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,9 +2,12 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
-import { useForm } from 'react-hook-form'
+import { Controller, useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { UpdateBuyerSchema } from '@/lib/validation'
+import { UpdateBuyerSchema, type Status, type Timeline } from '@/lib/validation'
+import TagInput from '@/components/TagInput'
+import TaskPanel from '@/components/TaskPanel'
+import ActivityTimeline from '@/components/ActivityTimeline'
 
 interface Buyer {
   id: string
@@ -20,14 +23,23 @@ interface Buyer {
   timeline: string
   source: string
   status: string
+  dropReason?: string | null
+  visitedAt?: string | null
+  visitDate?: string
+  nextStatuses?: string[]
   notes?: string
-  tags: string
+  tags: string[]
   owner: {
     id: string
     name?: string
     email: string
   }
   updatedAt: string
+  permissions?: {
+    edit: boolean
+    delete: boolean
+    reassign: boolean
+  }
   history: Array<{
     id: string
     changedBy: string
@@ -36,6 +48,22 @@ interface Buyer {
   }>
 }
 
+const STATUS_LABELS: Record<string, string> = {
+  NEW: 'New',
+  QUALIFIED: 'Qualified',
+  CONTACTED: 'Contacted',
+  VISITED: 'Visited',
+  NEGOTIATION: 'Negotiation',
+  CONVERTED: 'Converted',
+  DROPPED: 'Dropped',
+}
+
+interface OwnerOption {
+  id: string
+  name?: string
+  email: string
+}
+
 interface BuyerHistory {
   id: string
   changedBy: string
@@ -49,10 +77,16 @@ export default function BuyerDetailPage({ params }: { params: { id: string } })
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState('')
   const [isEditing, setIsEditing] = useState(false)
+  const [isReassigning, setIsReassigning] = useState(false)
+  const [owners, setOwners] = useState<OwnerOption[]>([])
+  const [newOwnerId, setNewOwnerId] = useState('')
+  const [reassignReason, setReassignReason] = useState('')
+  const [reassignSaving, setReassignSaving] = useState(false)
   const router = useRouter()
 
   const {
     register,
+    control,
     handleSubmit,
     watch,
     reset,
@@ -62,6 +96,7 @@ export default function BuyerDetailPage({ params }: { params: { id: string } })
   })
 
   const propertyType = watch('propertyType')
+  const status = watch('status')
 
   useEffect(() => {
     fetchBuyer()
@@ -73,7 +108,11 @@ export default function BuyerDetailPage({ params }: { params: { id: string } })
       if (response.ok) {
         const data = await response.json()
         setBuyer(data)
-        reset(data)
+        reset({
+          ...data,
+          dropReason: data.dropReason ?? undefined,
+          visitDate: data.visitedAt ? data.visitedAt.slice(0, 10) : undefined,
+        })
       } else {
         if (response.status === 401) {
           router.push('/login')
@@ -100,7 +139,6 @@ export default function BuyerDetailPage({ params }: { params: { id: string } })
         budgetMin: data.budgetMin || undefined,
         budgetMax: data.budgetMax || undefined,
         notes: data.notes || undefined,
-        tags: Array.isArray(data.tags) ? data.tags.filter(tag => tag.trim() !== '') : [],
         updatedAt: buyer?.updatedAt
       }
 
@@ -136,7 +174,7 @@ export default function BuyerDetailPage({ params }: { params: { id: string } })
   }
 
   const handleDelete = async () => {
-    if (!confirm('Are you sure you want to delete this buyer? This action cannot be undone.')) {
+    if (!confirm('Move this buyer to the trash? You can restore it from the Trash page.')) {
       return
     }
 
@@ -156,6 +194,59 @@ export default function BuyerDetailPage({ params }: { params: { id: string } })
     }
   }
 
+  const openReassign = async () => {
+    setIsReassigning(true)
+    setNewOwnerId('')
+    setReassignReason('')
+
+    try {
+      const response = await fetch('/api/users')
+      if (response.ok) {
+        const data = await response.json()
+        setOwners(data.users.filter((owner: OwnerOption) => owner.id !== buyer?.owner.id))
+      }
+    } catch {
+      setError('Failed to load users')
+    }
+  }
+
+  const handleReassign = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newOwnerId) return
+
+    setReassignSaving(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/buyers/reassign', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          buyerIds: [params.id],
+          ownerId: newOwnerId,
+          ...(reassignReason && { reason: reassignReason }),
+        }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setIsReassigning(false)
+        await fetchBuyer()
+      } else if (response.status === 401) {
+        router.push('/login')
+      } else {
+        setError(data.results?.[0]?.error || data.error || 'Failed to reassign buyer')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setReassignSaving(false)
+    }
+  }
+
   const formatBudget = (min?: number, max?: number) => {
     if (!min && !max) return 'Not specified'
     if (min && max) return `₹${min.toLocaleString()} - ₹${max.toLocaleString()}`
@@ -367,16 +458,43 @@ export default function BuyerDetailPage({ params }: { params: { id: string } })
                     {...register('status')}
                     className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                   >
-                    <option value="NEW">New</option>
-                    <option value="QUALIFIED">Qualified</option>
-                    <option value="CONTACTED">Contacted</option>
-                    <option value="VISITED">Visited</option>
-                    <option value="NEGOTIATION">Negotiation</option>
-                    <option value="CONVERTED">Converted</option>
-                    <option value="DROPPED">Dropped</option>
+                    {/* Only the current status and the moves the pipeline allows */}
+                    {[buyer.status, ...(buyer.nextStatuses ?? [])].map((option) => (
+                      <option key={option} value={option}>{STATUS_LABELS[option]}</option>
+                    ))}
                   </select>
                 </div>
 
+                {/* Extra details some statuses require */}
+                {status === 'DROPPED' && (
+                  <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700">Drop Reason *</label>
+                    <textarea
+                      {...register('dropReason', { shouldUnregister: true })}
+                      rows={2}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      placeholder="Why is this lead being dropped?"
+                    />
+                    {errors.dropReason && (
+                      <p className="mt-1 text-sm text-red-600">{errors.dropReason.message}</p>
+                    )}
+                  </div>
+                )}
+                {status === 'VISITED' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Visit Date *</label>
+                    <input
+                      {...register('visitDate', { shouldUnregister: true })}
+                      type="date"
+                      max={new Date().toISOString().slice(0, 10)}
+                      className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
+                    {errors.visitDate && (
+                      <p className="mt-1 text-sm text-red-600">{errors.visitDate.message}</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Budget Min */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Budget Min (₹)</label>
@@ -411,12 +529,13 @@ export default function BuyerDetailPage({ params }: { params: { id: string } })
 
                 {/* Tags */}
                 <div className="sm:col-span-2">
-                  <label className="block text-sm font-medium text-gray-700">Tags</label>
-                  <input
-                    {...register('tags')}
-                    type="text"
-                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                    placeholder="Enter tags separated by commas"
+                  <label htmlFor="tags" className="block text-sm font-medium text-gray-700">Tags</label>
+                  <Controller
+                    name="tags"
+                    control={control}
+                    render={({ field }) => (
+                      <TagInput id="tags" value={field.value ?? []} onChange={field.onChange} />
+                    )}
                   />
                 </div>
               </div>
@@ -519,18 +638,24 @@ export default function BuyerDetailPage({ params }: { params: { id: string } })
                 <div className="px-4 py-5 sm:p-6">
                   <h3 className="text-lg font-medium text-gray-900 mb-4">Tags</h3>
                   <div className="flex flex-wrap gap-2">
-                    {buyer.tags.split(',').map((tag, index) => (
+                    {buyer.tags.map(tag => (
                       <span
-                        key={index}
+                        key={tag}
                         className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
                       >
-                        {tag.trim()}
+                        {tag}
                       </span>
                     ))}
                   </div>
                 </div>
               </div>
             )}
+
+            <ActivityTimeline
+              buyerId={buyer.id}
+              canLog={!!buyer.permissions?.edit}
+              refreshKey={buyer.updatedAt}
+            />
           </div>
 
           {/* Sidebar */}
@@ -543,9 +668,24 @@ export default function BuyerDetailPage({ params }: { params: { id: string } })
                     {buyer.status}
                   </span>
                 </div>
+                {buyer.status === 'DROPPED' && buyer.dropReason && (
+                  <p className="mt-3 text-sm text-gray-600">Reason: {buyer.dropReason}</p>
+                )}
+                {buyer.visitedAt && (
+                  <p className="mt-3 text-sm text-gray-600">
+                    Last visit: {new Date(buyer.visitedAt).toLocaleDateString()}
+                  </p>
+                )}
               </div>
             </div>
 
+            <TaskPanel
+              buyerId={buyer.id}
+              timeline={buyer.timeline as Timeline}
+              status={buyer.status as Status}
+              canCreate={!!buyer.permissions?.edit}
+            />
+
             <div className="bg-white shadow sm:rounded-lg">
               <div className="px-4 py-5 sm:p-6">
                 <h3 className="text-lg font-medium text-gray-900 mb-4">Lead Information</h3>
@@ -555,6 +695,55 @@ export default function BuyerDetailPage({ params }: { params: { id: string } })
                     <dd className="mt-1 text-sm text-gray-900">
                       {buyer.owner.name || buyer.owner.email}
                     </dd>
+                    {buyer.permissions?.reassign && !isReassigning && (
+                      <button
+                        onClick={openReassign}
+                        className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-500"
+                      >
+                        Reassign
+                      </button>
+                    )}
+                    {isReassigning && (
+                      <form onSubmit={handleReassign} className="mt-3 space-y-3">
+                        <select
+                          value={newOwnerId}
+                          onChange={(e) => setNewOwnerId(e.target.value)}
+                          required
+                          className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        >
+                          <option value="">Select new owner</option>
+                          {owners.map((owner) => (
+                            <option key={owner.id} value={owner.id}>
+                              {owner.name || owner.email}
+                            </option>
+                          ))}
+                        </select>
+                        <textarea
+                          value={reassignReason}
+                          onChange={(e) => setReassignReason(e.target.value)}
+                          rows={2}
+                          maxLength={500}
+                          placeholder="Reason (optional)"
+                          className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        />
+                        <div className="flex justify-end space-x-2">
+                          <button
+                            type="button"
+                            onClick={() => setIsReassigning(false)}
+                            className="bg-white py-1 px-3 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            type="submit"
+                            disabled={!newOwnerId || reassignSaving}
+                            className="bg-blue-600 py-1 px-3 border border-transparent rounded-md shadow-sm text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            {reassignSaving ? 'Reassigning...' : 'Reassign'}
+                          </button>
+                        </div>
+                      </form>
+                    )}
                   </div>
                   <div>
                     <dt className="text-sm font-medium text-gray-500">Last Updated</dt>
@@ -565,34 +754,6 @@ export default function BuyerDetailPage({ params }: { params: { id: string } })
                 </dl>
               </div>
             </div>
-
-            {/* History */}
-            {buyer.history.length > 0 && (
-              <div className="bg-white shadow sm:rounded-lg">
-                <div className="px-4 py-5 sm:p-6">
-                  <h3 className="text-lg font-medium text-gray-900 mb-4">Recent Changes</h3>
-                  <div className="space-y-4">
-                    {buyer.history.map((change) => (
-                      <div key={change.id} className="border-l-4 border-blue-400 pl-4">
-                        <div className="text-sm text-gray-900">
-                          {change.diff.action === 'created' && 'Created buyer'}
-                          {change.diff.action === 'updated' && 'Updated buyer'}
-                          {change.diff.action === 'imported' && 'Imported buyer'}
-                        </div>
-                        <div className="text-xs text-gray-500">
-                          {new Date(change.changedAt).toLocaleString()}
-                        </div>
-                        {change.diff.fields && Object.keys(change.diff.fields).length > 0 && (
-                          <div className="mt-2 text-xs text-gray-600">
-                            Changed: {Object.keys(change.diff.fields).join(', ')}
-                          </div>
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              </div>
-            )}
           </div>
         </div>
       )}
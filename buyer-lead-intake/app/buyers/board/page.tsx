@@ -0,0 +1,378 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import BuyerFilters, { EMPTY_FILTERS, FILTER_KEYS, type FilterKey, type Filters } from '@/components/BuyerFilters'
+import { STATUS_REQUIREMENTS, type Status } from '@/lib/validation'
+
+interface BoardBuyer {
+  id: string
+  fullName: string
+  phone: string
+  city: string
+  propertyType: string
+  budgetMin?: number
+  budgetMax?: number
+  status: Status
+  tags: string[]
+  owner: {
+    id: string
+    name?: string
+    email: string
+  }
+  updatedAt: string
+  editable: boolean
+}
+
+interface Column {
+  status: Status
+  count: number
+  budgetLow: number
+  budgetHigh: number
+  nextStatuses: Status[]
+  buyers: BoardBuyer[]
+}
+
+// A move waiting for the extra details its target status requires
+interface PendingMove {
+  buyer: BoardBuyer
+  to: Status
+  value: string
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  NEW: 'New',
+  QUALIFIED: 'Qualified',
+  CONTACTED: 'Contacted',
+  VISITED: 'Visited',
+  NEGOTIATION: 'Negotiation',
+  CONVERTED: 'Converted',
+  DROPPED: 'Dropped',
+}
+
+// Compact rupee amounts: ₹1.2Cr, ₹45L, ₹25,000
+const formatAmount = (amount: number) => {
+  if (amount >= 10000000) return `₹${(amount / 10000000).toFixed(1).replace(/\.0$/, '')}Cr`
+  if (amount >= 100000) return `₹${(amount / 100000).toFixed(1).replace(/\.0$/, '')}L`
+  return `₹${amount.toLocaleString()}`
+}
+
+export default function BuyerBoardPage() {
+  const [columns, setColumns] = useState<Column[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [search, setSearch] = useState('')
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [dragging, setDragging] = useState<BoardBuyer | null>(null)
+  const [pending, setPending] = useState<PendingMove | null>(null)
+  const [moving, setMoving] = useState(false)
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  // Initialize filters from URL
+  useEffect(() => {
+    const urlFilters = { ...EMPTY_FILTERS }
+    FILTER_KEYS.forEach(key => {
+      urlFilters[key] = searchParams.getAll(key).join(',')
+    })
+
+    setSearch(searchParams.get('search') || '')
+    setFilters(urlFilters)
+  }, [searchParams])
+
+  const filterParams = () => {
+    const params = new URLSearchParams()
+    if (search) params.set('search', search)
+    FILTER_KEYS.forEach(key => {
+      if (filters[key]) params.set(key, filters[key])
+    })
+    return params
+  }
+
+  const fetchBoard = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/buyers/board?${filterParams()}`, {
+        credentials: 'include'
+      })
+      if (response.ok) {
+        const data = await response.json()
+        setColumns(data.columns)
+      } else if (response.status === 401) {
+        router.push('/login')
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to load board')
+      }
+    } catch {
+      setError('Network error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchBoard()
+  }, [search, filters])
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value)
+    // Debounce search
+    const timeoutId = setTimeout(() => {
+      router.push(`/buyers/board?${filterParams().toString()}`)
+    }, 500)
+    return () => clearTimeout(timeoutId)
+  }
+
+  const handleFilterChange = (key: FilterKey, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }))
+  }
+
+  const clearFilters = () => {
+    setSearch('')
+    setFilters(EMPTY_FILTERS)
+    router.push('/buyers/board')
+  }
+
+  // Moves go through the same update endpoint as the detail page, so the
+  // pipeline rules, history and the updatedAt conflict check all apply
+  const moveBuyer = async (buyer: BoardBuyer, to: Status, details: Record<string, string> = {}) => {
+    const requirement = STATUS_REQUIREMENTS[to]
+    if (requirement && !details[requirement.field]) {
+      setPending({ buyer, to, value: '' })
+      return
+    }
+
+    setMoving(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/buyers/${buyer.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ status: to, updatedAt: buyer.updatedAt, ...details }),
+      })
+
+      if (response.ok) {
+        setPending(null)
+      } else if (response.status === 401) {
+        router.push('/login')
+        return
+      } else if (response.status === 409) {
+        setPending(null)
+        setError(`${buyer.fullName} was changed by someone else. The board has been refreshed; please try again.`)
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to move lead')
+      }
+      await fetchBoard()
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setMoving(false)
+    }
+  }
+
+  const handlePendingSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!pending) return
+    const requirement = STATUS_REQUIREMENTS[pending.to]
+    if (requirement) {
+      moveBuyer(pending.buyer, pending.to, { [requirement.field]: pending.value })
+    }
+  }
+
+  const canDrop = (status: Status) =>
+    !!dragging && (columns.find(column => column.status === dragging.status)?.nextStatuses ?? []).includes(status)
+
+  const handleDrop = (e: React.DragEvent, status: Status) => {
+    e.preventDefault()
+    if (dragging && canDrop(status)) {
+      moveBuyer(dragging, status)
+    }
+    setDragging(null)
+  }
+
+  const listLink = (status?: Status) => {
+    const params = filterParams()
+    if (status) params.set('status', status)
+    return `/buyers?${params.toString()}`
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Pipeline</h1>
+        <div className="flex space-x-3">
+          <Link
+            href={listLink()}
+            className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            List View
+          </Link>
+          <Link
+            href="/buyers/new"
+            className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            New Lead
+          </Link>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <BuyerFilters
+        search={search}
+        filters={filters}
+        onSearchChange={handleSearchChange}
+        onFilterChange={handleFilterChange}
+        onClear={clearFilters}
+      />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {pending && STATUS_REQUIREMENTS[pending.to] && (
+        <form onSubmit={handlePendingSubmit} className="bg-white p-4 rounded-lg shadow flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[200px]">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {pending.to === 'DROPPED' ? `Why is ${pending.buyer.fullName} being dropped?` : `When did ${pending.buyer.fullName} visit?`}
+            </label>
+            {pending.to === 'VISITED' ? (
+              <input
+                type="date"
+                required
+                value={pending.value}
+                max={new Date().toISOString().slice(0, 10)}
+                onChange={(e) => setPending({ ...pending, value: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            ) : (
+              <input
+                type="text"
+                required
+                minLength={3}
+                maxLength={500}
+                value={pending.value}
+                onChange={(e) => setPending({ ...pending, value: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => setPending(null)}
+            className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={moving}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            Move to {STATUS_LABELS[pending.to]}
+          </button>
+        </form>
+      )}
+
+      {/* Board */}
+      {loading && columns.length === 0 ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-gray-500">Loading pipeline...</div>
+        </div>
+      ) : (
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {columns.map(column => {
+            const droppable = canDrop(column.status)
+            return (
+              <div
+                key={column.status}
+                onDragOver={(e) => droppable && e.preventDefault()}
+                onDrop={(e) => handleDrop(e, column.status)}
+                className={`flex-shrink-0 w-72 bg-gray-100 rounded-lg p-3 ${droppable ? 'ring-2 ring-blue-400' : ''} ${dragging && !droppable && dragging.status !== column.status ? 'opacity-50' : ''}`}
+              >
+                <div className="mb-3">
+                  <div className="flex justify-between items-center">
+                    <h3 className="text-sm font-semibold text-gray-900">{STATUS_LABELS[column.status]}</h3>
+                    <span className="text-xs font-medium text-gray-500 bg-white rounded-full px-2 py-0.5">{column.count}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {column.budgetHigh > 0
+                      ? column.budgetLow === column.budgetHigh
+                        ? formatAmount(column.budgetHigh)
+                        : `${formatAmount(column.budgetLow)} - ${formatAmount(column.budgetHigh)}`
+                      : 'No budgets'}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  {column.buyers.map(buyer => (
+                    <div
+                      key={buyer.id}
+                      draggable={buyer.editable && !moving}
+                      onDragStart={() => setDragging(buyer)}
+                      onDragEnd={() => setDragging(null)}
+                      className={`bg-white rounded-md shadow-sm p-3 ${buyer.editable ? 'cursor-move' : ''}`}
+                    >
+                      <Link href={`/buyers/${buyer.id}`} className="text-sm font-medium text-blue-600 hover:text-blue-500">
+                        {buyer.fullName}
+                      </Link>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {buyer.city} • {buyer.propertyType}
+                      </p>
+                      {(buyer.budgetMin || buyer.budgetMax) && (
+                        <p className="text-xs text-gray-700 mt-1">
+                          {formatAmount(buyer.budgetMin ?? buyer.budgetMax ?? 0)}
+                          {buyer.budgetMin && buyer.budgetMax && buyer.budgetMax !== buyer.budgetMin && ` - ${formatAmount(buyer.budgetMax)}`}
+                        </p>
+                      )}
+                      {buyer.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {buyer.tags.map(tag => (
+                            <span key={tag} className="px-1.5 py-0.5 rounded text-xs bg-blue-100 text-blue-800">{tag}</span>
+                          ))}
+                        </div>
+                      )}
+                      <div className="flex justify-between items-center mt-2">
+                        <span className="text-xs text-gray-400">{buyer.owner.name || buyer.owner.email}</span>
+                        {/* Keyboard and touch alternative to dragging */}
+                        {buyer.editable && column.nextStatuses.length > 0 && (
+                          <select
+                            value=""
+                            disabled={moving}
+                            onChange={(e) => e.target.value && moveBuyer(buyer, e.target.value as Status)}
+                            aria-label={`Move ${buyer.fullName}`}
+                            className="text-xs border-gray-300 rounded py-0.5"
+                          >
+                            <option value="">Move to...</option>
+                            {column.nextStatuses.map(status => (
+                              <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {column.count > column.buyers.length && (
+                  <Link href={listLink(column.status)} className="block mt-3 text-xs text-blue-600 hover:text-blue-500">
+                    View all {column.count} in the list
+                  </Link>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+
+interface DuplicateBuyer {
+  id: string
+  fullName: string
+  email?: string | null
+  phone: string
+  city: string
+  status: string
+  createdAt: string
+  owner: {
+    id: string
+    name?: string | null
+    email: string
+  }
+}
+
+interface DuplicateGroup {
+  buyers: DuplicateBuyer[]
+  reasons: string[]
+}
+
+const REASON_LABELS: Record<string, string> = {
+  phone: 'Same phone',
+  email: 'Same email',
+  name: 'Similar name',
+}
+
+export default function DuplicatesPage() {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const router = useRouter()
+
+  useEffect(() => {
+    const fetchGroups = async () => {
+      try {
+        const response = await fetch('/api/buyers/duplicates')
+        if (response.status === 401) {
+          router.push('/login')
+          return
+        }
+
+        if (response.ok) {
+          const data = await response.json()
+          setGroups(data.groups)
+        } else {
+          const errorData = await response.json()
+          setError(errorData.error || 'Failed to scan for duplicates')
+        }
+      } catch {
+        setError('Network error')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchGroups()
+  }, [])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Scanning for duplicates...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Possible Duplicates</h1>
+          <p className="text-gray-600">
+            Leads sharing a phone number or email, or with very similar names. The oldest lead in each group is listed first.
+          </p>
+        </div>
+        <Link href="/buyers" className="text-blue-600 hover:text-blue-500 text-sm">
+          Back to Buyers
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {!error && groups.length === 0 && (
+        <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6">
+          <p className="text-sm text-gray-500">No duplicates found</p>
+        </div>
+      )}
+
+      {groups.map((group) => {
+        const [original, ...others] = group.buyers
+        return (
+          <div key={original.id} className="bg-white shadow sm:rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex flex-wrap gap-2 mb-4">
+                {group.reasons.map(reason => (
+                  <span
+                    key={reason}
+                    className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+                  >
+                    {REASON_LABELS[reason]}
+                  </span>
+                ))}
+              </div>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Phone</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Email</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Owner</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Created</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {group.buyers.map((buyer) => (
+                    <tr key={buyer.id}>
+                      <td className="px-3 py-2 text-sm text-gray-900">
+                        <Link href={`/buyers/${buyer.id}`} className="text-blue-600 hover:text-blue-500">
+                          {buyer.fullName}
+                        </Link>
+                      </td>
+                      <td className="px-3 py-2 text-sm text-gray-600">{buyer.phone}</td>
+                      <td className="px-3 py-2 text-sm text-gray-600">{buyer.email || '-'}</td>
+                      <td className="px-3 py-2 text-sm text-gray-600">{buyer.owner.name || buyer.owner.email}</td>
+                      <td className="px-3 py-2 text-sm text-gray-600">{new Date(buyer.createdAt).toLocaleDateString()}</td>
+                      <td className="px-3 py-2 text-sm text-right">
+                        {others.includes(buyer) && (
+                          <Link
+                            href={`/buyers/merge?survivor=${original.id}&duplicate=${buyer.id}`}
+                            className="text-blue-600 hover:text-blue-500"
+                          >
+                            Merge into first
+                          </Link>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
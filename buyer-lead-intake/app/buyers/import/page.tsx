@@ -1,46 +1,311 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
 import { useRouter } from 'next/navigation'
+import type { FieldChange, ImportRowResult } from '@/lib/import'
+import { IMPORT_FIELD_LABELS, MAX_IMPORT_BYTES, applyPreset, importFileType, mapRow, mappingErrors } from '@/lib/import-mapping'
+import { IMPORT_FIELDS, MAX_IMPORT_ROWS, REQUIRED_IMPORT_FIELDS, type ImportField, type ImportMapping, type ImportMode, type ImportRow } from '@/lib/validation'
+
+type Step = 'upload' | 'map' | 'review' | 'done' | 'job'
+
+interface Preset {
+  id: string
+  name: string
+  mapping: ImportMapping
+}
+
+interface ImportJob {
+  id: string
+  fileName: string
+  mode: ImportMode
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED'
+  totalRows: number
+  processedRows: number
+  importedCount: number
+  updatedCount: number
+  failedCount: number
+  error: string | null
+  createdAt: string
+}
+
+const JOB_POLL_INTERVAL_MS = 2000
+
+interface ImportSummary {
+  count: number
+  updated: number
+  skipped: number
+}
+
+function isJobActive(job: ImportJob): boolean {
+  return job.status === 'QUEUED' || job.status === 'RUNNING'
+}
+
+function isImportField(field: string | null): field is ImportField {
+  return IMPORT_FIELDS.includes(field as ImportField)
+}
+
+function formatChangeValue(value: FieldChange['old']): string {
+  if (value === null || value === undefined || value === '') return '(empty)'
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(none)'
+  return String(value)
+}
 
 export default function ImportPage() {
+  const [step, setStep] = useState<Step>('upload')
   const [file, setFile] = useState<File | null>(null)
+  const [headers, setHeaders] = useState<string[]>([])
+  const [sourceRows, setSourceRows] = useState<Record<string, string>[]>([])
+  const [totalRows, setTotalRows] = useState(0)
+  const [mapping, setMapping] = useState<ImportMapping>({})
+  const [mode, setMode] = useState<ImportMode>('CREATE')
+  const [formatVersion, setFormatVersion] = useState<number | null>(null)
+  // Worksheets of an Excel upload and the one being imported
+  const [sheets, setSheets] = useState<string[]>([])
+  const [sheet, setSheet] = useState('')
+  const [presets, setPresets] = useState<Preset[]>([])
+  const [presetName, setPresetName] = useState('')
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [results, setResults] = useState<ImportRowResult[]>([])
+  const [summary, setSummary] = useState<ImportSummary | null>(null)
+  const [job, setJob] = useState<ImportJob | null>(null)
+  const [recentJobs, setRecentJobs] = useState<ImportJob[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
-  const [success, setSuccess] = useState('')
-  const [importErrors, setImportErrors] = useState<string[]>([])
   const router = useRouter()
 
+  useEffect(() => {
+    fetchPresets()
+    fetchJobs()
+  }, [])
+
+  // Poll a background import until it finishes
+  useEffect(() => {
+    if (!job || !isJobActive(job)) return
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/buyers/import/jobs/${job.id}`, { credentials: 'include' })
+        if (response.ok) {
+          setJob(await response.json())
+        }
+      } catch {
+        // Try again on the next tick
+        setJob({ ...job })
+      }
+    }, JOB_POLL_INTERVAL_MS)
+
+    return () => clearTimeout(timer)
+  }, [job])
+
+  const fetchJobs = async () => {
+    try {
+      const response = await fetch('/api/buyers/import/jobs', { credentials: 'include' })
+      if (response.ok) {
+        const data = await response.json()
+        setRecentJobs(data.jobs)
+      }
+    } catch {
+      // The list of earlier imports is informational only
+    }
+  }
+
+  const fetchPresets = async () => {
+    try {
+      const response = await fetch('/api/import-mappings', { credentials: 'include' })
+      if (response.ok) {
+        const data = await response.json()
+        setPresets(data.presets)
+      }
+    } catch {
+      // Presets are optional; mapping still works without them
+    }
+  }
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0]
     if (selectedFile) {
-      if (selectedFile.type !== 'text/csv' && !selectedFile.name.endsWith('.csv')) {
-        setError('Please select a CSV file')
+      if (!importFileType(selectedFile)) {
+        setError('Please select a CSV or Excel (.xlsx) file')
         return
       }
-      if (selectedFile.size > 5 * 1024 * 1024) {
-        setError('File size must be less than 5MB')
+      if (selectedFile.size > MAX_IMPORT_BYTES) {
+        setError('File size must be less than 50MB')
         return
       }
       setFile(selectedFile)
+      setSheets([])
+      setSheet('')
       setError('')
     }
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const previewFile = async (sheetName?: string) => {
+    if (!file) return
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      if (sheetName) {
+        formData.append('sheet', sheetName)
+      }
+
+      const response = await fetch('/api/buyers/import/preview', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setHeaders(data.headers)
+        setSourceRows(data.rows)
+        setTotalRows(data.totalRows)
+        setMapping(data.suggestedMapping)
+        setFormatVersion(data.formatVersion)
+        setSheets(data.sheets ?? [])
+        setSheet(data.sheet ?? '')
+        // Re-importing an export updates the leads it came from instead of duplicating them
+        if (data.formatVersion) {
+          setMode('UPSERT')
+        }
+        setStep('map')
+      } else {
+        // An empty sheet can still be swapped for another one
+        if (Array.isArray(data.sheets)) {
+          setSheets(data.sheets)
+          setSheet(sheetName ?? data.sheets[0] ?? '')
+        }
+        setError(data.error || 'Failed to read file')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleUpload = (e: React.FormEvent) => {
     e.preventDefault()
+    previewFile(sheet || undefined)
+  }
+
+  const setFieldColumn = (field: ImportField, header: string) => {
+    setMapping(current => {
+      const next = { ...current }
+      if (header) {
+        next[field] = header
+      } else {
+        delete next[field]
+      }
+      return next
+    })
+  }
+
+  const handleApplyPreset = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId)
+    if (preset) {
+      setMapping(applyPreset(preset.mapping, headers))
+      setPresetName(preset.name)
+    }
+  }
+
+  const handleSavePreset = async () => {
+    setError('')
+    try {
+      const response = await fetch('/api/import-mappings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ name: presetName, mapping })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        fetchPresets()
+      } else {
+        setError(data.error || 'Failed to save mapping')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    }
+  }
+
+  const handleDeletePreset = async (preset: Preset) => {
+    if (!confirm(`Delete the "${preset.name}" mapping?`)) return
+
+    try {
+      const response = await fetch(`/api/import-mappings/${preset.id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      })
+
+      if (response.ok) {
+        fetchPresets()
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to delete mapping')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    }
+  }
+
+  const validateRows = async (rowsToCheck: ImportRow[]) => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/buyers/import/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ rows: rowsToCheck, mode })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setResults(data.rows)
+        setStep('review')
+      } else {
+        setError(data.error || 'Failed to check rows')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handlePreview = () => {
+    const mappedRows = sourceRows.map(row => mapRow(row, mapping))
+    setRows(mappedRows)
+    validateRows(mappedRows)
+  }
+
+  const handleStartJob = async () => {
     if (!file) return
 
     setLoading(true)
     setError('')
-    setSuccess('')
-    setImportErrors([])
 
     try {
+      // The file goes last: the server streams it to disk once it has the other fields
       const formData = new FormData()
+      formData.append('mapping', JSON.stringify(mapping))
+      formData.append('mode', mode)
+      if (sheet) {
+        formData.append('sheet', sheet)
+      }
       formData.append('file', file)
 
-      const response = await fetch('/api/buyers/import', {
+      const response = await fetch('/api/buyers/import/jobs', {
         method: 'POST',
         body: formData,
         credentials: 'include'
@@ -49,31 +314,81 @@ export default function ImportPage() {
       const data = await response.json()
 
       if (response.ok) {
-        setSuccess(`Successfully imported ${data.count} buyers`)
-        setFile(null)
-        // Reset file input
-        const fileInput = document.getElementById('csv-file') as HTMLInputElement
-        if (fileInput) fileInput.value = ''
+        setJob(data)
+        setStep('job')
+      } else {
+        setError(data.error || 'Failed to start import')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const viewJob = (selectedJob: ImportJob) => {
+    setJob(selectedJob)
+    setStep('job')
+  }
+
+  const updateCell = (index: number, field: ImportField, value: string) => {
+    setRows(current => current.map((row, i) => (i === index ? { ...row, [field]: value } : row)))
+  }
+
+  const handleImport = async () => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/buyers/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ rows, skipInvalid: true, fileName: file?.name, mode })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setSummary({ count: data.count, updated: data.updated.length, skipped: data.skipped.length + data.failed.length })
+        setStep('done')
       } else {
-        if (data.errors && Array.isArray(data.errors)) {
-          setImportErrors(data.errors)
-          setError(`Import failed: ${data.validCount} valid rows, ${data.invalidCount} invalid rows`)
-        } else {
-          setError(data.error || 'Import failed')
+        if (Array.isArray(data.rows)) {
+          setResults(data.rows)
         }
+        setError(data.error || 'Import failed')
       }
-    } catch (err) {
+    } catch {
       setError('Network error. Please try again.')
     } finally {
       setLoading(false)
     }
   }
 
+  const startOver = () => {
+    setStep('upload')
+    setFile(null)
+    setHeaders([])
+    setSourceRows([])
+    setTotalRows(0)
+    setMapping({})
+    setMode('CREATE')
+    setFormatVersion(null)
+    setSheets([])
+    setSheet('')
+    setRows([])
+    setResults([])
+    setSummary(null)
+    setJob(null)
+    setError('')
+    fetchJobs()
+  }
+
   const downloadSample = () => {
     const csvContent = `fullName,email,phone,city,propertyType,bhk,purpose,budgetMin,budgetMax,timeline,source,notes,tags
 John Doe,john.doe@example.com,9876543210,CHANDIGARH,APARTMENT,TWO,BUY,5000000,8000000,ZERO_TO_THREE_MONTHS,WEBSITE,"Looking for a 2 BHK apartment in Chandigarh","urgent,family"
 Jane Smith,jane.smith@example.com,9876543211,MOHALI,VILLA,THREE,RENT,45000,60000,THREE_TO_SIX_MONTHS,REFERRAL,"Looking for a villa for rent with parking","referral,villa"
-Amit Kumar,9876543212,ZIRAKPUR,PLOT,,BUY,3000000,5000000,MORE_THAN_SIX_MONTHS,WALK_IN,"Interested in buying a plot for investment","investment,plot"`
+Amit Kumar,,9876543212,ZIRAKPUR,PLOT,,BUY,3000000,5000000,MORE_THAN_SIX_MONTHS,WALK_IN,"Interested in buying a plot for investment","investment,plot"`
 
     const blob = new Blob([csvContent], { type: 'text/csv' })
     const url = window.URL.createObjectURL(blob)
@@ -86,128 +401,584 @@ Amit Kumar,9876543212,ZIRAKPUR,PLOT,,BUY,3000000,5000000,MORE_THAN_SIX_MONTHS,WA
     document.body.removeChild(a)
   }
 
+  const errorsForMapping = mappingErrors(mapping)
+  // Files over the preview limit skip the row-by-row review
+  const runsInBackground = totalRows > sourceRows.length
+  const validCount = results.filter(result => result.valid).length
+  const updateCount = results.filter(result => result.action === 'update').length
+  const unchangedCount = results.filter(result => result.action === 'unchanged').length
+  const importCount = validCount - unchangedCount
+  const invalidCount = results.length - validCount
+  const duplicateCount = results.filter(result => result.duplicates.length > 0).length
+  const coercedCount = results.filter(result => result.coercions.length > 0).length
+
+  const sheetPicker = (
+    <div>
+      <label htmlFor="sheet" className="block text-sm font-medium text-gray-700">
+        Sheet
+      </label>
+      <select
+        id="sheet"
+        value={sheet}
+        onChange={(e) => {
+          setSheet(e.target.value)
+          previewFile(e.target.value)
+        }}
+        disabled={loading}
+        className="mt-1 block border border-gray-300 rounded-md px-3 py-2 text-sm"
+      >
+        {sheets.map(name => (
+          <option key={name} value={name}>{name}</option>
+        ))}
+      </select>
+    </div>
+  )
+
   return (
-    <div className="max-w-3xl mx-auto">
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold text-gray-900">Import Buyers</h1>
-        <p className="text-gray-600">Import buyer leads from a CSV file</p>
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-6 flex justify-between items-start">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Import Buyers</h1>
+          <p className="text-gray-600">
+            {step === 'upload' && 'Import buyer leads from a CSV or Excel file'}
+            {step === 'map' && `Match the columns of ${file?.name} to buyer fields`}
+            {step === 'review' && 'Review each row, fix errors inline, then import the valid rows'}
+            {step === 'done' && 'Import complete'}
+            {step === 'job' && job && `Importing ${job.fileName} in the background`}
+          </p>
+        </div>
+        <Link href="/buyers/imports" className="text-blue-600 hover:text-blue-500 text-sm">
+          Import History
+        </Link>
       </div>
 
-      <div className="bg-white shadow sm:rounded-lg">
-        <div className="px-4 py-5 sm:p-6">
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label htmlFor="csv-file" className="block text-sm font-medium text-gray-700">
-                CSV File
-              </label>
-              <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-300 border-dashed rounded-md hover:border-gray-400">
-                <div className="space-y-1 text-center">
-                  <svg
-                    className="mx-auto h-12 w-12 text-gray-400"
-                    stroke="currentColor"
-                    fill="none"
-                    viewBox="0 0 48 48"
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {step === 'upload' && (
+        <>
+          <div className="bg-white shadow sm:rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <form onSubmit={handleUpload} className="space-y-6">
+                <div>
+                  <label htmlFor="csv-file" className="block text-sm font-medium text-gray-700">
+                    CSV or Excel File
+                  </label>
+                  <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-300 border-dashed rounded-md hover:border-gray-400">
+                    <div className="space-y-1 text-center">
+                      <svg
+                        className="mx-auto h-12 w-12 text-gray-400"
+                        stroke="currentColor"
+                        fill="none"
+                        viewBox="0 0 48 48"
+                      >
+                        <path
+                          d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02"
+                          strokeWidth={2}
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                        />
+                      </svg>
+                      <div className="flex text-sm text-gray-600">
+                        <label
+                          htmlFor="csv-file"
+                          className="relative cursor-pointer bg-white rounded-md font-medium text-blue-600 hover:text-blue-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-blue-500"
+                        >
+                          <span>Upload a file</span>
+                          <input
+                            id="csv-file"
+                            name="csv-file"
+                            type="file"
+                            accept=".csv,.xlsx"
+                            onChange={handleFileChange}
+                            className="sr-only"
+                          />
+                        </label>
+                        <p className="pl-1">or drag and drop</p>
+                      </div>
+                      <p className="text-xs text-gray-500">CSV or Excel (.xlsx), max 50MB</p>
+                    </div>
+                  </div>
+                  {file && (
+                    <p className="mt-2 text-sm text-gray-600">
+                      Selected: {file.name} ({(file.size / 1024).toFixed(1)} KB)
+                    </p>
+                  )}
+                </div>
+
+                {sheets.length > 1 && sheetPicker}
+
+                <div className="flex justify-between">
+                  <button
+                    type="button"
+                    onClick={downloadSample}
+                    className="bg-gray-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-700"
                   >
-                    <path
-                      d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02"
-                      strokeWidth={2}
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                    />
-                  </svg>
-                  <div className="flex text-sm text-gray-600">
-                    <label
-                      htmlFor="csv-file"
-                      className="relative cursor-pointer bg-white rounded-md font-medium text-blue-600 hover:text-blue-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-blue-500"
+                    Download Sample CSV
+                  </button>
+                  <div className="flex space-x-3">
+                    <button
+                      type="button"
+                      onClick={() => router.back()}
+                      className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
                     >
-                      <span>Upload a CSV file</span>
-                      <input
-                        id="csv-file"
-                        name="csv-file"
-                        type="file"
-                        accept=".csv"
-                        onChange={handleFileChange}
-                        className="sr-only"
-                      />
-                    </label>
-                    <p className="pl-1">or drag and drop</p>
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={!file || loading}
+                      className="bg-blue-600 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {loading ? 'Reading...' : 'Next: Map Columns'}
+                    </button>
                   </div>
-                  <p className="text-xs text-gray-500">CSV files only, max 5MB, 200 rows</p>
                 </div>
+              </form>
+            </div>
+          </div>
+
+          <div className="mt-6 bg-blue-50 border border-blue-200 rounded-md p-4">
+            <h3 className="text-sm font-medium text-blue-800 mb-2">File Format Requirements:</h3>
+            <ul className="text-sm text-blue-700 space-y-1">
+              <li>• The first row must hold column headers; you match them to buyer fields in the next step</li>
+              <li>• Email is optional, phone is required; a +91 or 0 prefix is removed</li>
+              <li>• BHK is required for APARTMENT and VILLA property types only</li>
+              <li>• Common spellings are understood, e.g. &ldquo;3BHK&rdquo;, &ldquo;0-3 months&rdquo;, &ldquo;Walk-in&rdquo;, &ldquo;flat&rdquo;</li>
+              <li>• Budgets may be plain numbers or use lakh/crore, e.g. &ldquo;₹50L&rdquo; or &ldquo;1.2 Cr&rdquo;</li>
+              <li>• Tags should be comma-separated</li>
+              <li>• Files up to {MAX_IMPORT_ROWS} rows are reviewed row by row; larger files are imported in the background</li>
+              <li>• File size limit: 50MB</li>
+            </ul>
+          </div>
+
+          {recentJobs.length > 0 && (
+            <div className="mt-6 bg-white shadow sm:rounded-lg">
+              <div className="px-4 py-5 sm:p-6">
+                <h3 className="text-sm font-medium text-gray-900 mb-3">Background Imports</h3>
+                <ul className="divide-y divide-gray-200 text-sm">
+                  {recentJobs.map(recentJob => (
+                    <li key={recentJob.id} className="py-2 flex items-center justify-between gap-4">
+                      <div>
+                        <p className="font-medium text-gray-900">{recentJob.fileName}</p>
+                        <p className="text-gray-500">
+                          {new Date(recentJob.createdAt).toLocaleString()} · {recentJob.status.toLowerCase()} ·{' '}
+                          {recentJob.importedCount} imported, {recentJob.mode === 'UPSERT' && `${recentJob.updatedCount} updated, `}{recentJob.failedCount} failed
+                        </p>
+                      </div>
+                      <div className="flex space-x-3">
+                        {recentJob.failedCount > 0 && !isJobActive(recentJob) && (
+                          <a href={`/api/buyers/import/jobs/${recentJob.id}/errors`} className="text-blue-600 hover:text-blue-500">
+                            Error Report
+                          </a>
+                        )}
+                        {isJobActive(recentJob) && (
+                          <button type="button" onClick={() => viewJob(recentJob)} className="text-blue-600 hover:text-blue-500">
+                            View Progress
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
               </div>
-              {file && (
-                <p className="mt-2 text-sm text-gray-600">
-                  Selected: {file.name} ({(file.size / 1024).toFixed(1)} KB)
-                </p>
+            </div>
+          )}
+        </>
+      )}
+
+      {step === 'map' && (
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6 space-y-6">
+            <div className="flex flex-wrap items-end gap-3">
+              {presets.length > 0 && (
+                <div>
+                  <label htmlFor="preset" className="block text-sm font-medium text-gray-700">
+                    Saved Mapping
+                  </label>
+                  <select
+                    id="preset"
+                    defaultValue=""
+                    onChange={(e) => handleApplyPreset(e.target.value)}
+                    className="mt-1 block border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  >
+                    <option value="" disabled>Apply a saved mapping</option>
+                    {presets.map(preset => (
+                      <option key={preset.id} value={preset.id}>{preset.name}</option>
+                    ))}
+                  </select>
+                </div>
               )}
+              <div>
+                <label htmlFor="preset-name" className="block text-sm font-medium text-gray-700">
+                  Save As
+                </label>
+                <input
+                  id="preset-name"
+                  type="text"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder="e.g. Portal export"
+                  className="mt-1 block border border-gray-300 rounded-md px-3 py-2 text-sm"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={handleSavePreset}
+                disabled={!presetName.trim()}
+                className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Save Mapping
+              </button>
             </div>
 
-            {error && (
-              <div className="bg-red-50 border border-red-200 rounded-md p-4">
-                <p className="text-sm text-red-600">{error}</p>
+            {presets.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {presets.map(preset => (
+                  <span key={preset.id} className="inline-flex items-center rounded-full bg-gray-100 px-3 py-1 text-xs text-gray-700">
+                    {preset.name}
+                    <button
+                      type="button"
+                      onClick={() => handleDeletePreset(preset)}
+                      className="ml-2 text-gray-400 hover:text-red-600"
+                      aria-label={`Delete ${preset.name}`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
               </div>
             )}
 
-            {success && (
-              <div className="bg-green-50 border border-green-200 rounded-md p-4">
-                <p className="text-sm text-green-600">{success}</p>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field}>
+                  <label htmlFor={`map-${field}`} className="block text-sm font-medium text-gray-700">
+                    {IMPORT_FIELD_LABELS[field]}
+                    {(REQUIRED_IMPORT_FIELDS as readonly string[]).includes(field) && <span className="text-red-500"> *</span>}
+                  </label>
+                  <select
+                    id={`map-${field}`}
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => setFieldColumn(field, e.target.value)}
+                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  >
+                    <option value="">Not imported</option>
+                    {headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                  {mapping[field] && sourceRows[0]?.[mapping[field]] && (
+                    <p className="mt-1 text-xs text-gray-500 truncate">e.g. {sourceRows[0][mapping[field]]}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {sheets.length > 1 && sheetPicker}
+
+            {formatVersion && (
+              <p className="text-sm text-gray-600">
+                This file is a buyer export (format v{formatVersion}); its columns are mapped automatically. Keep
+                &quot;Update existing leads&quot; selected so each row updates the lead it came from: new leads start
+                as NEW, so creating them from an export fails every row with a later status.
+              </p>
+            )}
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700">Existing Leads</legend>
+              <div className="mt-2 space-y-2 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="mode"
+                    value="CREATE"
+                    checked={mode === 'CREATE'}
+                    onChange={() => setMode('CREATE')}
+                  />
+                  Create a new lead for every row
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="mode"
+                    value="UPSERT"
+                    checked={mode === 'UPSERT'}
+                    onChange={() => setMode('UPSERT')}
+                  />
+                  Update existing leads matched by Buyer ID, phone or email; create the rest
+                </label>
               </div>
+            </fieldset>
+
+            {runsInBackground && (
+              <p className="text-sm text-gray-600">
+                This file has {totalRows} rows, more than the {MAX_IMPORT_ROWS} that can be reviewed here. It will be
+                imported in the background: valid rows are saved and the rest are listed in a downloadable error report.
+              </p>
             )}
 
-            {importErrors.length > 0 && (
+            {errorsForMapping.length > 0 && (
               <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
-                <h4 className="text-sm font-medium text-yellow-800 mb-2">Import Errors:</h4>
-                <div className="max-h-48 overflow-y-auto">
-                  <ul className="text-sm text-yellow-700 space-y-1">
-                    {importErrors.map((error, index) => (
-                      <li key={index}>• {error}</li>
-                    ))}
-                  </ul>
-                </div>
+                <ul className="text-sm text-yellow-700 space-y-1">
+                  {errorsForMapping.map(message => (
+                    <li key={message}>• {message}</li>
+                  ))}
+                </ul>
               </div>
             )}
 
             <div className="flex justify-between">
               <button
                 type="button"
-                onClick={downloadSample}
-                className="bg-gray-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-700"
+                onClick={startOver}
+                className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Choose Another File
+              </button>
+              {runsInBackground ? (
+                <button
+                  type="button"
+                  onClick={handleStartJob}
+                  disabled={errorsForMapping.length > 0 || loading}
+                  className="bg-blue-600 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {loading ? 'Uploading...' : `Import ${totalRows} Rows in the Background`}
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handlePreview}
+                  disabled={errorsForMapping.length > 0 || loading}
+                  className="bg-blue-600 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {loading ? 'Checking...' : `Preview ${sourceRows.length} Rows`}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {step === 'review' && (
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6 space-y-4">
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span className="text-green-700">{validCount} valid</span>
+              <span className="text-red-700">{invalidCount} with errors</span>
+              {mode === 'UPSERT' && (
+                <span className="text-blue-700">{updateCount} to update, {unchangedCount} unchanged</span>
+              )}
+              {coercedCount > 0 && (
+                <span className="text-gray-600">{coercedCount} with values converted</span>
+              )}
+              {duplicateCount > 0 && (
+                <span className="text-yellow-700">
+                  {duplicateCount} possible duplicates (<Link href="/buyers/duplicates" className="underline">review later</Link>)
+                </span>
+              )}
+            </div>
+
+            <div className="max-h-[32rem] overflow-y-auto border border-gray-200 rounded-md">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Row</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Name</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Phone</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {results.map((result, index) => (
+                    <tr key={result.row} className={result.valid ? '' : 'bg-red-50'}>
+                      <td className="px-3 py-2 align-top text-gray-500">{result.row}</td>
+                      <td className="px-3 py-2 align-top">{rows[index]?.fullName || '—'}</td>
+                      <td className="px-3 py-2 align-top">{rows[index]?.phone || '—'}</td>
+                      <td className="px-3 py-2 align-top">
+                        {result.valid ? (
+                          <>
+                            {result.action === 'update' ? (
+                              <span className="text-blue-700">Update</span>
+                            ) : result.action === 'unchanged' ? (
+                              <span className="text-gray-500">No changes</span>
+                            ) : (
+                              <span className="text-green-700">{mode === 'UPSERT' ? 'New' : 'Ready'}</span>
+                            )}
+                            {result.changes && Object.keys(result.changes).length > 0 && (
+                              <ul className="mt-1 text-xs text-gray-600">
+                                {Object.entries(result.changes).map(([field, change]) => (
+                                  <li key={field}>
+                                    {isImportField(field) ? IMPORT_FIELD_LABELS[field] : field}: {formatChangeValue(change.old)} → {formatChangeValue(change.new)}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            {result.duplicates.length > 0 && (
+                              <p className="text-xs text-yellow-700">Possible duplicate of {result.duplicates.join(', ')}</p>
+                            )}
+                          </>
+                        ) : (
+                          <div className="space-y-2">
+                            {result.errors.map((issue, issueIndex) => (
+                              <div key={issueIndex}>
+                                <p className="text-xs text-red-700">
+                                  {isImportField(issue.field) ? `${IMPORT_FIELD_LABELS[issue.field]}: ` : ''}{issue.message}
+                                </p>
+                                {isImportField(issue.field) && (
+                                  <input
+                                    type="text"
+                                    value={rows[index]?.[issue.field] ?? ''}
+                                    onChange={(e) => updateCell(index, issue.field as ImportField, e.target.value)}
+                                    aria-label={`Row ${result.row} ${IMPORT_FIELD_LABELS[issue.field]}`}
+                                    className="mt-1 block w-full border border-gray-300 rounded-md px-2 py-1 text-xs"
+                                  />
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {result.coercions.length > 0 && (
+                          <ul className="mt-1 text-xs text-gray-500">
+                            {result.coercions.map(coercion => (
+                              <li key={coercion.field}>
+                                {IMPORT_FIELD_LABELS[coercion.field]}: &ldquo;{coercion.from}&rdquo; read as {coercion.to}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-between">
+              <button
+                type="button"
+                onClick={() => setStep('map')}
+                className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
               >
-                Download Sample CSV
+                Back to Mapping
               </button>
               <div className="flex space-x-3">
                 <button
                   type="button"
-                  onClick={() => router.back()}
-                  className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+                  onClick={() => validateRows(rows)}
+                  disabled={loading}
+                  className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
                 >
-                  Cancel
+                  Re-check Rows
                 </button>
                 <button
-                  type="submit"
-                  disabled={!file || loading}
+                  type="button"
+                  onClick={handleImport}
+                  disabled={importCount === 0 || loading}
                   className="bg-blue-600 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
                 >
-                  {loading ? 'Importing...' : 'Import Buyers'}
+                  {loading ? 'Importing...' : `Import ${importCount} Valid Rows`}
                 </button>
               </div>
             </div>
-          </form>
+          </div>
         </div>
-      </div>
+      )}
 
-      <div className="mt-6 bg-blue-50 border border-blue-200 rounded-md p-4">
-        <h3 className="text-sm font-medium text-blue-800 mb-2">CSV Format Requirements:</h3>
-        <ul className="text-sm text-blue-700 space-y-1">
-          <li>• Headers must match exactly: fullName, email, phone, city, propertyType, bhk, purpose, budgetMin, budgetMax, timeline, source, notes, tags</li>
-          <li>• Email is optional, phone is required</li>
-          <li>• BHK is required for APARTMENT and VILLA property types only</li>
-          <li>• Budget values should be numbers only</li>
-          <li>• Tags should be comma-separated</li>
-          <li>• Maximum 200 rows per import</li>
-          <li>• File size limit: 5MB</li>
-        </ul>
-      </div>
+      {step === 'done' && summary && (
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6 space-y-4">
+            <div className="bg-green-50 border border-green-200 rounded-md p-4">
+              <p className="text-sm text-green-600">
+                Successfully imported {summary.count} buyers
+                {summary.updated > 0 && ` and updated ${summary.updated}`}
+                {summary.skipped > 0 && `; ${summary.skipped} rows with errors were skipped`}
+              </p>
+            </div>
+            <div className="flex space-x-3">
+              <Link
+                href="/buyers"
+                className="bg-blue-600 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white hover:bg-blue-700"
+              >
+                View Buyers
+              </Link>
+              <button
+                type="button"
+                onClick={startOver}
+                className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Import Another File
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {step === 'job' && job && (
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6 space-y-4">
+            <div>
+              <div className="flex justify-between text-sm text-gray-700 mb-1">
+                <span>
+                  {job.status === 'QUEUED' && 'Waiting to start...'}
+                  {job.status === 'RUNNING' && `Processed ${job.processedRows} of ${job.totalRows} rows`}
+                  {job.status === 'COMPLETED' && 'Import complete'}
+                  {job.status === 'FAILED' && 'Import stopped'}
+                </span>
+                <span>{job.totalRows > 0 ? Math.round((job.processedRows / job.totalRows) * 100) : 100}%</span>
+              </div>
+              <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${job.status === 'FAILED' ? 'bg-red-500' : 'bg-blue-600'}`}
+                  style={{ width: `${job.totalRows > 0 ? (job.processedRows / job.totalRows) * 100 : 100}%` }}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-4 text-sm">
+              <span className="text-green-700">{job.importedCount} imported</span>
+              {job.mode === 'UPSERT' && <span className="text-blue-700">{job.updatedCount} updated</span>}
+              <span className="text-red-700">{job.failedCount} failed</span>
+            </div>
+
+            {job.error && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                <p className="text-sm text-red-600">{job.error}</p>
+              </div>
+            )}
+
+            {isJobActive(job) && (
+              <p className="text-sm text-gray-500">You can leave this page; the import keeps running.</p>
+            )}
+
+            <div className="flex space-x-3">
+              {job.failedCount > 0 && !isJobActive(job) && (
+                <a
+                  href={`/api/buyers/import/jobs/${job.id}/errors`}
+                  className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Download Error Report
+                </a>
+              )}
+              <Link
+                href="/buyers"
+                className="bg-blue-600 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white hover:bg-blue-700"
+              >
+                View Buyers
+              </Link>
+              <button
+                type="button"
+                onClick={startOver}
+                className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Import Another File
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
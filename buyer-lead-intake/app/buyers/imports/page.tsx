@@ -0,0 +1,192 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+
+interface ImportBatch {
+  id: string
+  fileName: string
+  totalRows: number
+  importedCount: number
+  updatedCount: number
+  skippedCount: number
+  createdAt: string
+  rolledBackAt: string | null
+  removedCount: number
+  keptCount: number
+  revertedCount: number
+  owner: {
+    id: string
+    name?: string | null
+    email: string
+  }
+  job: {
+    id: string
+    status: string
+  } | null
+  canRollback: boolean
+}
+
+export default function ImportHistoryPage() {
+  const [batches, setBatches] = useState<ImportBatch[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const router = useRouter()
+
+  const fetchBatches = async () => {
+    try {
+      const response = await fetch('/api/buyers/imports')
+      if (response.ok) {
+        const data = await response.json()
+        setBatches(data.batches)
+      } else if (response.status === 401) {
+        router.push('/login')
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to load imports')
+      }
+    } catch {
+      setError('Network error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchBatches()
+  }, [])
+
+  const handleRollback = async (batch: ImportBatch) => {
+    const updates = batch.updatedCount > 0
+      ? ` Its updates to ${batch.updatedCount} existing leads will be reverted, except on leads changed since.`
+      : ''
+    if (!confirm(`Roll back ${batch.fileName}? Its ${batch.importedCount} leads will be moved to the trash, except leads that have been edited or worked on since the import.${updates}`)) {
+      return
+    }
+
+    setBusy(true)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch(`/api/buyers/imports/${batch.id}/rollback`, { method: 'POST' })
+      const data = await response.json()
+      if (response.ok) {
+        setMessage(data.message)
+        await fetchBatches()
+      } else {
+        setError(data.error || 'Failed to roll back import')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading imports...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Import History</h1>
+          <p className="text-gray-600">
+            Rolling back an import moves the leads it created to the trash, where they can still be restored, and reverts its updates to existing leads that have not changed since.
+          </p>
+        </div>
+        <div className="flex space-x-4 text-sm">
+          <Link href="/buyers/import" className="text-blue-600 hover:text-blue-500">
+            New Import
+          </Link>
+          <Link href="/buyers" className="text-blue-600 hover:text-blue-500">
+            Back to Buyers
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      {batches.length === 0 ? (
+        <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6">
+          <p className="text-sm text-gray-500">No imports yet.</p>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Imported By</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rows</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {batches.map(batch => (
+                <tr key={batch.id}>
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{batch.fileName}</div>
+                    <div className="text-sm text-gray-500">{new Date(batch.createdAt).toLocaleString()}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{batch.owner.name || batch.owner.email}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    <div>{batch.importedCount} imported of {batch.totalRows}</div>
+                    {batch.updatedCount > 0 && <div className="text-xs">{batch.updatedCount} existing leads updated</div>}
+                    {batch.skippedCount > 0 && <div className="text-xs">{batch.skippedCount} skipped</div>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {batch.rolledBackAt ? (
+                      <>
+                        <div className="text-red-700">Rolled back {new Date(batch.rolledBackAt).toLocaleDateString()}</div>
+                        <div className="text-xs">
+                          {batch.removedCount} moved to trash{batch.keptCount > 0 && `, ${batch.keptCount} kept`}
+                          {batch.updatedCount > 0 && `, ${batch.revertedCount} of ${batch.updatedCount} updates reverted`}
+                        </div>
+                      </>
+                    ) : batch.job && (batch.job.status === 'QUEUED' || batch.job.status === 'RUNNING') ? (
+                      <span>Importing...</span>
+                    ) : (
+                      <span className="text-green-700">Imported</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm font-medium whitespace-nowrap">
+                    {batch.canRollback && (
+                      <button
+                        onClick={() => handleRollback(batch)}
+                        disabled={busy}
+                        className="text-red-600 hover:text-red-500 disabled:opacity-50"
+                      >
+                        Roll Back
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
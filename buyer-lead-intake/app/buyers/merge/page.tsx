@@ -0,0 +1,238 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { MERGE_FIELDS, type MergeField } from '@/lib/validation'
+
+type Side = 'survivor' | 'duplicate'
+
+interface Buyer extends Record<MergeField, string | number | null | undefined> {
+  id: string
+  tags: string[]
+  updatedAt: string
+  createdAt: string
+  owner: {
+    id: string
+    name?: string | null
+    email: string
+  }
+}
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  fullName: 'Full Name',
+  email: 'Email',
+  phone: 'Phone',
+  city: 'City',
+  propertyType: 'Property Type',
+  bhk: 'BHK',
+  purpose: 'Purpose',
+  budgetMin: 'Budget Min',
+  budgetMax: 'Budget Max',
+  timeline: 'Timeline',
+  source: 'Source',
+  status: 'Status',
+  notes: 'Notes',
+}
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === ''
+
+const formatValue = (value: unknown) => {
+  if (isEmpty(value)) return '—'
+  if (typeof value === 'number') return value.toLocaleString()
+  return String(value)
+}
+
+export default function MergeBuyersPage() {
+  const searchParams = useSearchParams()
+  const [survivorId, setSurvivorId] = useState(searchParams.get('survivor') || '')
+  const [duplicateId, setDuplicateId] = useState(searchParams.get('duplicate') || '')
+  const [buyers, setBuyers] = useState<Record<string, Buyer>>({})
+  const [choices, setChoices] = useState<Partial<Record<MergeField, Side>>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const router = useRouter()
+
+  useEffect(() => {
+    const fetchBuyers = async () => {
+      try {
+        const responses = await Promise.all([
+          fetch(`/api/buyers/${survivorId}`),
+          fetch(`/api/buyers/${duplicateId}`),
+        ])
+
+        if (responses.some(response => response.status === 401)) {
+          router.push('/login')
+          return
+        }
+
+        if (responses.every(response => response.ok)) {
+          const [survivor, duplicate] = await Promise.all(responses.map(response => response.json()))
+          setBuyers({ [survivor.id]: survivor, [duplicate.id]: duplicate })
+        } else {
+          setError('Failed to load both buyers')
+        }
+      } catch {
+        setError('Network error')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    if (survivorId && duplicateId) {
+      fetchBuyers()
+    } else {
+      setError('Choose two buyers to merge')
+      setLoading(false)
+    }
+  }, [])
+
+  const survivor = buyers[survivorId]
+  const duplicate = buyers[duplicateId]
+
+  // Without an explicit choice the kept record wins, unless its value is empty
+  const sideFor = (field: MergeField): Side =>
+    choices[field] ?? (isEmpty(survivor?.[field]) && !isEmpty(duplicate?.[field]) ? 'duplicate' : 'survivor')
+
+  const swap = () => {
+    setSurvivorId(duplicateId)
+    setDuplicateId(survivorId)
+    setChoices({})
+  }
+
+  const handleMerge = async () => {
+    if (!confirm(`Merge "${duplicate.fullName}" into "${survivor.fullName}"? The duplicate will be deleted.`)) {
+      return
+    }
+
+    setSaving(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/buyers/merge', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          survivorId,
+          duplicateId,
+          fields: Object.fromEntries(MERGE_FIELDS.map(field => [field, sideFor(field)])),
+          survivorUpdatedAt: survivor.updatedAt,
+          duplicateUpdatedAt: duplicate.updatedAt,
+        }),
+      })
+
+      if (response.ok) {
+        router.push(`/buyers/${survivorId}`)
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to merge buyers')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading buyers...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Merge Buyers</h1>
+          <p className="text-gray-600">
+            Pick the value to keep for each field. History and tags from both leads are kept; the duplicate is deleted.
+          </p>
+        </div>
+        <Link href="/buyers/duplicates" className="text-blue-600 hover:text-blue-500 text-sm">
+          Back to Duplicates
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {survivor && duplicate && (
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Field</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                    Keep: {survivor.owner.name || survivor.owner.email}, created {new Date(survivor.createdAt).toLocaleDateString()}
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                    Duplicate: {duplicate.owner.name || duplicate.owner.email}, created {new Date(duplicate.createdAt).toLocaleDateString()}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {MERGE_FIELDS.map((field) => (
+                  <tr key={field} className={survivor[field] === duplicate[field] ? 'text-gray-400' : ''}>
+                    <td className="px-3 py-2 text-sm font-medium text-gray-700">{FIELD_LABELS[field]}</td>
+                    {(['survivor', 'duplicate'] as const).map((side) => (
+                      <td key={side} className="px-3 py-2 text-sm">
+                        <label className="inline-flex items-start">
+                          <input
+                            type="radio"
+                            name={field}
+                            checked={sideFor(field) === side}
+                            onChange={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                            className="mr-2 mt-1"
+                          />
+                          <span className="whitespace-pre-wrap">
+                            {formatValue((side === 'survivor' ? survivor : duplicate)[field])}
+                          </span>
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr>
+                  <td className="px-3 py-2 text-sm font-medium text-gray-700">Tags</td>
+                  <td colSpan={2} className="px-3 py-2 text-sm text-gray-600">
+                    {[...new Set([...survivor.tags, ...duplicate.tags])].sort().join(', ') || '—'} (combined)
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {survivor && duplicate && (
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={swap}
+            className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Keep the other record
+          </button>
+          <button
+            type="button"
+            onClick={handleMerge}
+            disabled={saving}
+            className="bg-blue-600 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Merging...' : 'Merge Buyers'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,10 +1,12 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import { useForm } from 'react-hook-form'
+import { Controller, useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { CreateBuyerSchema } from '@/lib/validation'
+import TagInput from '@/components/TagInput'
 
 type FormData = {
   fullName: string
@@ -19,24 +21,79 @@ type FormData = {
   timeline: string
   source: string
   notes?: string
-  tags: string
+  tags: string[]
+}
+
+interface DuplicateMatch {
+  id: string
+  fullName?: string
+  phone?: string
+  email?: string | null
+  reasons: string[]
+  owner: {
+    id: string
+    name?: string | null
+    email: string
+  }
+  visible: boolean
+}
+
+const REASON_LABELS: Record<string, string> = {
+  phone: 'same phone',
+  email: 'same email',
+  name: 'similar name',
 }
 
 export default function NewBuyerPage() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([])
   const router = useRouter()
 
   const {
     register,
+    control,
     handleSubmit,
     watch,
     formState: { errors }
   } = useForm<FormData>({
-    resolver: zodResolver(CreateBuyerSchema)
+    resolver: zodResolver(CreateBuyerSchema),
+    defaultValues: { tags: [] }
   })
 
   const propertyType = watch('propertyType')
+  const [fullName, phone, email] = watch(['fullName', 'phone', 'email'])
+
+  // Warn about existing leads for the same person while the contact details are typed
+  useEffect(() => {
+    const hasName = (fullName?.trim().length ?? 0) >= 3
+    const hasPhone = (phone?.replace(/\D/g, '').length ?? 0) >= 7
+    const hasEmail = !!email?.includes('@')
+    if (!hasName && !hasPhone && !hasEmail) {
+      setDuplicates([])
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/buyers/duplicates', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ fullName, phone, email }),
+        })
+        if (response.ok) {
+          const data = await response.json()
+          setDuplicates(data.duplicates)
+        }
+      } catch {
+        // The check is only a warning; saving still works without it
+      }
+    }, 500)
+
+    return () => clearTimeout(timeout)
+  }, [fullName, phone, email])
 
   const onSubmit = async (data: FormData) => {
     setLoading(true)
@@ -50,7 +107,6 @@ export default function NewBuyerPage() {
         budgetMin: data.budgetMin || undefined,
         budgetMax: data.budgetMax || undefined,
         notes: data.notes || undefined,
-        tags: data.tags ? data.tags.split(',').map(tag => tag.trim()).filter(tag => tag !== '') : []
       }
 
       const response = await fetch('/api/buyers', {
@@ -63,7 +119,8 @@ export default function NewBuyerPage() {
 
       if (response.ok) {
         const buyer = await response.json()
-        router.push(`/buyers/${buyer.id}`)
+        // Leads routed to another agent may not be visible to the creator
+        router.push(buyer.assignment?.visible === false ? '/buyers' : `/buyers/${buyer.id}`)
       } else {
         if (response.status === 401) {
           router.push('/login')
@@ -87,6 +144,28 @@ export default function NewBuyerPage() {
       </div>
 
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        {duplicates.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+            <h4 className="text-sm font-medium text-yellow-800 mb-2">This lead may already exist</h4>
+            <ul className="text-sm text-yellow-700 space-y-1">
+              {duplicates.map((match) => (
+                <li key={match.id}>
+                  •{' '}
+                  {match.visible ? (
+                    <Link href={`/buyers/${match.id}`} className="font-medium underline" target="_blank">
+                      {match.fullName} ({match.phone})
+                    </Link>
+                  ) : (
+                    <span>A lead owned by {match.owner.name || match.owner.email}</span>
+                  )}
+                  {' '}- {match.reasons.map(reason => REASON_LABELS[reason]).join(', ')}
+                </li>
+              ))}
+            </ul>
+            <p className="mt-2 text-sm text-yellow-800">You can still save this lead and merge the records later.</p>
+          </div>
+        )}
+
         <div className="bg-white shadow sm:rounded-lg">
           <div className="px-4 py-5 sm:p-6">
             <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
@@ -317,13 +396,14 @@ export default function NewBuyerPage() {
                 <label htmlFor="tags" className="block text-sm font-medium text-gray-700">
                   Tags
                 </label>
-                <input
-                  {...register('tags')}
-                  type="text"
-                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                  placeholder="Enter tags separated by commas"
+                <Controller
+                  name="tags"
+                  control={control}
+                  render={({ field }) => (
+                    <TagInput id="tags" value={field.value} onChange={field.onChange} />
+                  )}
                 />
-                <p className="mt-1 text-sm text-gray-500">Separate multiple tags with commas</p>
+                <p className="mt-1 text-sm text-gray-500">Press Enter or comma to add a tag</p>
                 {errors.tags && (
                   <p className="mt-1 text-sm text-red-600">{errors.tags.message}</p>
                 )}
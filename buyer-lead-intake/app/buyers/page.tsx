@@ -3,6 +3,9 @@
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { useRouter, useSearchParams } from 'next/navigation'
+import { DEFAULT_BUYER_SORT } from '@/lib/validation'
+import BuyerFilters, { EMPTY_FILTERS, FILTER_KEYS, type FilterKey, type Filters } from '@/components/BuyerFilters'
+import BulkActionBar from '@/components/BulkActionBar'
 
 interface Buyer {
   id: string
@@ -19,7 +22,7 @@ interface Buyer {
   source: string
   status: string
   notes?: string
-  tags: string
+  tags: string[]
   owner: {
     id: string
     name?: string
@@ -28,57 +31,179 @@ interface Buyer {
   updatedAt: string
 }
 
+interface Owner {
+  id: string
+  name?: string
+  email: string
+}
+
+interface SavedView {
+  id: string
+  name: string
+  filters: Record<string, string>
+  sort: string
+  isDefault: boolean
+  shared: boolean
+  mine: boolean
+  owner: Owner
+}
+
+// Sortable columns; dates and budgets sort newest/highest first on the first click
+const SORT_COLUMNS = [
+  { key: 'name', label: 'Name', direction: 'asc' },
+  { key: 'budget', label: 'Budget', direction: 'desc' },
+  { key: 'status', label: 'Status', direction: 'asc' },
+  { key: 'timeline', label: 'Timeline', direction: 'asc' },
+  { key: 'createdAt', label: 'Created', direction: 'desc' },
+  { key: 'updatedAt', label: 'Updated', direction: 'desc' },
+]
+
 interface Pagination {
-  page: number
   limit: number
   total: number
-  pages: number
+  sort: string
+  nextCursor: string | null
+  prevCursor: string | null
 }
 
 export default function BuyersPage() {
   const [buyers, setBuyers] = useState<Buyer[]>([])
-  const [pagination, setPagination] = useState<Pagination>({ page: 1, limit: 10, total: 0, pages: 0 })
+  const [pagination, setPagination] = useState<Pagination>({ limit: 10, total: 0, sort: DEFAULT_BUYER_SORT, nextCursor: null, prevCursor: null })
+  const [pageStart, setPageStart] = useState(0)
   const [loading, setLoading] = useState(true)
   const [search, setSearch] = useState('')
-  const [filters, setFilters] = useState({
-    city: '',
-    propertyType: '',
-    status: '',
-    timeline: ''
-  })
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [sort, setSort] = useState('')
+  const [views, setViews] = useState<SavedView[]>([])
+  const [showSaveView, setShowSaveView] = useState(false)
+  const [viewForm, setViewForm] = useState({ name: '', isDefault: false, shared: false })
+  const [viewError, setViewError] = useState('')
+  // Selected buyer ids with their names; the selection survives paging
+  const [selected, setSelected] = useState<Record<string, string>>({})
   const router = useRouter()
   const searchParams = useSearchParams()
 
   // Initialize filters from URL
   useEffect(() => {
-    const urlSearch = searchParams.get('search') || ''
-    const urlCity = searchParams.get('city') || ''
-    const urlPropertyType = searchParams.get('propertyType') || ''
-    const urlStatus = searchParams.get('status') || ''
-    const urlTimeline = searchParams.get('timeline') || ''
-    
-    setSearch(urlSearch)
-    setFilters({
-      city: urlCity,
-      propertyType: urlPropertyType,
-      status: urlStatus,
-      timeline: urlTimeline
+    const urlFilters = { ...EMPTY_FILTERS }
+    FILTER_KEYS.forEach(key => {
+      urlFilters[key] = searchParams.getAll(key).join(',')
     })
+
+    setSearch(searchParams.get('search') || '')
+    setSort(searchParams.get('sort') || '')
+    setFilters(urlFilters)
   }, [searchParams])
 
-  const fetchBuyers = async (page = 1) => {
-    setLoading(true)
+  // Load saved views; open the default view when the page is visited without filters
+  useEffect(() => {
+    fetch('/api/views', { credentials: 'include' })
+      .then(response => response.ok ? response.json() : { views: [] })
+      .then(data => {
+        setViews(data.views)
+        const defaultView = data.views.find((view: SavedView) => view.isDefault)
+        if (defaultView && searchParams.toString() === '') {
+          applyView(defaultView, true)
+        }
+      })
+      .catch(() => setViews([]))
+  }, [])
+
+  const activeViewId = searchParams.get('view')
+
+  const filterParams = () => {
+    const params = new URLSearchParams()
+    if (search) params.set('search', search)
+    FILTER_KEYS.forEach(key => {
+      if (filters[key]) params.set(key, filters[key])
+    })
+    if (sort) params.set('sort', sort)
+    return params
+  }
+
+  const applyView = (view: SavedView, replace = false) => {
+    const params = new URLSearchParams(view.filters)
+    if (view.sort !== DEFAULT_BUYER_SORT) params.set('sort', view.sort)
+    params.set('view', view.id)
+    if (replace) {
+      router.replace(`/buyers?${params.toString()}`)
+    } else {
+      router.push(`/buyers?${params.toString()}`)
+    }
+  }
+
+  const handleSaveView = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setViewError('')
+
+    const viewFilters: Record<string, string> = {}
+    filterParams().forEach((value, key) => {
+      if (key !== 'sort') viewFilters[key] = value
+    })
+
     try {
-      const params = new URLSearchParams({
-        page: page.toString(),
-        limit: '10',
-        ...(search && { search }),
-        ...(filters.city && { city: filters.city }),
-        ...(filters.propertyType && { propertyType: filters.propertyType }),
-        ...(filters.status && { status: filters.status }),
-        ...(filters.timeline && { timeline: filters.timeline }),
+      const response = await fetch('/api/views', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          ...viewForm,
+          filters: viewFilters,
+          sort: sort || DEFAULT_BUYER_SORT,
+        }),
       })
 
+      const data = await response.json()
+      if (response.ok) {
+        setViews(prev => [
+          ...prev.map(view => viewForm.isDefault ? { ...view, isDefault: false } : view),
+          data,
+        ])
+        setShowSaveView(false)
+        setViewForm({ name: '', isDefault: false, shared: false })
+        applyView(data)
+      } else {
+        setViewError(data.error || 'Failed to save view')
+      }
+    } catch {
+      setViewError('Failed to save view')
+    }
+  }
+
+  const handleMakeDefault = async (view: SavedView) => {
+    const response = await fetch(`/api/views/${view.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ isDefault: true }),
+    })
+    if (response.ok) {
+      setViews(prev => prev.map(other => ({ ...other, isDefault: other.mine && other.id === view.id })))
+    }
+  }
+
+  const handleDeleteView = async (view: SavedView) => {
+    if (!confirm(`Delete the "${view.name}" view?`)) return
+
+    const response = await fetch(`/api/views/${view.id}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    })
+    if (response.ok) {
+      setViews(prev => prev.filter(other => other.id !== view.id))
+      if (activeViewId === view.id) {
+        router.push('/buyers')
+      }
+    }
+  }
+
+  const fetchBuyers = async (cursor?: string | null, start = 0) => {
+    setLoading(true)
+    try {
+      const params = filterParams()
+      if (cursor) params.set('cursor', cursor)
+      params.set('limit', '10')
+
       const response = await fetch(`/api/buyers?${params}`, {
         credentials: 'include'
       })
@@ -86,6 +211,7 @@ export default function BuyersPage() {
         const data = await response.json()
         setBuyers(data.buyers)
         setPagination(data.pagination)
+        setPageStart(start)
       } else {
         if (response.status === 401) {
           router.push('/login')
@@ -99,9 +225,73 @@ export default function BuyersPage() {
   }
 
   useEffect(() => {
-    fetchBuyers(pagination.page)
+    fetchBuyers()
+  }, [search, filters, sort])
+
+  // A new search or filter starts a new selection
+  useEffect(() => {
+    setSelected({})
   }, [search, filters])
 
+  const toggleSelected = (buyer: Buyer) => {
+    setSelected(prev => {
+      const next = { ...prev }
+      if (next[buyer.id]) {
+        delete next[buyer.id]
+      } else {
+        next[buyer.id] = buyer.fullName
+      }
+      return next
+    })
+  }
+
+  const allOnPageSelected = buyers.length > 0 && buyers.every(buyer => selected[buyer.id])
+
+  const togglePage = () => {
+    setSelected(prev => {
+      const next = { ...prev }
+      buyers.forEach(buyer => {
+        if (allOnPageSelected) {
+          delete next[buyer.id]
+        } else {
+          next[buyer.id] = buyer.fullName
+        }
+      })
+      return next
+    })
+  }
+
+  const handleBulkComplete = (action: string, succeededIds: string[]) => {
+    if (action === 'delete') {
+      setSelected(prev => {
+        const next = { ...prev }
+        succeededIds.forEach(id => delete next[id])
+        return next
+      })
+    }
+    fetchBuyers()
+  }
+
+  const handleNextPage = () => {
+    fetchBuyers(pagination.nextCursor, pageStart + buyers.length)
+  }
+
+  const handlePrevPage = () => {
+    fetchBuyers(pagination.prevCursor, Math.max(pageStart - pagination.limit, 0))
+  }
+
+  // Clicking the active column flips its direction; another column starts in its natural direction
+  const handleSort = (column: typeof SORT_COLUMNS[number]) => {
+    const [activeKey, activeDirection] = pagination.sort.split(':')
+    const direction = activeKey === column.key
+      ? (activeDirection === 'asc' ? 'desc' : 'asc')
+      : column.direction
+
+    const params = filterParams()
+    params.set('sort', `${column.key}:${direction}`)
+    router.push(`/buyers?${params.toString()}`)
+  }
+
   const handleSearchChange = (value: string) => {
     setSearch(value)
     // Debounce search
@@ -112,30 +302,24 @@ export default function BuyersPage() {
   }
 
   const updateURL = () => {
-    const params = new URLSearchParams()
-    if (search) params.set('search', search)
-    if (filters.city) params.set('city', filters.city)
-    if (filters.propertyType) params.set('propertyType', filters.propertyType)
-    if (filters.status) params.set('status', filters.status)
-    if (filters.timeline) params.set('timeline', filters.timeline)
-    
-    router.push(`/buyers?${params.toString()}`)
+    router.push(`/buyers?${filterParams().toString()}`)
   }
 
-  const handleFilterChange = (key: string, value: string) => {
+  const handleFilterChange = (key: FilterKey, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }))
   }
 
-  const handleExport = async () => {
-    try {
-      const params = new URLSearchParams({
-        ...(search && { search }),
-        ...(filters.city && { city: filters.city }),
-        ...(filters.propertyType && { propertyType: filters.propertyType }),
-        ...(filters.status && { status: filters.status }),
-        ...(filters.timeline && { timeline: filters.timeline }),
-      })
+  const clearFilters = () => {
+    setSearch('')
+    setSort('')
+    setFilters(EMPTY_FILTERS)
+    router.push('/buyers')
+  }
 
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    try {
+      const params = filterParams()
+      params.set('format', format)
       const response = await fetch(`/api/buyers/export?${params}`, {
         credentials: 'include'
       })
@@ -144,7 +328,7 @@ export default function BuyersPage() {
         const url = window.URL.createObjectURL(blob)
         const a = document.createElement('a')
         a.href = url
-        a.download = `buyers-${new Date().toISOString().split('T')[0]}.csv`
+        a.download = `buyers-${new Date().toISOString().split('T')[0]}.${format}`
         document.body.appendChild(a)
         a.click()
         window.URL.revokeObjectURL(url)
@@ -191,11 +375,41 @@ export default function BuyersPage() {
         <h1 className="text-2xl font-bold text-gray-900">Buyers</h1>
         <div className="flex space-x-3">
           <button
-            onClick={handleExport}
+            onClick={() => handleExport('csv')}
             className="bg-green-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-green-700"
           >
             Export CSV
           </button>
+          <button
+            onClick={() => handleExport('xlsx')}
+            className="bg-green-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-green-700"
+          >
+            Export Excel
+          </button>
+          <Link
+            href={`/buyers/board?${filterParams().toString()}`}
+            className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Board View
+          </Link>
+          <Link
+            href="/buyers/duplicates"
+            className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Find Duplicates
+          </Link>
+          <Link
+            href="/buyers/trash"
+            className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Trash
+          </Link>
+          <Link
+            href="/buyers/imports"
+            className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Imports
+          </Link>
           <Link
             href="/buyers/import"
             className="bg-purple-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-purple-700"
@@ -211,82 +425,112 @@ export default function BuyersPage() {
         </div>
       </div>
 
-      {/* Filters */}
-      <div className="bg-white p-4 rounded-lg shadow">
-        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Search</label>
+      {/* Saved views */}
+      <div className="border-b border-gray-200 flex items-end justify-between">
+        <nav className="-mb-px flex flex-wrap gap-x-6">
+          <button
+            onClick={clearFilters}
+            className={`py-2 px-1 border-b-2 text-sm font-medium ${!activeViewId ? 'border-blue-500 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
+          >
+            All Buyers
+          </button>
+          {views.map(view => (
+            <button
+              key={view.id}
+              onClick={() => applyView(view)}
+              title={view.mine ? undefined : `Shared by ${view.owner.name || view.owner.email}`}
+              className={`py-2 px-1 border-b-2 text-sm font-medium ${activeViewId === view.id ? 'border-blue-500 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
+            >
+              {view.name}
+              {view.isDefault && <span className="ml-1 text-xs text-gray-400">(default)</span>}
+              {!view.mine && <span className="ml-1 text-xs text-gray-400">(shared)</span>}
+            </button>
+          ))}
+        </nav>
+        <div className="flex space-x-4 pb-2">
+          {views.filter(view => view.id === activeViewId && view.mine).map(view => (
+            <div key={view.id} className="flex space-x-4">
+              {!view.isDefault && (
+                <button
+                  onClick={() => handleMakeDefault(view)}
+                  className="text-sm text-gray-600 hover:text-gray-800"
+                >
+                  Make default
+                </button>
+              )}
+              <button
+                onClick={() => handleDeleteView(view)}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Delete view
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setShowSaveView(prev => !prev)}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            Save view
+          </button>
+        </div>
+      </div>
+
+      {showSaveView && (
+        <form onSubmit={handleSaveView} className="bg-white p-4 rounded-lg shadow flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[200px]">
+            <label className="block text-sm font-medium text-gray-700 mb-1">View Name</label>
             <input
               type="text"
-              value={search}
-              onChange={(e) => handleSearchChange(e.target.value)}
-              placeholder="Name, email, phone..."
+              value={viewForm.name}
+              onChange={(e) => setViewForm(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="My new Mohali leads"
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
             />
           </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">City</label>
-            <select
-              value={filters.city}
-              onChange={(e) => handleFilterChange('city', e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-            >
-              <option value="">All Cities</option>
-              <option value="CHANDIGARH">Chandigarh</option>
-              <option value="MOHALI">Mohali</option>
-              <option value="ZIRAKPUR">Zirakpur</option>
-              <option value="PANCHKULA">Panchkula</option>
-              <option value="OTHER">Other</option>
-            </select>
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Property Type</label>
-            <select
-              value={filters.propertyType}
-              onChange={(e) => handleFilterChange('propertyType', e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-            >
-              <option value="">All Types</option>
-              <option value="APARTMENT">Apartment</option>
-              <option value="VILLA">Villa</option>
-              <option value="PLOT">Plot</option>
-              <option value="OFFICE">Office</option>
-              <option value="RETAIL">Retail</option>
-            </select>
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
-            <select
-              value={filters.status}
-              onChange={(e) => handleFilterChange('status', e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-            >
-              <option value="">All Status</option>
-              <option value="NEW">New</option>
-              <option value="QUALIFIED">Qualified</option>
-              <option value="CONTACTED">Contacted</option>
-              <option value="VISITED">Visited</option>
-              <option value="NEGOTIATION">Negotiation</option>
-              <option value="CONVERTED">Converted</option>
-              <option value="DROPPED">Dropped</option>
-            </select>
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Timeline</label>
-            <select
-              value={filters.timeline}
-              onChange={(e) => handleFilterChange('timeline', e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-            >
-              <option value="">All Timelines</option>
-              <option value="ZERO_TO_THREE_MONTHS">0-3 months</option>
-              <option value="THREE_TO_SIX_MONTHS">3-6 months</option>
-              <option value="MORE_THAN_SIX_MONTHS">&gt;6 months</option>
-              <option value="EXPLORING">Exploring</option>
-            </select>
-          </div>
-        </div>
-      </div>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={viewForm.isDefault}
+              onChange={(e) => setViewForm(prev => ({ ...prev, isDefault: e.target.checked }))}
+              className="mr-2"
+            />
+            Default view
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={viewForm.shared}
+              onChange={(e) => setViewForm(prev => ({ ...prev, shared: e.target.checked }))}
+              className="mr-2"
+            />
+            Share with my team
+          </label>
+          <button
+            type="submit"
+            className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            Save
+          </button>
+          {viewError && <p className="w-full text-sm text-red-600">{viewError}</p>}
+        </form>
+      )}
+
+      {/* Filters */}
+      <BuyerFilters
+        search={search}
+        filters={filters}
+        onSearchChange={handleSearchChange}
+        onFilterChange={handleFilterChange}
+        onClear={clearFilters}
+      />
+
+      {Object.keys(selected).length > 0 && (
+        <BulkActionBar
+          selected={Object.entries(selected).map(([id, fullName]) => ({ id, fullName }))}
+          onClear={() => setSelected({})}
+          onComplete={handleBulkComplete}
+        />
+      )}
 
       {/* Results */}
       {buyers.length === 0 ? (
@@ -295,10 +539,44 @@ export default function BuyersPage() {
         </div>
       ) : (
         <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 flex flex-wrap items-center gap-x-6 gap-y-2 border-b border-gray-200">
+            <input
+              type="checkbox"
+              checked={allOnPageSelected}
+              onChange={togglePage}
+              aria-label="Select all buyers on this page"
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">Sort by</span>
+            {pagination.sort === 'relevance' && (
+              <span className="text-xs font-medium text-blue-600 uppercase tracking-wider">Relevance ↓</span>
+            )}
+            {SORT_COLUMNS.map(column => {
+              const [activeKey, activeDirection] = pagination.sort.split(':')
+              const active = activeKey === column.key
+              return (
+                <button
+                  key={column.key}
+                  onClick={() => handleSort(column)}
+                  className={`text-xs font-medium uppercase tracking-wider ${active ? 'text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  {column.label}
+                  {active && (activeDirection === 'asc' ? ' ↑' : ' ↓')}
+                </button>
+              )
+            })}
+          </div>
           <ul className="divide-y divide-gray-200">
             {buyers.map((buyer) => (
-              <li key={buyer.id}>
-                <Link href={`/buyers/${buyer.id}`} className="block hover:bg-gray-50">
+              <li key={buyer.id} className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={!!selected[buyer.id]}
+                  onChange={() => toggleSelected(buyer)}
+                  aria-label={`Select ${buyer.fullName}`}
+                  className="ml-4 sm:ml-6 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <Link href={`/buyers/${buyer.id}`} className="block flex-1 min-w-0 hover:bg-gray-50">
                   <div className="px-4 py-4 sm:px-6">
                     <div className="flex items-center justify-between">
                       <div className="flex-1 min-w-0">
@@ -350,19 +628,19 @@ export default function BuyersPage() {
       )}
 
       {/* Pagination */}
-      {pagination.pages > 1 && (
+      {(pagination.nextCursor || pagination.prevCursor) && (
         <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6 rounded-lg shadow">
           <div className="flex-1 flex justify-between sm:hidden">
             <button
-              onClick={() => fetchBuyers(pagination.page - 1)}
-              disabled={pagination.page === 1}
+              onClick={handlePrevPage}
+              disabled={!pagination.prevCursor}
               className="relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
             >
               Previous
             </button>
             <button
-              onClick={() => fetchBuyers(pagination.page + 1)}
-              disabled={pagination.page === pagination.pages}
+              onClick={handleNextPage}
+              disabled={!pagination.nextCursor}
               className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
             >
               Next
@@ -372,10 +650,10 @@ export default function BuyersPage() {
             <div>
               <p className="text-sm text-gray-700">
                 Showing{' '}
-                <span className="font-medium">{(pagination.page - 1) * pagination.limit + 1}</span>
+                <span className="font-medium">{pageStart + 1}</span>
                 {' '}to{' '}
                 <span className="font-medium">
-                  {Math.min(pagination.page * pagination.limit, pagination.total)}
+                  {Math.min(pageStart + buyers.length, pagination.total)}
                 </span>
                 {' '}of{' '}
                 <span className="font-medium">{pagination.total}</span>
@@ -385,15 +663,15 @@ export default function BuyersPage() {
             <div>
               <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px">
                 <button
-                  onClick={() => fetchBuyers(pagination.page - 1)}
-                  disabled={pagination.page === 1}
+                  onClick={handlePrevPage}
+                  disabled={!pagination.prevCursor}
                   className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
                 >
                   Previous
                 </button>
                 <button
-                  onClick={() => fetchBuyers(pagination.page + 1)}
-                  disabled={pagination.page === pagination.pages}
+                  onClick={handleNextPage}
+                  disabled={!pagination.nextCursor}
                   className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
                 >
                   Next
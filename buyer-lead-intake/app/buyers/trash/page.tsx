@@ -0,0 +1,279 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+
+interface TrashedBuyer {
+  id: string
+  fullName: string
+  phone: string
+  email?: string | null
+  city: string
+  status: string
+  owner: {
+    id: string
+    name?: string | null
+    email: string
+  }
+  deletedAt: string
+  deletedBy: {
+    id: string
+    name?: string | null
+    email: string
+  } | null
+  purgeAt: string
+  canRestore: boolean
+}
+
+export default function TrashPage() {
+  const [buyers, setBuyers] = useState<TrashedBuyer[]>([])
+  const [total, setTotal] = useState(0)
+  const [retentionDays, setRetentionDays] = useState(30)
+  const [retentionInput, setRetentionInput] = useState('30')
+  const [canPurge, setCanPurge] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+  // The lead a duplicate that cannot be restored was merged into
+  const [mergedInto, setMergedInto] = useState('')
+  const [message, setMessage] = useState('')
+  const router = useRouter()
+
+  const fetchTrash = async () => {
+    try {
+      const response = await fetch('/api/buyers/trash')
+      if (response.ok) {
+        const data = await response.json()
+        setBuyers(data.buyers)
+        setTotal(data.total)
+        setRetentionDays(data.retentionDays)
+        setRetentionInput(String(data.retentionDays))
+        setCanPurge(data.canPurge)
+      } else if (response.status === 401) {
+        router.push('/login')
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to load trash')
+      }
+    } catch {
+      setError('Network error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchTrash()
+  }, [])
+
+  // Runs one trash action, then reloads the list
+  const runAction = async (url: string, init: RequestInit, fallbackError: string) => {
+    setBusy(true)
+    setError('')
+    setMergedInto('')
+    setMessage('')
+
+    try {
+      const response = await fetch(url, init)
+      const data = await response.json()
+      if (response.ok) {
+        if (data.message) setMessage(data.message)
+        await fetchTrash()
+        return true
+      }
+      setError(data.error || fallbackError)
+      if (data.mergedInto) setMergedInto(data.mergedInto)
+    } catch {
+      setError('Network error. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+    return false
+  }
+
+  const handleRestore = async (buyer: TrashedBuyer) => {
+    const restored = await runAction(
+      `/api/buyers/trash/${buyer.id}/restore`,
+      { method: 'POST' },
+      'Failed to restore buyer'
+    )
+    if (restored) setMessage(`Restored ${buyer.fullName}`)
+  }
+
+  const handlePurge = async (buyer: TrashedBuyer) => {
+    if (!confirm(`Permanently delete ${buyer.fullName}? Their history, tasks and activity will be deleted too. This cannot be undone.`)) {
+      return
+    }
+    await runAction(`/api/buyers/trash/${buyer.id}`, { method: 'DELETE' }, 'Failed to delete buyer')
+  }
+
+  const handlePurgeExpired = async () => {
+    if (!confirm(`Permanently delete every lead that has been in the trash for more than ${retentionDays} days?`)) {
+      return
+    }
+    await runAction('/api/buyers/trash/purge', { method: 'POST' }, 'Failed to purge trash')
+  }
+
+  const handleSaveRetention = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const saved = await runAction('/api/buyers/trash/settings', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ retentionDays: Number(retentionInput) }),
+    }, 'Failed to save retention')
+    if (saved) setMessage('Retention saved')
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading trash...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+          <p className="text-gray-600">
+            Deleted leads are kept for {retentionDays} days, then permanently deleted along with their history.
+          </p>
+        </div>
+        <Link href="/buyers" className="text-blue-600 hover:text-blue-500 text-sm">
+          Back to Buyers
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-600">
+            {error}
+            {mergedInto && (
+              <>
+                {' '}
+                <Link href={`/buyers/${mergedInto}`} className="underline">
+                  Open that lead
+                </Link>
+              </>
+            )}
+          </p>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-sm text-green-700">{message}</p>
+        </div>
+      )}
+
+      {canPurge && (
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6 flex flex-wrap items-end justify-between gap-4">
+            <form onSubmit={handleSaveRetention} className="flex items-end space-x-2">
+              <div>
+                <label htmlFor="retentionDays" className="block text-sm font-medium text-gray-700">
+                  Keep deleted leads for (days)
+                </label>
+                <input
+                  id="retentionDays"
+                  type="number"
+                  min={1}
+                  max={365}
+                  required
+                  value={retentionInput}
+                  onChange={(e) => setRetentionInput(e.target.value)}
+                  className="mt-1 block w-32 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={busy || Number(retentionInput) === retentionDays}
+                className="bg-blue-600 py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </form>
+            <button
+              type="button"
+              onClick={handlePurgeExpired}
+              disabled={busy}
+              className="bg-white py-2 px-4 border border-red-300 rounded-md shadow-sm text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50"
+            >
+              Purge Expired Now
+            </button>
+          </div>
+        </div>
+      )}
+
+      {buyers.length === 0 ? (
+        <div className="bg-white shadow sm:rounded-lg px-4 py-5 sm:p-6">
+          <p className="text-sm text-gray-500">The trash is empty.</p>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lead</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Owner</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deleted</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Purged On</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {buyers.map(buyer => (
+                <tr key={buyer.id}>
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{buyer.fullName}</div>
+                    <div className="text-sm text-gray-500">
+                      {buyer.phone}{buyer.email && ` • ${buyer.email}`}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{buyer.owner.name || buyer.owner.email}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {new Date(buyer.deletedAt).toLocaleString()}
+                    {buyer.deletedBy && (
+                      <div className="text-xs">by {buyer.deletedBy.name || buyer.deletedBy.email}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{new Date(buyer.purgeAt).toLocaleDateString()}</td>
+                  <td className="px-6 py-4 text-right text-sm font-medium space-x-3 whitespace-nowrap">
+                    {buyer.canRestore && (
+                      <button
+                        onClick={() => handleRestore(buyer)}
+                        disabled={busy}
+                        className="text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                      >
+                        Restore
+                      </button>
+                    )}
+                    {canPurge && (
+                      <button
+                        onClick={() => handlePurge(buyer)}
+                        disabled={busy}
+                        className="text-red-600 hover:text-red-500 disabled:opacity-50"
+                      >
+                        Delete Forever
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {total > buyers.length && (
+            <p className="px-6 py-3 text-sm text-gray-500 border-t border-gray-200">
+              Showing the {buyers.length} most recently deleted of {total}.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
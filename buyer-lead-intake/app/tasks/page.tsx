@@ -0,0 +1,143 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { TASK_TYPE_LABELS } from '@/components/TaskPanel'
+import { endOfDay, taskBucket } from '@/lib/tasks'
+import type { TaskType } from '@/lib/validation'
+
+interface Task {
+  id: string
+  type: TaskType
+  dueAt: string
+  notes?: string | null
+  buyer: {
+    id: string
+    fullName: string
+    phone: string
+    email?: string | null
+    status: string
+  }
+}
+
+export default function MyTasksPage() {
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const router = useRouter()
+
+  const fetchTasks = async () => {
+    try {
+      const until = endOfDay(new Date()).toISOString()
+      const response = await fetch(`/api/tasks?until=${encodeURIComponent(until)}`)
+      if (response.ok) {
+        const data = await response.json()
+        setTasks(data.tasks)
+      } else if (response.status === 401) {
+        router.push('/login')
+      } else {
+        setError('Failed to load tasks')
+      }
+    } catch {
+      setError('Network error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchTasks()
+  }, [])
+
+  const completeTask = async (task: Task) => {
+    try {
+      const response = await fetch(`/api/buyers/${task.buyer.id}/tasks/${task.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ completed: true }),
+      })
+
+      if (response.ok) {
+        setTasks(prev => prev.filter(t => t.id !== task.id))
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to complete task')
+      }
+    } catch {
+      setError('Network error. Please try again.')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading tasks...</div>
+      </div>
+    )
+  }
+
+  const overdue = tasks.filter(task => taskBucket(task) === 'overdue')
+  const today = tasks.filter(task => taskBucket(task) === 'today')
+
+  const renderSection = (title: string, sectionTasks: Task[], overdueSection: boolean) => (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className={`text-lg font-medium mb-4 ${overdueSection ? 'text-red-700' : 'text-gray-900'}`}>
+          {title} ({sectionTasks.length})
+        </h3>
+        {sectionTasks.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing here.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {sectionTasks.map(task => (
+              <li key={task.id} className="py-3 flex items-start justify-between">
+                <div>
+                  <div className="text-sm text-gray-900">
+                    {TASK_TYPE_LABELS[task.type]}:{' '}
+                    <Link href={`/buyers/${task.buyer.id}`} className="font-medium text-blue-600 hover:text-blue-500">
+                      {task.buyer.fullName}
+                    </Link>
+                  </div>
+                  <div className={`text-xs ${overdueSection ? 'text-red-600' : 'text-gray-500'}`}>
+                    Due {new Date(task.dueAt).toLocaleString()} • {task.buyer.phone}
+                    {task.buyer.email && ` • ${task.buyer.email}`}
+                  </div>
+                  {task.notes && (
+                    <div className="mt-1 text-xs text-gray-600 whitespace-pre-wrap">{task.notes}</div>
+                  )}
+                </div>
+                <button
+                  onClick={() => completeTask(task)}
+                  className="ml-4 bg-white py-1 px-3 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Done
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">My Tasks</h1>
+        <p className="text-gray-600">Follow-ups assigned to you that are overdue or due today.</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {renderSection('Overdue', overdue, true)}
+      {renderSection('Today', today, false)}
+    </div>
+  )
+}
@@ -0,0 +1,231 @@
+'use client'
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { ActivityOutcome, ActivityType } from '@/lib/validation';
+
+interface Author {
+  id: string;
+  name?: string | null;
+  email: string;
+}
+
+interface HistoryDiff {
+  action: string;
+  fields?: Record<string, unknown>;
+  reason?: string;
+  mergedFrom?: { fullName?: string };
+}
+
+type TimelineEntry =
+  | {
+    kind: 'activity';
+    id: string;
+    at: string;
+    type: ActivityType;
+    outcome?: ActivityOutcome | null;
+    body: string;
+    author: Author;
+  }
+  | {
+    kind: 'change';
+    id: string;
+    at: string;
+    author: Author | null;
+    diff: HistoryDiff;
+  };
+
+interface ActivityTimelineProps {
+  buyerId: string;
+  canLog: boolean;
+  // Changes when the buyer is saved, so new history entries are picked up
+  refreshKey?: string;
+}
+
+const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  CALL: 'Call',
+  WHATSAPP: 'WhatsApp',
+  EMAIL: 'Email',
+  SITE_VISIT: 'Site visit',
+  NOTE: 'Note',
+};
+
+const OUTCOME_LABELS: Record<ActivityOutcome, string> = {
+  INTERESTED: 'Interested',
+  NOT_INTERESTED: 'Not interested',
+  NO_RESPONSE: 'No response',
+  FOLLOW_UP: 'Needs follow-up',
+};
+
+const changeLabel = (diff: HistoryDiff) => {
+  switch (diff.action) {
+    case 'created': return 'Created buyer';
+    case 'updated': return 'Updated buyer';
+    case 'imported': return 'Imported buyer';
+    case 'reassigned': return 'Reassigned buyer';
+    case 'merged': return `Merged duplicate ${diff.mergedFrom?.fullName ?? ''}`;
+    case 'reverted': return 'Restored an earlier version';
+    case 'deleted': return 'Moved buyer to trash';
+    case 'restored': return 'Restored buyer from trash';
+    default: return 'Changed buyer';
+  }
+};
+
+export default function ActivityTimeline({ buyerId, canLog, refreshKey }: ActivityTimelineProps) {
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [type, setType] = useState<ActivityType>('CALL');
+  const [outcome, setOutcome] = useState<ActivityOutcome | ''>('');
+  const [body, setBody] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchTimeline = async () => {
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/activities`);
+      if (response.ok) {
+        const data = await response.json();
+        setTimeline(data.timeline);
+      }
+    } catch (error) {
+      console.error('Error fetching activities:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchTimeline();
+  }, [buyerId, refreshKey]);
+
+  const handleLog = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/activities`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          body,
+          ...(outcome && type !== 'NOTE' && { outcome }),
+        }),
+      });
+
+      if (response.ok) {
+        setBody('');
+        setOutcome('');
+        await fetchTimeline();
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || 'Failed to log activity');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Activity</h3>
+          <Link href={`/buyers/${buyerId}/history`} className="text-sm font-medium text-blue-600 hover:text-blue-500">
+            Full History
+          </Link>
+        </div>
+
+        {canLog && (
+          <form onSubmit={handleLog} className="mb-6 space-y-3">
+            <div className="flex space-x-2">
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as ActivityType)}
+                aria-label="Activity type"
+                className="block w-1/2 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                {Object.entries(ACTIVITY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              {type !== 'NOTE' && (
+                <select
+                  value={outcome}
+                  onChange={(e) => setOutcome(e.target.value as ActivityOutcome | '')}
+                  aria-label="Outcome"
+                  className="block w-1/2 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                >
+                  <option value="">Outcome (optional)</option>
+                  {Object.entries(OUTCOME_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              required
+              placeholder="What happened?"
+              className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={!body.trim() || saving}
+                className="bg-blue-600 py-1 px-3 border border-transparent rounded-md shadow-sm text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Log Activity'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {timeline.length === 0 ? (
+          <p className="text-sm text-gray-500">No activity yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {timeline.map((entry) => entry.kind === 'activity' ? (
+              <div key={`activity-${entry.id}`} className="border-l-4 border-green-400 pl-4">
+                <div className="text-sm text-gray-900">
+                  <span className="font-medium">{ACTIVITY_LABELS[entry.type]}</span>
+                  {entry.outcome && (
+                    <span className="ml-2 px-2 inline-flex text-xs leading-5 rounded-full bg-gray-100 text-gray-700">
+                      {OUTCOME_LABELS[entry.outcome]}
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {new Date(entry.at).toLocaleString()} • {entry.author.name || entry.author.email}
+                </div>
+                <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{entry.body}</p>
+              </div>
+            ) : (
+              <div key={`change-${entry.id}`} className="border-l-4 border-blue-400 pl-4">
+                <div className="text-sm text-gray-900">{changeLabel(entry.diff)}</div>
+                <div className="text-xs text-gray-500">
+                  {new Date(entry.at).toLocaleString()}
+                  {entry.author && ` • ${entry.author.name || entry.author.email}`}
+                </div>
+                {entry.diff.fields && Object.keys(entry.diff.fields).length > 0 && (
+                  <div className="mt-2 text-xs text-gray-600">
+                    Changed: {Object.keys(entry.diff.fields).join(', ')}
+                  </div>
+                )}
+                {entry.diff.reason && (
+                  <div className="mt-1 text-xs text-gray-600 italic">
+                    Reason: {entry.diff.reason}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+'use client'
+
+import { useState } from 'react';
+import TagInput from './TagInput';
+import { STATUS_REQUIREMENTS, StatusSchema, type BulkAction, type Status } from '@/lib/validation';
+
+interface OwnerOption {
+  id: string;
+  name?: string | null;
+  email: string;
+}
+
+interface BulkResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+interface BulkActionBarProps {
+  // Selected buyers with their names, so failures can say which lead they were about
+  selected: { id: string; fullName: string }[];
+  onClear: () => void;
+  // Called after a change so the list can reload; trashed buyers drop out of the selection
+  onComplete: (action: BulkAction['action'], succeededIds: string[]) => void;
+}
+
+type ActionKey = BulkAction['action'];
+
+const ACTION_LABELS: Record<ActionKey, string> = {
+  status: 'Change status',
+  addTags: 'Add tags',
+  removeTags: 'Remove tags',
+  reassign: 'Reassign',
+  delete: 'Move to trash',
+  export: 'Export CSV',
+};
+
+export default function BulkActionBar({ selected, onClear, onComplete }: BulkActionBarProps) {
+  const [action, setAction] = useState<ActionKey>('status');
+  const [status, setStatus] = useState<Status>('CONTACTED');
+  const [statusDetail, setStatusDetail] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [owners, setOwners] = useState<OwnerOption[]>([]);
+  const [ownerId, setOwnerId] = useState('');
+  const [reason, setReason] = useState('');
+  const [running, setRunning] = useState(false);
+  const [summary, setSummary] = useState('');
+  const [failures, setFailures] = useState<(BulkResult & { fullName: string })[]>([]);
+  const [error, setError] = useState('');
+
+  const requirement = action === 'status' ? STATUS_REQUIREMENTS[status] : undefined;
+
+  const chooseAction = async (next: ActionKey) => {
+    setAction(next);
+    if (next === 'reassign' && owners.length === 0) {
+      try {
+        const response = await fetch('/api/users');
+        if (response.ok) {
+          const data = await response.json();
+          setOwners(data.users);
+        }
+      } catch {
+        setError('Failed to load users');
+      }
+    }
+  };
+
+  const actionBody = (): Record<string, unknown> => {
+    switch (action) {
+      case 'status':
+        return { status, ...(requirement && { [requirement.field]: statusDetail }) };
+      case 'addTags':
+      case 'removeTags':
+        return { tags };
+      case 'reassign':
+        return { ownerId, ...(reason && { reason }) };
+      default:
+        return {};
+    }
+  };
+
+  const downloadCsv = (csv: string, filename: string) => {
+    const url = window.URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  const handleRun = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (action === 'delete' && !confirm(`Move ${selected.length} buyers to the trash?`)) {
+      return;
+    }
+
+    setRunning(true);
+    setError('');
+    setSummary('');
+    setFailures([]);
+
+    try {
+      const response = await fetch('/api/buyers/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          action,
+          buyerIds: selected.map(buyer => buyer.id),
+          ...actionBody(),
+        }),
+      });
+
+      const data = await response.json();
+      if (!data.results) {
+        setError(data.error || 'Bulk action failed');
+        return;
+      }
+
+      const names = new Map(selected.map(buyer => [buyer.id, buyer.fullName]));
+      setSummary(data.message);
+      setFailures(data.results
+        .filter((result: BulkResult) => !result.success)
+        .map((result: BulkResult) => ({ ...result, fullName: names.get(result.id) ?? result.id })));
+
+      if (data.csv) {
+        downloadCsv(data.csv, data.filename);
+      }
+      if (action !== 'export' && data.succeeded > 0) {
+        onComplete(action, data.results
+          .filter((result: BulkResult) => result.success)
+          .map((result: BulkResult) => result.id));
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const ready = action === 'status'
+    ? !requirement || statusDetail.trim() !== ''
+    : action === 'addTags' || action === 'removeTags'
+      ? tags.length > 0
+      : action === 'reassign'
+        ? ownerId !== ''
+        : true;
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3">
+      <form onSubmit={handleRun} className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-blue-900">{selected.length} selected</span>
+        <select
+          value={action}
+          onChange={(e) => chooseAction(e.target.value as ActionKey)}
+          aria-label="Bulk action"
+          className="border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        >
+          {Object.entries(ACTION_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+
+        {action === 'status' && (
+          <>
+            <select
+              value={status}
+              onChange={(e) => { setStatus(e.target.value as Status); setStatusDetail(''); }}
+              aria-label="New status"
+              className="border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              {StatusSchema.options.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+            {requirement?.field === 'dropReason' && (
+              <input
+                type="text"
+                value={statusDetail}
+                onChange={(e) => setStatusDetail(e.target.value)}
+                placeholder="Drop reason"
+                maxLength={500}
+                className="border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            )}
+            {requirement?.field === 'visitDate' && (
+              <input
+                type="date"
+                value={statusDetail}
+                onChange={(e) => setStatusDetail(e.target.value)}
+                aria-label="Visit date"
+                className="border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            )}
+          </>
+        )}
+
+        {(action === 'addTags' || action === 'removeTags') && (
+          <div className="min-w-[240px]">
+            <TagInput value={tags} onChange={setTags} />
+          </div>
+        )}
+
+        {action === 'reassign' && (
+          <>
+            <select
+              value={ownerId}
+              onChange={(e) => setOwnerId(e.target.value)}
+              aria-label="New owner"
+              className="border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="">Select new owner</option>
+              {owners.map(owner => (
+                <option key={owner.id} value={owner.id}>{owner.name || owner.email}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason (optional)"
+              maxLength={500}
+              className="border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </>
+        )}
+
+        <button
+          type="submit"
+          disabled={!ready || running}
+          className={`py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white disabled:opacity-50 ${action === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+        >
+          {running ? 'Working...' : 'Apply'}
+        </button>
+        <button
+          type="button"
+          onClick={onClear}
+          className="text-sm text-gray-600 hover:text-gray-800"
+        >
+          Clear selection
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {summary && <p className="text-sm text-blue-900">{summary}</p>}
+      {failures.length > 0 && (
+        <ul className="text-sm text-red-700 list-disc pl-5">
+          {failures.map(failure => (
+            <li key={failure.id}>{failure.fullName}: {failure.error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import { BUYER_FILTER_KEYS } from '@/lib/validation';
+
+// Filter panel shared by the buyer list and the pipeline board.
+// Values are kept as strings in the same format as the list query string.
+
+export const FILTER_KEYS = BUYER_FILTER_KEYS.filter(key => key !== 'search');
+export type FilterKey = typeof FILTER_KEYS[number];
+export type Filters = Record<FilterKey, string>;
+
+export const EMPTY_FILTERS = Object.fromEntries(FILTER_KEYS.map(key => [key, ''])) as Filters;
+
+// Filters shown under "More filters"; the panel opens automatically when any is set
+const ADVANCED_KEYS: FilterKey[] = [
+  'bhk', 'purpose', 'source', 'budgetMin', 'budgetMax', 'tags', 'excludeTags',
+  'owner', 'createdFrom', 'createdTo', 'updatedFrom', 'updatedTo',
+];
+
+export const STATUSES = ['NEW', 'QUALIFIED', 'CONTACTED', 'VISITED', 'NEGOTIATION', 'CONVERTED', 'DROPPED'];
+
+interface Owner {
+  id: string;
+  name?: string;
+  email: string;
+}
+
+interface BuyerFiltersProps {
+  search: string;
+  filters: Filters;
+  onSearchChange: (value: string) => void;
+  onFilterChange: (key: FilterKey, value: string) => void;
+  onClear: () => void;
+}
+
+export default function BuyerFilters({ search, filters, onSearchChange, onFilterChange, onClear }: BuyerFiltersProps) {
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [owners, setOwners] = useState<Owner[]>([]);
+
+  useEffect(() => {
+    if (ADVANCED_KEYS.some(key => filters[key])) {
+      setShowAdvanced(true);
+    }
+  }, [filters]);
+
+  // Load users for the owner filter
+  useEffect(() => {
+    fetch('/api/users', { credentials: 'include' })
+      .then(response => response.ok ? response.json() : { users: [] })
+      .then(data => setOwners(data.users))
+      .catch(() => setOwners([]));
+  }, []);
+
+  const toggleStatus = (status: string) => {
+    const selected = filters.status ? filters.status.split(',') : [];
+    const next = selected.includes(status)
+      ? selected.filter(value => value !== status)
+      : [...selected, status];
+    onFilterChange('status', next.join(','));
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Search</label>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            placeholder="Name, email, phone, notes..."
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">City</label>
+          <select
+            value={filters.city}
+            onChange={(e) => onFilterChange('city', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">All Cities</option>
+            <option value="CHANDIGARH">Chandigarh</option>
+            <option value="MOHALI">Mohali</option>
+            <option value="ZIRAKPUR">Zirakpur</option>
+            <option value="PANCHKULA">Panchkula</option>
+            <option value="OTHER">Other</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Property Type</label>
+          <select
+            value={filters.propertyType}
+            onChange={(e) => onFilterChange('propertyType', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">All Types</option>
+            <option value="APARTMENT">Apartment</option>
+            <option value="VILLA">Villa</option>
+            <option value="PLOT">Plot</option>
+            <option value="OFFICE">Office</option>
+            <option value="RETAIL">Retail</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Timeline</label>
+          <select
+            value={filters.timeline}
+            onChange={(e) => onFilterChange('timeline', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">All Timelines</option>
+            <option value="ZERO_TO_THREE_MONTHS">0-3 months</option>
+            <option value="THREE_TO_SIX_MONTHS">3-6 months</option>
+            <option value="MORE_THAN_SIX_MONTHS">&gt;6 months</option>
+            <option value="EXPLORING">Exploring</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-700 mr-1">Status</span>
+        {STATUSES.map(status => {
+          const active = filters.status.split(',').includes(status)
+          return (
+            <button
+              key={status}
+              type="button"
+              onClick={() => toggleStatus(status)}
+              className={`px-3 py-1 rounded-full text-xs font-medium border ${active ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+            >
+              {status.charAt(0) + status.slice(1).toLowerCase()}
+            </button>
+          )
+        })}
+        <div className="ml-auto flex space-x-4">
+          <button
+            type="button"
+            onClick={() => setShowAdvanced(prev => !prev)}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            {showAdvanced ? 'Fewer filters' : 'More filters'}
+          </button>
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-sm text-gray-600 hover:text-gray-800"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {showAdvanced && (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-4 border-t border-gray-200 pt-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">BHK</label>
+            <select
+              value={filters.bhk}
+              onChange={(e) => onFilterChange('bhk', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Any BHK</option>
+              <option value="STUDIO">Studio</option>
+              <option value="ONE">1 BHK</option>
+              <option value="TWO">2 BHK</option>
+              <option value="THREE">3 BHK</option>
+              <option value="FOUR">4 BHK</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Purpose</label>
+            <select
+              value={filters.purpose}
+              onChange={(e) => onFilterChange('purpose', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Buy or Rent</option>
+              <option value="BUY">Buy</option>
+              <option value="RENT">Rent</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Source</label>
+            <select
+              value={filters.source}
+              onChange={(e) => onFilterChange('source', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All Sources</option>
+              <option value="WEBSITE">Website</option>
+              <option value="REFERRAL">Referral</option>
+              <option value="WALK_IN">Walk-in</option>
+              <option value="CALL">Call</option>
+              <option value="OTHER">Other</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Owner</label>
+            <select
+              value={filters.owner}
+              onChange={(e) => onFilterChange('owner', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Anyone</option>
+              <option value="me">Me</option>
+              {owners.map(owner => (
+                <option key={owner.id} value={owner.id}>
+                  {owner.name || owner.email}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Budget (₹)</label>
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                min="0"
+                value={filters.budgetMin}
+                onChange={(e) => onFilterChange('budgetMin', e.target.value)}
+                placeholder="Min"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <input
+                type="number"
+                min="0"
+                value={filters.budgetMax}
+                onChange={(e) => onFilterChange('budgetMax', e.target.value)}
+                placeholder="Max"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">With Tags</label>
+            <input
+              type="text"
+              value={filters.tags}
+              onChange={(e) => onFilterChange('tags', e.target.value)}
+              placeholder="urgent, family"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Without Tags</label>
+            <input
+              type="text"
+              value={filters.excludeTags}
+              onChange={(e) => onFilterChange('excludeTags', e.target.value)}
+              placeholder="investment"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Created</label>
+            <div className="flex space-x-2">
+              <input
+                type="date"
+                value={filters.createdFrom}
+                onChange={(e) => onFilterChange('createdFrom', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <input
+                type="date"
+                value={filters.createdTo}
+                onChange={(e) => onFilterChange('createdTo', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Updated</label>
+            <div className="flex space-x-2">
+              <input
+                type="date"
+                value={filters.updatedFrom}
+                onChange={(e) => onFilterChange('updatedFrom', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <input
+                type="date"
+                value={filters.updatedTo}
+                onChange={(e) => onFilterChange('updatedTo', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
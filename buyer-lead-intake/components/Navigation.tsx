@@ -1,5 +1,7 @@
 'use client'
 
+import Link from 'next/link';
+
 export default function Navigation() {
   const handleLogout = async () => {
     try {
@@ -20,18 +22,42 @@ export default function Navigation() {
             </h1>
           </div>
           <div className="flex items-center space-x-4">
-            <a
+            <Link
               href="/buyers"
               className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
             >
               Buyers
-            </a>
-            <a
+            </Link>
+            <Link
+              href="/tasks"
+              className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+            >
+              Tasks
+            </Link>
+            <Link
               href="/buyers/new"
               className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700"
             >
               New Lead
-            </a>
+            </Link>
+            <Link
+              href="/admin/assignment"
+              className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+            >
+              Assignment
+            </Link>
+            <Link
+              href="/admin/tags"
+              className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+            >
+              Tags
+            </Link>
+            <Link
+              href="/account"
+              className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
+            >
+              Account
+            </Link>
             <button
               onClick={handleLogout}
               className="text-gray-700 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium"
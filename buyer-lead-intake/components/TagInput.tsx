@@ -0,0 +1,134 @@
+'use client'
+
+import { useEffect, useState } from 'react';
+import { normalizeTagName } from '@/lib/validation';
+
+interface TagSuggestion {
+  id: string;
+  name: string;
+  count: number;
+}
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  id?: string;
+  placeholder?: string;
+}
+
+export default function TagInput({ value, onChange, id, placeholder = 'Add a tag...' }: TagInputProps) {
+  const [input, setInput] = useState('');
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  // Debounce lookups so typing a word doesn't fire a request per keystroke
+  useEffect(() => {
+    const query = normalizeTagName(input);
+    if (!query) {
+      setSuggestions([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/tags?q=${encodeURIComponent(query)}`);
+        if (response.ok) {
+          const data = await response.json();
+          setSuggestions(data.tags.filter((tag: TagSuggestion) => !value.includes(tag.name)));
+          setHighlighted(-1);
+        }
+      } catch (error) {
+        console.error('Error fetching tag suggestions:', error);
+      }
+    }, 200);
+
+    return () => clearTimeout(timeout);
+  }, [input, value]);
+
+  const addTag = (raw: string) => {
+    const name = normalizeTagName(raw);
+    if (name && !value.includes(name)) {
+      onChange([...value, name]);
+    }
+    setInput('');
+    setSuggestions([]);
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter(tag => tag !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(highlighted >= 0 ? suggestions[highlighted].name : input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(highlighted <= 0 ? suggestions.length - 1 : highlighted - 1);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="mt-1 flex flex-wrap items-center gap-2 w-full border border-gray-300 rounded-md shadow-sm px-2 py-1.5 focus-within:ring-1 focus-within:ring-blue-500 focus-within:border-blue-500">
+        {value.map(tag => (
+          <span
+            key={tag}
+            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="ml-1 text-blue-600 hover:text-blue-900"
+              aria-label={`Remove ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => input.trim() && addTag(input)}
+          className="flex-1 min-w-[8rem] border-0 p-0.5 focus:ring-0 sm:text-sm"
+          placeholder={value.length === 0 ? placeholder : ''}
+          autoComplete="off"
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-auto">
+          {suggestions.map((tag, index) => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                // mousedown fires before the input's blur, which would otherwise add the half-typed text
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag.name);
+                }}
+                className={`w-full flex justify-between px-3 py-2 text-sm text-left ${
+                  index === highlighted ? 'bg-blue-50 text-blue-900' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span>{tag.name}</span>
+                <span className="text-gray-400">{tag.count}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+'use client'
+
+import { useEffect, useState } from 'react';
+import { suggestFollowUp, taskBucket } from '@/lib/tasks';
+import type { Status, TaskType, Timeline } from '@/lib/validation';
+
+interface Task {
+  id: string;
+  type: TaskType;
+  dueAt: string;
+  notes?: string | null;
+  completedAt?: string | null;
+  assignee: {
+    id: string;
+    name?: string | null;
+    email: string;
+  };
+  permissions: {
+    edit: boolean;
+    delete: boolean;
+  };
+}
+
+interface TaskPanelProps {
+  buyerId: string;
+  timeline: Timeline;
+  status: Status;
+  canCreate: boolean;
+}
+
+export const TASK_TYPE_LABELS: Record<TaskType, string> = {
+  CALL: 'Call',
+  VISIT: 'Site visit',
+  EMAIL: 'Email',
+};
+
+// <input type="datetime-local"> works in local time without a timezone suffix
+const toLocalInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+export default function TaskPanel({ buyerId, timeline, status, canCreate }: TaskPanelProps) {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [showCompleted, setShowCompleted] = useState(false);
+  const [type, setType] = useState<TaskType>('CALL');
+  const [dueAt, setDueAt] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const suggestion = suggestFollowUp(timeline, status);
+
+  const fetchTasks = async () => {
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/tasks`);
+      if (response.ok) {
+        const data = await response.json();
+        setTasks(data.tasks);
+      }
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchTasks();
+  }, [buyerId]);
+
+  const openForm = () => {
+    setType(suggestion?.type ?? 'CALL');
+    setDueAt(toLocalInput(suggestion?.dueAt ?? new Date()));
+    setNotes('');
+    setError('');
+    setShowForm(true);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/tasks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          dueAt: new Date(dueAt).toISOString(),
+          ...(notes.trim() && { notes }),
+        }),
+      });
+
+      if (response.ok) {
+        setShowForm(false);
+        await fetchTasks();
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || 'Failed to create task');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setCompleted = async (task: Task, completed: boolean) => {
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/tasks/${task.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ completed }),
+      });
+
+      if (response.ok) {
+        await fetchTasks();
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || 'Failed to update task');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    }
+  };
+
+  const handleDelete = async (task: Task) => {
+    if (!confirm('Delete this task?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/tasks/${task.id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        await fetchTasks();
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || 'Failed to delete task');
+      }
+    } catch {
+      setError('Network error. Please try again.');
+    }
+  };
+
+  const openTasks = tasks.filter(task => !task.completedAt);
+  const completedTasks = tasks.filter(task => task.completedAt);
+
+  const renderTask = (task: Task) => {
+    const bucket = taskBucket(task);
+    return (
+      <li key={task.id} className="flex items-start space-x-3">
+        <input
+          type="checkbox"
+          checked={bucket === 'done'}
+          disabled={!task.permissions.edit}
+          onChange={(e) => setCompleted(task, e.target.checked)}
+          aria-label={`Mark ${TASK_TYPE_LABELS[task.type]} as ${bucket === 'done' ? 'open' : 'done'}`}
+          className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+        />
+        <div className="flex-1 min-w-0">
+          <div className={`text-sm ${bucket === 'done' ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+            {TASK_TYPE_LABELS[task.type]}
+          </div>
+          <div className={`text-xs ${bucket === 'overdue' ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+            {bucket === 'overdue' && 'Overdue: '}
+            {new Date(task.dueAt).toLocaleString()} • {task.assignee.name || task.assignee.email}
+          </div>
+          {task.notes && (
+            <div className="mt-1 text-xs text-gray-600 whitespace-pre-wrap">{task.notes}</div>
+          )}
+        </div>
+        {task.permissions.delete && (
+          <button
+            type="button"
+            onClick={() => handleDelete(task)}
+            className="text-xs text-red-600 hover:text-red-500"
+          >
+            Delete
+          </button>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Follow-ups</h3>
+          {canCreate && !showForm && (
+            <button
+              type="button"
+              onClick={openForm}
+              className="text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Add Task
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <p className="mb-3 text-sm text-red-600">{error}</p>
+        )}
+
+        {canCreate && !showForm && openTasks.length === 0 && suggestion && (
+          <p className="mb-3 text-sm text-gray-600">
+            Suggested next: {TASK_TYPE_LABELS[suggestion.type].toLowerCase()} on {suggestion.dueAt.toLocaleString()}
+          </p>
+        )}
+
+        {showForm && (
+          <form onSubmit={handleCreate} className="mb-4 space-y-3">
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as TaskType)}
+              className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              {Object.entries(TASK_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="datetime-local"
+              required
+              value={dueAt}
+              onChange={(e) => setDueAt(e.target.value)}
+              className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              maxLength={1000}
+              placeholder="Notes (optional)"
+              className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="bg-white py-1 px-3 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!dueAt || saving}
+                className="bg-blue-600 py-1 px-3 border border-transparent rounded-md shadow-sm text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Add Task'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {openTasks.length > 0 ? (
+          <ul className="space-y-3">{openTasks.map(renderTask)}</ul>
+        ) : (
+          !showForm && <p className="text-sm text-gray-500">No open follow-ups.</p>
+        )}
+
+        {completedTasks.length > 0 && (
+          <div className="mt-4">
+            <button
+              type="button"
+              onClick={() => setShowCompleted(!showCompleted)}
+              className="text-xs font-medium text-gray-500 hover:text-gray-700"
+            >
+              {showCompleted ? 'Hide' : 'Show'} {completedTasks.length} completed
+            </button>
+            {showCompleted && (
+              <ul className="mt-3 space-y-3">{completedTasks.map(renderTask)}</ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
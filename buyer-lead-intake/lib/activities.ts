@@ -0,0 +1,33 @@
+// Buyer timeline: activity log entries interleaved with BuyerHistory changes,
+// newest first. Both lists are expected newest first already; entries at the
+// same instant keep activities ahead of changes.
+
+export const TIMELINE_LIMIT = 50;
+
+export type TimelineEntry<A, H> =
+  | ({ kind: 'activity'; at: Date } & A)
+  | ({ kind: 'change'; at: Date } & H);
+
+export function mergeTimeline<
+  A extends { occurredAt: Date },
+  H extends { changedAt: Date }
+>(activities: A[], history: H[], limit: number = TIMELINE_LIMIT): TimelineEntry<A, H>[] {
+  const entries: TimelineEntry<A, H>[] = [];
+  let a = 0;
+  let h = 0;
+
+  while (entries.length < limit && (a < activities.length || h < history.length)) {
+    const activity = activities[a];
+    const change = history[h];
+
+    if (activity && (!change || activity.occurredAt >= change.changedAt)) {
+      entries.push({ ...activity, kind: 'activity', at: activity.occurredAt });
+      a++;
+    } else {
+      entries.push({ ...change, kind: 'change', at: change.changedAt });
+      h++;
+    }
+  }
+
+  return entries;
+}
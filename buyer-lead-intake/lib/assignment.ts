@@ -0,0 +1,164 @@
+import type { AssignmentRule, City, PropertyType, Purpose, Source } from '@prisma/client';
+import { prisma } from './db';
+
+// Lead assignment engine.
+// Active rules are evaluated by ascending priority; the first match wins.
+// Leads that match no rule go to the round-robin pool member with the fewest open leads,
+// and if nobody is in the pool the creator keeps the lead.
+
+const CLOSED_STATUSES = ['CONVERTED', 'DROPPED'] as const;
+
+export interface AssignableLead {
+  city: City;
+  propertyType: PropertyType;
+  purpose: Purpose;
+  source: Source;
+  budgetMin?: number | null;
+  budgetMax?: number | null;
+}
+
+export type RuleCriteria = Pick<
+  AssignmentRule,
+  'city' | 'propertyType' | 'purpose' | 'source' | 'budgetMin' | 'budgetMax'
+>;
+
+export interface AgentLoad {
+  id: string;
+  openLeads: number;
+  lastAssignedAt: Date | null;
+}
+
+export interface AssignmentContext {
+  rules: AssignmentRule[];
+  pool: AgentLoad[];
+}
+
+export type AssignmentSource = 'rule' | 'round_robin' | 'creator';
+
+// A type alias (not an interface) so decisions can be stored in history JSON
+export type AssignmentDecision = {
+  ownerId: string;
+  via: AssignmentSource;
+  ruleId?: string;
+};
+
+// A budget band matches when it overlaps the lead's budget range.
+// Leads without any budget never match a rule that specifies a band.
+function budgetMatches(rule: RuleCriteria, lead: AssignableLead): boolean {
+  if (rule.budgetMin == null && rule.budgetMax == null) {
+    return true;
+  }
+
+  const leadMin = lead.budgetMin ?? lead.budgetMax;
+  const leadMax = lead.budgetMax ?? lead.budgetMin;
+  if (leadMin == null || leadMax == null) {
+    return false;
+  }
+
+  const ruleMin = rule.budgetMin ?? 0;
+  const ruleMax = rule.budgetMax ?? Number.MAX_SAFE_INTEGER;
+  return leadMin <= ruleMax && leadMax >= ruleMin;
+}
+
+export function ruleMatches(rule: RuleCriteria, lead: AssignableLead): boolean {
+  if (rule.city && rule.city !== lead.city) return false;
+  if (rule.propertyType && rule.propertyType !== lead.propertyType) return false;
+  if (rule.purpose && rule.purpose !== lead.purpose) return false;
+  if (rule.source && rule.source !== lead.source) return false;
+  return budgetMatches(rule, lead);
+}
+
+// Fewest open leads wins; ties go to whoever was assigned a lead least recently,
+// then to whoever comes first in the pool
+export function pickLeastLoaded(pool: AgentLoad[]): AgentLoad | null {
+  let best: AgentLoad | null = null;
+
+  for (const agent of pool) {
+    if (
+      !best ||
+      agent.openLeads < best.openLeads ||
+      (agent.openLeads === best.openLeads &&
+        (agent.lastAssignedAt?.getTime() ?? 0) < (best.lastAssignedAt?.getTime() ?? 0))
+    ) {
+      best = agent;
+    }
+  }
+
+  return best;
+}
+
+// Decide the owner for a lead. Mutates the pool loads so that a batch of
+// decisions made against one context (e.g. a CSV import) spreads evenly.
+export function assignOwner(
+  context: AssignmentContext,
+  lead: AssignableLead,
+  creatorId: string
+): AssignmentDecision {
+  const now = new Date();
+  const rule = context.rules.find(candidate => candidate.active && ruleMatches(candidate, lead));
+
+  let decision: AssignmentDecision;
+  if (rule) {
+    decision = { ownerId: rule.assigneeId, via: 'rule', ruleId: rule.id };
+  } else {
+    const agent = pickLeastLoaded(context.pool);
+    decision = agent
+      ? { ownerId: agent.id, via: 'round_robin' }
+      : { ownerId: creatorId, via: 'creator' };
+  }
+
+  // Rotate the chosen agent to the back so ties within the same millisecond still alternate
+  const index = context.pool.findIndex(agent => agent.id === decision.ownerId);
+  if (index !== -1) {
+    const [load] = context.pool.splice(index, 1);
+    load.openLeads += 1;
+    load.lastAssignedAt = now;
+    context.pool.push(load);
+  }
+
+  return decision;
+}
+
+// Load active rules and the round-robin pool with each member's open-lead count
+export async function loadAssignmentContext(): Promise<AssignmentContext> {
+  const [rules, poolUsers] = await Promise.all([
+    prisma.assignmentRule.findMany({
+      where: { active: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    }),
+    prisma.user.findMany({
+      where: { inRoundRobin: true },
+      select: { id: true },
+    }),
+  ]);
+
+  const poolIds = poolUsers.map(user => user.id);
+  if (poolIds.length === 0) {
+    return { rules, pool: [] };
+  }
+
+  const [openCounts, latest] = await Promise.all([
+    prisma.buyer.groupBy({
+      by: ['ownerId'],
+      where: { ownerId: { in: poolIds }, status: { notIn: [...CLOSED_STATUSES] }, deletedAt: null },
+      _count: { _all: true },
+    }),
+    prisma.buyer.groupBy({
+      by: ['ownerId'],
+      where: { ownerId: { in: poolIds } },
+      _max: { createdAt: true },
+    }),
+  ]);
+
+  const openByOwner = new Map(openCounts.map(row => [row.ownerId, row._count._all]));
+  const latestByOwner = new Map(latest.map(row => [row.ownerId, row._max.createdAt]));
+
+  return {
+    rules,
+    pool: poolIds.map(id => ({
+      id,
+      openLeads: openByOwner.get(id) ?? 0,
+      lastAssignedAt: latestByOwner.get(id) ?? null,
+    })),
+  };
+}
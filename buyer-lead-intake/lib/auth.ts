@@ -1,16 +1,26 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import { randomBytes } from 'crypto';
+import type { Role } from '@prisma/client';
 import { prisma } from './db';
+import { canManageUsers } from './permissions';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-key';
 const DEMO_USER_EMAIL = process.env.DEMO_USER_EMAIL || 'demo@example.com';
-const DEMO_USER_PASSWORD = process.env.DEMO_USER_PASSWORD || 'demo123';
+// The demo account only exists in development, unless a password is configured explicitly
+const DEMO_USER_PASSWORD = process.env.DEMO_USER_PASSWORD
+  || (process.env.NODE_ENV === 'development' ? 'demo123' : undefined);
+
+const BCRYPT_ROUNDS = 10;
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
 export interface User {
   id: string;
   email: string;
-  name?: string;
+  name?: string | null;
+  role: Role;
+  teamId?: string | null;
 }
 
 export interface JWTPayload {
@@ -18,20 +28,53 @@ export interface JWTPayload {
   email: string;
 }
 
-// Create demo user if it doesn't exist
+// Fields that are safe to return to the client (never include passwordHash)
+export const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  teamId: true,
+} as const;
+
+// Hash a plain-text password
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+// Compare a plain-text password against a stored hash
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  return bcrypt.compare(password, passwordHash);
+}
+
+// Create demo user if it doesn't exist, or backfill its password hash
 export async function ensureDemoUser() {
+  if (!DEMO_USER_PASSWORD) {
+    return;
+  }
+
   const existingUser = await prisma.user.findUnique({
     where: { email: DEMO_USER_EMAIL }
   });
 
-  if (!existingUser) {
-    const hashedPassword = await bcrypt.hash(DEMO_USER_PASSWORD, 10);
+  if (existingUser?.passwordHash) {
+    return;
+  }
+
+  const passwordHash = await hashPassword(DEMO_USER_PASSWORD);
+
+  if (existingUser) {
+    await prisma.user.update({
+      where: { id: existingUser.id },
+      data: { passwordHash }
+    });
+  } else {
     await prisma.user.create({
       data: {
         email: DEMO_USER_EMAIL,
         name: 'Demo User',
-        // Note: We're not storing password in the simplified version
-        // In production, you'd have a password field in the User model
+        passwordHash,
+        role: 'AGENT',
       }
     });
   }
@@ -51,10 +94,21 @@ export function verifyToken(token: string): JWTPayload | null {
   }
 }
 
+// Set the HTTP-only session cookie on a response
+export function setAuthCookie(response: NextResponse, token: string) {
+  response.cookies.set('auth-token', token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 7 * 24 * 60 * 60, // 7 days
+    path: '/'
+  });
+}
+
 // Get user from request
 export async function getUserFromRequest(request: NextRequest): Promise<User | null> {
   const token = request.cookies.get('auth-token')?.value;
-  
+
   if (!token) {
     return null;
   }
@@ -65,7 +119,8 @@ export async function getUserFromRequest(request: NextRequest): Promise<User | n
   }
 
   const user = await prisma.user.findUnique({
-    where: { id: payload.userId }
+    where: { id: payload.userId },
+    select: userSelect
   });
 
   return user;
@@ -73,35 +128,142 @@ export async function getUserFromRequest(request: NextRequest): Promise<User | n
 
 // Login function
 export async function login(email: string, password: string): Promise<{ user: User; token: string } | null> {
-  // For demo purposes, we'll use hardcoded credentials
-  // In production, you'd check against the database
-  if (email === DEMO_USER_EMAIL && password === DEMO_USER_PASSWORD) {
-    const user = await prisma.user.findUnique({
-      where: { email: DEMO_USER_EMAIL }
-    });
+  // The demo account is bootstrapped on first login so a fresh database still works
+  if (email === DEMO_USER_EMAIL) {
+    await ensureDemoUser();
+  }
 
-    if (!user) {
-      await ensureDemoUser();
-      const newUser = await prisma.user.findUnique({
-        where: { email: DEMO_USER_EMAIL }
-      });
-      if (newUser) {
-        const token = generateToken({ userId: newUser.id, email: newUser.email });
-        return { user: newUser, token };
-      }
-    } else {
-      const token = generateToken({ userId: user.id, email: user.email });
-      return { user, token };
-    }
+  const account = await prisma.user.findUnique({
+    where: { email }
+  });
+
+  // Invited users have no password until they complete signup
+  if (!account || !account.passwordHash) {
+    return null;
+  }
+
+  const isValid = await verifyPassword(password, account.passwordHash);
+  if (!isValid) {
+    return null;
+  }
+
+  const user: User = {
+    id: account.id,
+    email: account.email,
+    name: account.name,
+    role: account.role,
+    teamId: account.teamId,
+  };
+  const token = generateToken({ userId: user.id, email: user.email });
+  return { user, token };
+}
+
+// Create a pending user with a one-time invite token
+export async function createInvite(
+  email: string,
+  name: string | undefined,
+  invitedBy: User,
+  role: Role = 'AGENT',
+  teamId?: string
+): Promise<{ user: User; inviteToken: string; expiresAt: Date } | null> {
+  const existingUser = await prisma.user.findUnique({
+    where: { email }
+  });
+
+  // Accounts that already have a password cannot be re-invited. Re-issuing a pending
+  // invite replaces its token, role and team, so only admins may do that.
+  if (existingUser && (existingUser.passwordHash || !canManageUsers(invitedBy))) {
+    return null;
+  }
+
+  const inviteToken = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + INVITE_TTL_MS);
+
+  const user = await prisma.user.upsert({
+    where: { email },
+    update: {
+      name: name ?? existingUser?.name,
+      inviteToken,
+      inviteExpiresAt: expiresAt,
+      invitedBy: invitedBy.id,
+      role,
+      teamId,
+    },
+    create: {
+      email,
+      name,
+      inviteToken,
+      inviteExpiresAt: expiresAt,
+      invitedBy: invitedBy.id,
+      role,
+      teamId,
+    },
+    select: userSelect
+  });
+
+  return { user, inviteToken, expiresAt };
+}
+
+// Complete signup for an invited user by setting their password
+export async function acceptInvite(
+  inviteToken: string,
+  password: string,
+  name?: string
+): Promise<{ user: User; token: string } | null> {
+  const invited = await prisma.user.findUnique({
+    where: { inviteToken }
+  });
+
+  if (!invited || !invited.inviteExpiresAt || invited.inviteExpiresAt.getTime() < Date.now()) {
+    return null;
+  }
+
+  const user = await prisma.user.update({
+    where: { id: invited.id },
+    data: {
+      name: name || invited.name,
+      passwordHash: await hashPassword(password),
+      inviteToken: null,
+      inviteExpiresAt: null,
+    },
+    select: userSelect
+  });
+
+  const token = generateToken({ userId: user.id, email: user.email });
+  return { user, token };
+}
+
+// Change password after verifying the current one
+export async function changePassword(
+  userId: string,
+  currentPassword: string,
+  newPassword: string
+): Promise<boolean> {
+  const account = await prisma.user.findUnique({
+    where: { id: userId }
+  });
+
+  if (!account || !account.passwordHash) {
+    return false;
+  }
+
+  const isValid = await verifyPassword(currentPassword, account.passwordHash);
+  if (!isValid) {
+    return false;
   }
 
-  return null;
+  await prisma.user.update({
+    where: { id: userId },
+    data: { passwordHash: await hashPassword(newPassword) }
+  });
+
+  return true;
 }
 
 // Middleware to check authentication
 export async function requireAuth(request: NextRequest): Promise<User> {
   const user = await getUserFromRequest(request);
-  
+
   if (!user) {
     throw new Error('Unauthorized');
   }
@@ -0,0 +1,34 @@
+import { StatusSchema, type Status } from './validation';
+
+// Pipeline board: one column per status with lead counts and budget totals.
+// A lead's budget counts as its range, so a lead with only a minimum or only
+// a maximum contributes that value to both ends of the column total.
+
+export const BOARD_COLUMN_LIMIT = 50;
+
+export interface ColumnTotals {
+  count: number;
+  budgetLow: number;
+  budgetHigh: number;
+}
+
+export interface BudgetRow {
+  status: Status;
+  budgetMin: number | null;
+  budgetMax: number | null;
+}
+
+export function columnTotals(rows: BudgetRow[]): Record<Status, ColumnTotals> {
+  const totals = Object.fromEntries(
+    StatusSchema.options.map(status => [status, { count: 0, budgetLow: 0, budgetHigh: 0 }])
+  ) as Record<Status, ColumnTotals>;
+
+  for (const row of rows) {
+    const column = totals[row.status];
+    column.count += 1;
+    column.budgetLow += row.budgetMin ?? row.budgetMax ?? 0;
+    column.budgetHigh += row.budgetMax ?? row.budgetMin ?? 0;
+  }
+
+  return totals;
+}
@@ -0,0 +1,139 @@
+import { prisma } from './db';
+import type { User } from './auth';
+import { updateBuyer, type BuyerChanges } from './buyers';
+import { buyersToCsv, exportBuyerInclude } from './export';
+import { buyerAccessSelect, canAccessBuyer } from './permissions';
+import { buyerTagsInclude, withTagNames } from './tags';
+import { trashBuyer } from './trash';
+import type { BulkAction, Status } from './validation';
+
+// Bulk actions from the buyers list. Each buyer goes through the same code as a
+// single-record change (updateBuyer, trashBuyer), one at a time, so access checks,
+// the status pipeline and history entries apply per buyer and a failing row is
+// reported without stopping the rest. Reassignment uses reassignBuyers directly.
+
+export interface BulkResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+export type BulkChange = Extract<BulkAction, { action: 'status' | 'addTags' | 'removeTags' | 'delete' }>;
+
+const MAX_TAGS = 20;
+
+// A buyer's tags after adding or removing some, or why the buyer is skipped
+export function bulkTagChange(
+  current: string[],
+  action: 'addTags' | 'removeTags',
+  tags: string[]
+): { tags: string[] } | { error: string } {
+  if (action === 'addTags') {
+    const next = [...new Set([...current, ...tags])];
+    if (next.length === current.length) {
+      return { error: 'Buyer already has these tags' };
+    }
+    if (next.length > MAX_TAGS) {
+      return { error: `At most ${MAX_TAGS} tags are allowed` };
+    }
+    return { tags: next };
+  }
+
+  const next = current.filter(tag => !tags.includes(tag));
+  if (next.length === current.length) {
+    return { error: 'Buyer has none of these tags' };
+  }
+  return { tags: next };
+}
+
+interface BulkTarget {
+  id: string;
+  ownerId: string;
+  owner: { teamId: string | null };
+  status: Status;
+  tags: string[];
+}
+
+async function changeBuyer(user: User, buyer: BulkTarget, change: BulkChange): Promise<BulkResult> {
+  const { id } = buyer;
+
+  if (change.action === 'delete') {
+    const result = await trashBuyer(user, id);
+    return result.success ? { id, success: true } : { id, success: false, error: result.error };
+  }
+
+  // Checked before the no-op rules below so they don't reveal anything about other agents' leads
+  if (!canAccessBuyer(user, 'edit', buyer)) {
+    return { id, success: false, error: 'You can only edit your own buyers' };
+  }
+
+  let changes: BuyerChanges;
+  if (change.action === 'status') {
+    if (buyer.status === change.status) {
+      return { id, success: false, error: 'Buyer already has this status' };
+    }
+    changes = { status: change.status, dropReason: change.dropReason, visitDate: change.visitDate };
+  } else {
+    const tagChange = bulkTagChange(buyer.tags, change.action, change.tags);
+    if ('error' in tagChange) {
+      return { id, success: false, error: tagChange.error };
+    }
+    changes = { tags: tagChange.tags };
+  }
+
+  const result = await updateBuyer(user, id, changes);
+  return result.success ? { id, success: true } : { id, success: false, error: result.error };
+}
+
+export async function runBulkChange(user: User, change: BulkChange): Promise<BulkResult[]> {
+  const ids = [...new Set(change.buyerIds)];
+  const buyers = await prisma.buyer.findMany({
+    where: { id: { in: ids }, deletedAt: null },
+    select: { ...buyerAccessSelect, status: true, tags: buyerTagsInclude }
+  });
+  const buyersById = new Map(buyers.map(buyer => [buyer.id, withTagNames(buyer)]));
+
+  const results: BulkResult[] = [];
+  for (const id of ids) {
+    const buyer = buyersById.get(id);
+    results.push(buyer
+      ? await changeBuyer(user, buyer, change)
+      : { id, success: false, error: 'Buyer not found' });
+  }
+
+  return results;
+}
+
+// CSV of the selected buyers the user can see, in the order they were selected
+export async function exportSelection(
+  user: User,
+  buyerIds: string[]
+): Promise<{ results: BulkResult[]; csv: string }> {
+  const ids = [...new Set(buyerIds)];
+  const buyers = await prisma.buyer.findMany({
+    where: { id: { in: ids }, deletedAt: null },
+    include: {
+      ...exportBuyerInclude,
+      owner: {
+        select: { name: true, email: true, teamId: true }
+      },
+    }
+  });
+  const buyersById = new Map(buyers.map(buyer => [buyer.id, buyer]));
+
+  const results: BulkResult[] = [];
+  const exported: typeof buyers = [];
+  for (const id of ids) {
+    const buyer = buyersById.get(id);
+    if (!buyer) {
+      results.push({ id, success: false, error: 'Buyer not found' });
+    } else if (!canAccessBuyer(user, 'view', buyer)) {
+      results.push({ id, success: false, error: 'You do not have access to this buyer' });
+    } else {
+      exported.push(buyer);
+      results.push({ id, success: true });
+    }
+  }
+
+  return { results, csv: await buyersToCsv(exported) };
+}
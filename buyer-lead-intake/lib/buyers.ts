@@ -0,0 +1,177 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import type { User } from './auth';
+import { buyerAccessSelect, canAccessBuyer } from './permissions';
+import { completeReassignment } from './reassignment';
+import { buyerTagsInclude, replaceTags, withTagNames } from './tags';
+import { statusTransitionError, type UpdateBuyer } from './validation';
+
+// The single update path for buyer records, shared by the edit form and the
+// board (PUT /api/buyers/[id]) and by history reverts. It checks access, the
+// updatedAt version, ownership changes and the status pipeline, then saves the
+// change with a history entry.
+
+export interface BuyerHistoryOptions {
+  // Recorded as diff.action; reverts record 'reverted'
+  action?: string;
+  // Extra keys stored alongside the diff, e.g. which version was restored
+  details?: Record<string, Prisma.InputJsonValue>;
+}
+
+const updatedBuyerInclude = {
+  owner: {
+    select: { id: true, name: true, email: true }
+  },
+  tags: buyerTagsInclude,
+} as const;
+
+export type UpdatedBuyer = Omit<Prisma.BuyerGetPayload<{ include: typeof updatedBuyerInclude }>, 'tags'> & { tags: string[] };
+
+// Optional fields may also be cleared with null (reverts can restore empty values)
+type ClearableField = 'email' | 'bhk' | 'budgetMin' | 'budgetMax' | 'notes';
+export type BuyerChanges = Omit<UpdateBuyer, ClearableField> & {
+  [K in ClearableField]?: UpdateBuyer[K] | null;
+};
+
+export type UpdateBuyerResult =
+  | { success: true; buyer: UpdatedBuyer }
+  | { success: false; status: number; error: string };
+
+export async function updateBuyer(
+  user: User,
+  id: string,
+  data: BuyerChanges,
+  options: BuyerHistoryOptions = {}
+): Promise<UpdateBuyerResult> {
+  return prisma.$transaction(tx => saveBuyerUpdate(tx, user, id, data, options));
+}
+
+// The checks and the save inside the caller's transaction; import jobs use this to
+// apply a chunk's updates in the transaction that claims the chunk
+export async function saveBuyerUpdate(
+  tx: Prisma.TransactionClient,
+  user: User,
+  id: string,
+  data: BuyerChanges,
+  { action = 'updated', details = {} }: BuyerHistoryOptions = {}
+): Promise<UpdateBuyerResult> {
+  const { updatedAt, ownerId, tags, dropReason, visitDate, ...updateData } = data;
+
+  // Check if buyer exists and user may edit it
+  const existingBuyer = await tx.buyer.findUnique({
+    where: { id, deletedAt: null },
+    select: buyerAccessSelect
+  });
+
+  if (!existingBuyer) {
+    return { success: false, status: 404, error: 'Buyer not found' };
+  }
+
+  if (!canAccessBuyer(user, 'edit', existingBuyer)) {
+    return { success: false, status: 403, error: 'You can only edit your own buyers' };
+  }
+
+  const isReassign = !!ownerId && ownerId !== existingBuyer.ownerId;
+
+  if (isReassign) {
+    if (!canAccessBuyer(user, 'reassign', existingBuyer)) {
+      return { success: false, status: 403, error: 'Only admins can change the owner of a buyer' };
+    }
+
+    const newOwner = await tx.user.findUnique({
+      where: { id: ownerId },
+      select: { id: true }
+    });
+    if (!newOwner) {
+      return { success: false, status: 400, error: 'Owner not found' };
+    }
+  }
+
+  // Concurrency check
+  if (updatedAt && new Date(updatedAt).getTime() !== existingBuyer.updatedAt.getTime()) {
+    return { success: false, status: 409, error: 'Buyer has been modified by another user. Please refresh and try again.' };
+  }
+
+  // Get old data for history
+  const oldBuyer = await tx.buyer.findUnique({
+    where: { id },
+    include: { tags: buyerTagsInclude }
+  });
+  const oldTags = oldBuyer ? withTagNames(oldBuyer).tags : [];
+
+  // Enforce the status pipeline
+  const oldStatus = oldBuyer?.status ?? 'NEW';
+  const newStatus = updateData.status ?? oldStatus;
+  const transitionError = statusTransitionError(oldStatus, newStatus, { dropReason, visitDate });
+  if (transitionError) {
+    return { success: false, status: 400, error: transitionError };
+  }
+
+  // Drop reasons only apply while a lead is dropped; visit dates are kept as history of the last visit
+  const statusData: { dropReason?: string | null; visitedAt?: Date } = {};
+  if (newStatus === 'DROPPED' && dropReason) {
+    statusData.dropReason = dropReason;
+  } else if (oldStatus === 'DROPPED' && newStatus !== 'DROPPED') {
+    statusData.dropReason = null;
+  }
+  if (newStatus === 'VISITED' && visitDate) {
+    statusData.visitedAt = new Date(visitDate);
+  }
+
+  // Update buyer with history
+  const updatedBuyer = await tx.buyer.update({
+    where: { id },
+    data: {
+      ...updateData,
+      ...statusData,
+      ...(tags && { tags: replaceTags(tags) }),
+      ...(isReassign && { ownerId }),
+    },
+    include: updatedBuyerInclude,
+  });
+
+  // Create history entry with diff
+  const diff: Record<string, { old: unknown; new: unknown }> = {};
+  Object.keys(updateData).forEach(key => {
+    if (oldBuyer && oldBuyer[key as keyof typeof oldBuyer] !== updateData[key as keyof typeof updateData]) {
+      diff[key] = {
+        old: oldBuyer[key as keyof typeof oldBuyer],
+        new: updateData[key as keyof typeof updateData]
+      };
+    }
+  });
+
+  if (statusData.dropReason !== undefined && statusData.dropReason !== oldBuyer?.dropReason) {
+    diff.dropReason = { old: oldBuyer?.dropReason, new: statusData.dropReason };
+  }
+  if (statusData.visitedAt && statusData.visitedAt.getTime() !== oldBuyer?.visitedAt?.getTime()) {
+    diff.visitedAt = { old: oldBuyer?.visitedAt, new: statusData.visitedAt };
+  }
+
+  if (tags && [...tags].sort().join(',') !== oldTags.join(',')) {
+    diff.tags = { old: oldTags, new: tags };
+  }
+
+  if (Object.keys(diff).length > 0) {
+    await tx.buyerHistory.create({
+      data: {
+        buyerId: id,
+        changedBy: user.id,
+        diff: {
+          action,
+          // Old and new values are column values: strings, numbers, dates and tag lists
+          fields: diff as Prisma.InputJsonValue,
+          ...details,
+        },
+      },
+    });
+  }
+
+  // Ownership transfers get their own entry so they stand out in the history,
+  // and take open tasks along as bulk reassignment does
+  if (isReassign) {
+    await completeReassignment(tx, user.id, id, existingBuyer.ownerId, ownerId);
+  }
+
+  return { success: true, buyer: withTagNames(updatedBuyer) };
+}
@@ -0,0 +1,60 @@
+import {
+  BhkSchema,
+  CitySchema,
+  IMPORT_FIELDS,
+  PropertyTypeSchema,
+  PurposeSchema,
+  SourceSchema,
+  StatusSchema,
+  TAG_SEPARATOR,
+  TimelineSchema,
+} from './validation';
+
+// The buyer CSV layout written by the exports and read back by the import; Excel
+// exports use the same columns. Every import field is a column, so an exported file
+// can be edited and imported again (in UPSERT mode, matched on `id`) without losing
+// anything. The trailing columns are for reading only and are not mapped on import.
+//
+// The version changes whenever a column is added, removed or re-encoded, and every
+// row carries it in the formatVersion column. Version 1 files had no such column and
+// are recognised by their header row, so older exports keep importing as before.
+
+export const BUYER_CSV_VERSION = 2;
+
+export const BUYER_CSV_VERSION_COLUMN = 'formatVersion';
+
+export const BUYER_CSV_READ_ONLY_COLUMNS = ['owner', 'createdAt', 'updatedAt', BUYER_CSV_VERSION_COLUMN] as const;
+
+// Import columns of version 1 exports, before drop reasons and visit dates were added
+const VERSION_1_COLUMNS = ['id', 'fullName', 'email', 'phone', 'city', 'propertyType', 'bhk', 'purpose', 'budgetMin', 'budgetMax', 'timeline', 'source', 'status', 'notes', 'tags'];
+
+export const BUYER_CSV_COLUMNS = [...IMPORT_FIELDS, ...BUYER_CSV_READ_ONLY_COLUMNS];
+
+export type BuyerCsvColumn = typeof BUYER_CSV_COLUMNS[number];
+
+// Columns limited to a fixed set of values; Excel exports offer them as dropdowns
+export const BUYER_CSV_ENUM_COLUMNS: Partial<Record<BuyerCsvColumn, readonly string[]>> = {
+  city: CitySchema.options,
+  propertyType: PropertyTypeSchema.options,
+  bhk: BhkSchema.options,
+  purpose: PurposeSchema.options,
+  timeline: TimelineSchema.options,
+  source: SourceSchema.options,
+  status: StatusSchema.options,
+};
+
+// Tags share one cell; CSVBuyerSchema splits it on the same separator
+export function formatCsvTags(tags: string[]): string {
+  return [...tags].sort().join(TAG_SEPARATOR);
+}
+
+// The format version a file was exported in, read from its first data row, or null for
+// other spreadsheets
+export function detectBuyerCsvVersion(headers: string[], firstRow?: Record<string, string>): number | null {
+  if (headers.includes(BUYER_CSV_VERSION_COLUMN)) {
+    const version = Number(firstRow?.[BUYER_CSV_VERSION_COLUMN]);
+    return Number.isInteger(version) && version > 0 ? version : null;
+  }
+
+  return VERSION_1_COLUMNS.every(column => headers.includes(column)) ? 1 : null;
+}
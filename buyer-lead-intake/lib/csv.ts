@@ -0,0 +1,45 @@
+import csv from 'csv-parser';
+import { Readable } from 'stream';
+
+export interface ParsedCsv {
+  headers: string[];
+  // The first `limit` rows
+  rows: Record<string, string>[];
+  // Every non-blank data row in the file
+  totalRows: number;
+}
+
+// Stream the data rows of a CSV, keyed by header. Headers are trimmed (which also
+// drops a leading byte order mark) and rows with only blank cells are skipped.
+export async function* readCsvRows(
+  input: Readable,
+  onHeaders?: (headers: string[]) => void
+): AsyncGenerator<Record<string, string>> {
+  const parser = input.pipe(csv({ mapHeaders: ({ header }) => header.trim() }));
+  if (onHeaders) {
+    parser.on('headers', onHeaders);
+  }
+
+  for await (const row of parser as AsyncIterable<Record<string, string>>) {
+    if (Object.values(row).some(value => value.trim() !== '')) {
+      yield row;
+    }
+  }
+}
+
+// Parse CSV text or a file stream into its header row and up to `limit` data rows
+export async function parseCsv(content: string | Readable, limit = Infinity): Promise<ParsedCsv> {
+  let headers: string[] = [];
+  const rows: Record<string, string>[] = [];
+  let totalRows = 0;
+
+  const input = typeof content === 'string' ? Readable.from([content]) : content;
+  for await (const row of readCsvRows(input, parsed => { headers = parsed; })) {
+    totalRows++;
+    if (rows.length < limit) {
+      rows.push(row);
+    }
+  }
+
+  return { headers, rows, totalRows };
+}
@@ -0,0 +1,230 @@
+import type { Buyer, Prisma } from '@prisma/client';
+import type { User } from './auth';
+import { prisma } from './db';
+import { canAccessBuyer } from './permissions';
+import { editDistance, searchBuyerIds, tokenizeQuery } from './search';
+import { MERGE_FIELDS, normalizePhone, type MergeField } from './validation';
+
+// Duplicate lead detection.
+// Two leads are treated as the same person when they share a normalized phone number
+// or email address, or when their names are within a couple of typos of each other.
+// Create-time checks use the search index to find candidates; batch scans compare in memory.
+
+export type DuplicateReason = 'phone' | 'email' | 'name';
+
+export interface DuplicateCandidate {
+  fullName: string;
+  phone: string;
+  email?: string | null;
+}
+
+export interface DuplicateGroup<T> {
+  buyers: T[];
+  reasons: DuplicateReason[];
+}
+
+export type DuplicateMatch = Buyer & {
+  owner: { id: string; name: string | null; email: string; teamId: string | null };
+  reasons: DuplicateReason[];
+};
+
+export type MergeSide = 'survivor' | 'duplicate';
+
+const CANDIDATE_LIMIT = 20;
+
+export function normalizeEmail(email: string | null | undefined): string {
+  return (email ?? '').trim().toLowerCase();
+}
+
+// Words are sorted so "Sharma Rahul" and "Rahul Sharma" compare equal
+export function normalizeName(name: string): string {
+  return tokenizeQuery(name).sort().join(' ');
+}
+
+// Longer names tolerate more typos: none under 5 letters, one up to 9, two beyond
+export function namesMatch(a: string, b: string): boolean {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) {
+    return false;
+  }
+
+  const budget = Math.min(2, Math.floor(Math.min(left.length, right.length) / 5));
+  return editDistance(left, right, budget) <= budget;
+}
+
+export function duplicateReasons(a: DuplicateCandidate, b: DuplicateCandidate): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+
+  const phone = normalizePhone(a.phone);
+  if (phone && phone === normalizePhone(b.phone)) {
+    reasons.push('phone');
+  }
+
+  const email = normalizeEmail(a.email);
+  if (email && email === normalizeEmail(b.email)) {
+    reasons.push('email');
+  }
+
+  if (namesMatch(a.fullName, b.fullName)) {
+    reasons.push('name');
+  }
+
+  return reasons;
+}
+
+// Existing buyers that look like the candidate, strongest matches (most reasons) first
+export async function findDuplicates(
+  candidate: DuplicateCandidate,
+  excludeId?: string
+): Promise<DuplicateMatch[]> {
+  // Candidates come from every owner: a lead the user can't see is still a duplicate,
+  // and summarizeDuplicate hides its details. Trashed leads are never candidates.
+  const email = normalizeEmail(candidate.email);
+  const idLists = await Promise.all([
+    searchBuyerIds(candidate.phone, { limit: CANDIDATE_LIMIT }),
+    email ? searchBuyerIds(email, { limit: CANDIDATE_LIMIT }) : Promise.resolve([]),
+    searchBuyerIds(candidate.fullName, { limit: CANDIDATE_LIMIT }),
+  ]);
+
+  const ids = [...new Set(idLists.flat())].filter(id => id !== excludeId);
+  if (ids.length === 0) {
+    return [];
+  }
+
+  // The index only narrows the field; every candidate is confirmed against the rules above
+  const buyers = await prisma.buyer.findMany({
+    where: { id: { in: ids }, deletedAt: null },
+    include: {
+      owner: {
+        select: { id: true, name: true, email: true, teamId: true }
+      }
+    }
+  });
+
+  return buyers
+    .map(buyer => ({ ...buyer, reasons: duplicateReasons(candidate, buyer) }))
+    .filter(buyer => buyer.reasons.length > 0)
+    .sort((a, b) => b.reasons.length - a.reasons.length);
+}
+
+// Matches the user cannot open only say who owns them, not the lead's details
+export function summarizeDuplicate(user: User, match: DuplicateMatch) {
+  const owner = { id: match.owner.id, name: match.owner.name, email: match.owner.email };
+
+  if (!canAccessBuyer(user, 'view', match)) {
+    return { id: match.id, reasons: match.reasons, owner, visible: false };
+  }
+
+  return {
+    id: match.id,
+    fullName: match.fullName,
+    email: match.email,
+    phone: match.phone,
+    status: match.status,
+    reasons: match.reasons,
+    owner,
+    visible: true,
+  };
+}
+
+// Group buyers that match each other, directly or through a shared match.
+// Phone and email matches are found by exact key; names are only compared
+// within the same first letter to keep the scan from being quadratic.
+export function groupDuplicates<T extends DuplicateCandidate & { id: string }>(buyers: T[]): DuplicateGroup<T>[] {
+  const parent = buyers.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasons = new Map<number, Set<DuplicateReason>>();
+
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set([...(reasons.get(rootA) ?? []), ...(reasons.get(rootB) ?? []), reason]);
+    parent[rootB] = rootA;
+    reasons.delete(rootB);
+    reasons.set(rootA, merged);
+  };
+
+  const buckets: Record<DuplicateReason, Map<string, number[]>> = {
+    phone: new Map(),
+    email: new Map(),
+    name: new Map(),
+  };
+  buyers.forEach((buyer, i) => {
+    const keys: Record<DuplicateReason, string> = {
+      phone: normalizePhone(buyer.phone),
+      email: normalizeEmail(buyer.email),
+      name: normalizeName(buyer.fullName).charAt(0),
+    };
+    for (const reason of Object.keys(keys) as DuplicateReason[]) {
+      if (keys[reason]) {
+        const bucket = buckets[reason].get(keys[reason]) ?? [];
+        bucket.push(i);
+        buckets[reason].set(keys[reason], bucket);
+      }
+    }
+  });
+
+  for (const reason of ['phone', 'email'] as const) {
+    for (const bucket of buckets[reason].values()) {
+      bucket.slice(1).forEach(i => link(bucket[0], i, reason));
+    }
+  }
+
+  for (const bucket of buckets.name.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        if (namesMatch(buyers[bucket[i]].fullName, buyers[bucket[j]].fullName)) {
+          link(bucket[i], bucket[j], 'name');
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  buyers.forEach((buyer, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), buyer]);
+  });
+
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      buyers: members,
+      reasons: [...(reasons.get(root) ?? [])].sort(),
+    }))
+    .sort((a, b) => b.buyers.length - a.buyers.length);
+}
+
+// Scan every buyer matching the where clause for duplicate groups
+export async function findDuplicateGroups(where: Prisma.BuyerWhereInput) {
+  const buyers = await prisma.buyer.findMany({
+    where,
+    include: {
+      owner: {
+        select: { id: true, name: true, email: true }
+      }
+    },
+    // Oldest first, so the original record leads each group
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return groupDuplicates(buyers);
+}
+
+// Pick each field from the record the user chose. Fields without a choice keep the
+// survivor's value, unless it is empty and the duplicate has one.
+export function resolveMergedFields<T extends Record<MergeField, unknown>>(
+  survivor: T,
+  duplicate: T,
+  choices: Partial<Record<MergeField, MergeSide>>
+): Pick<T, MergeField> {
+  const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+  return Object.fromEntries(
+    MERGE_FIELDS.map(field => {
+      const side = choices[field] ?? (isEmpty(survivor[field]) && !isEmpty(duplicate[field]) ? 'duplicate' : 'survivor');
+      return [field, side === 'duplicate' ? duplicate[field] : survivor[field]];
+    })
+  ) as Pick<T, MergeField>;
+}
@@ -0,0 +1,105 @@
+import type { Prisma } from '@prisma/client';
+import { stringify } from 'csv-stringify';
+import ExcelJS from 'exceljs';
+import { BUYER_CSV_COLUMNS, BUYER_CSV_ENUM_COLUMNS, BUYER_CSV_VERSION, formatCsvTags, type BuyerCsvColumn } from './csv-format';
+import { buyerTagsInclude, withTagNames } from './tags';
+import type { ExportFormat } from './validation';
+
+// CSV and Excel export of buyer records, shared by the filtered export and bulk export of a
+// selection. Files use the layout in lib/csv-format.ts, so they can be imported again.
+
+// Include clause that loads everything a CSV row needs
+export const exportBuyerInclude = {
+  owner: {
+    select: { name: true, email: true }
+  },
+  tags: buyerTagsInclude,
+} as const;
+
+export type ExportBuyer = Prisma.BuyerGetPayload<{ include: typeof exportBuyerInclude }>;
+
+export function exportFilename(date: Date = new Date(), format: ExportFormat = 'csv'): string {
+  return `buyers-${date.toISOString().split('T')[0]}.${format}`;
+}
+
+function buyerToCsvRecord(buyer: ExportBuyer): Record<BuyerCsvColumn, string | number> {
+  return {
+    id: buyer.id,
+    fullName: buyer.fullName,
+    email: buyer.email ?? '',
+    phone: buyer.phone,
+    city: buyer.city,
+    propertyType: buyer.propertyType,
+    bhk: buyer.bhk ?? '',
+    purpose: buyer.purpose,
+    budgetMin: buyer.budgetMin ?? '',
+    budgetMax: buyer.budgetMax ?? '',
+    timeline: buyer.timeline,
+    source: buyer.source,
+    status: buyer.status,
+    dropReason: buyer.dropReason ?? '',
+    // The import reads visit dates as plain dates, like the status forms
+    visitDate: buyer.visitedAt ? buyer.visitedAt.toISOString().slice(0, 10) : '',
+    notes: buyer.notes ?? '',
+    tags: formatCsvTags(withTagNames(buyer).tags),
+    owner: buyer.owner.name || buyer.owner.email,
+    createdAt: buyer.createdAt.toISOString(),
+    updatedAt: buyer.updatedAt.toISOString(),
+    formatVersion: BUYER_CSV_VERSION,
+  };
+}
+
+export async function buyersToCsv(buyers: ExportBuyer[]): Promise<string> {
+  const csvData = buyers.map(buyerToCsvRecord);
+
+  return new Promise<string>((resolve, reject) => {
+    stringify(csvData, { header: true, columns: BUYER_CSV_COLUMNS }, (err, output) => {
+      if (err) reject(err);
+      else resolve(output);
+    });
+  });
+}
+
+// Blank rows below the data that also get dropdowns, for leads added in Excel. Kept
+// small: readers such as exceljs expand validation ranges cell by cell when loading.
+const XLSX_SPARE_ROWS = 1000;
+
+// Dropdown validation is part of the worksheet model but missing from exceljs' typings
+type WorksheetWithValidations = ExcelJS.Worksheet & {
+  dataValidations: { add(range: string, validation: ExcelJS.DataValidation): void };
+};
+
+// One sheet with a bold, frozen header row, filters, and enum columns as dropdowns
+export async function buyersToXlsx(buyers: ExportBuyer[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Buyers', {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  }) as WorksheetWithValidations;
+
+  sheet.columns = BUYER_CSV_COLUMNS.map(column => ({
+    header: column,
+    key: column,
+    width: column === 'notes' || column === 'dropReason' ? 40 : Math.max(12, column.length + 2),
+  }));
+  sheet.addRows(buyers.map(buyerToCsvRecord));
+
+  sheet.getRow(1).eachCell(cell => {
+    cell.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF2563EB' } };
+  });
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: BUYER_CSV_COLUMNS.length } };
+
+  for (const [column, values] of Object.entries(BUYER_CSV_ENUM_COLUMNS)) {
+    const letter = sheet.getColumn(column).letter;
+    sheet.dataValidations.add(`${letter}2:${letter}${buyers.length + 1 + XLSX_SPARE_ROWS}`, {
+      type: 'list',
+      allowBlank: true,
+      formulae: [`"${values.join(',')}"`],
+      showErrorMessage: true,
+      errorTitle: 'Invalid value',
+      error: `Choose one of: ${values.join(', ')}`,
+    });
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,121 @@
+import type { Prisma } from '@prisma/client';
+import type { User } from './auth';
+import { buyerScope } from './permissions';
+import { searchBuyerIds } from './search';
+import { BUYER_FILTER_KEYS, BuyerFiltersSchema, type BuyerFilters } from './validation';
+
+// Shared filter handling for the buyers list and export endpoints.
+// Multi-value filters accept comma-separated values or repeated parameters.
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export function parseBuyerFilters(searchParams: URLSearchParams): BuyerFilters {
+  const raw: Record<string, string> = {};
+  for (const key of BUYER_FILTER_KEYS) {
+    const values = searchParams.getAll(key).filter(Boolean);
+    if (values.length > 0) {
+      raw[key] = values.join(',');
+    }
+  }
+  return BuyerFiltersSchema.parse(raw);
+}
+
+// A date-only upper bound includes the whole day
+function dateRange(from?: string, to?: string): Prisma.DateTimeFilter | undefined {
+  if (!from && !to) {
+    return undefined;
+  }
+
+  const range: Prisma.DateTimeFilter = {};
+  if (from) {
+    range.gte = new Date(from);
+  }
+  if (to) {
+    const end = new Date(to);
+    if (DATE_ONLY.test(to)) {
+      end.setUTCDate(end.getUTCDate() + 1);
+      range.lt = end;
+    } else {
+      range.lte = end;
+    }
+  }
+  return range;
+}
+
+// A buyer matches a budget filter when its budget range overlaps the requested one.
+// A single budget value is treated as a point; buyers without a budget never match.
+function budgetConditions(min?: number, max?: number): Prisma.BuyerWhereInput[] {
+  const conditions: Prisma.BuyerWhereInput[] = [];
+
+  if (min !== undefined) {
+    conditions.push({
+      OR: [
+        { budgetMax: { gte: min } },
+        { budgetMax: null, budgetMin: { gte: min } },
+      ],
+    });
+  }
+
+  if (max !== undefined) {
+    conditions.push({
+      OR: [
+        { budgetMin: { lte: max } },
+        { budgetMin: null, budgetMax: { lte: max } },
+      ],
+    });
+  }
+
+  return conditions;
+}
+
+// Translate parsed filters (except the full-text search) into Prisma conditions.
+// The owner value "me" refers to the current user.
+export function filterConditions(filters: BuyerFilters, currentUserId?: string): Prisma.BuyerWhereInput[] {
+  const conditions: Prisma.BuyerWhereInput[] = [];
+
+  if (filters.city.length) conditions.push({ city: { in: filters.city } });
+  if (filters.propertyType.length) conditions.push({ propertyType: { in: filters.propertyType } });
+  if (filters.bhk.length) conditions.push({ bhk: { in: filters.bhk } });
+  if (filters.purpose.length) conditions.push({ purpose: { in: filters.purpose } });
+  if (filters.timeline.length) conditions.push({ timeline: { in: filters.timeline } });
+  if (filters.source.length) conditions.push({ source: { in: filters.source } });
+  if (filters.status.length) conditions.push({ status: { in: filters.status } });
+
+  conditions.push(...budgetConditions(filters.budgetMin, filters.budgetMax));
+
+  for (const tag of filters.tags) {
+    conditions.push({ tags: { some: { tag: { name: tag } } } });
+  }
+  if (filters.excludeTags.length) {
+    conditions.push({ tags: { none: { tag: { name: { in: filters.excludeTags } } } } });
+  }
+
+  if (filters.owner.length) {
+    const ownerIds = filters.owner.map(owner => owner === 'me' && currentUserId ? currentUserId : owner);
+    conditions.push({ ownerId: { in: ownerIds } });
+  }
+
+  const createdAt = dateRange(filters.createdFrom, filters.createdTo);
+  if (createdAt) conditions.push({ createdAt });
+  const updatedAt = dateRange(filters.updatedFrom, filters.updatedTo);
+  if (updatedAt) conditions.push({ updatedAt });
+
+  return conditions;
+}
+
+// Build the full where clause for a user: access scope, filters and full-text search.
+// Leads in the trash are always left out.
+// rankedIds is set when a search was given and holds matches in relevance order.
+export async function buildBuyerQuery(
+  filters: BuyerFilters,
+  user: User
+): Promise<{ where: Prisma.BuyerWhereInput; rankedIds: string[] | null }> {
+  const conditions = [buyerScope(user), { deletedAt: null }, ...filterConditions(filters, user.id)];
+
+  const rankedIds = filters.search ? await searchBuyerIds(filters.search, { user }) : null;
+  if (rankedIds) {
+    conditions.push({ id: { in: rankedIds } });
+  }
+
+  return { where: { AND: conditions }, rankedIds };
+}
@@ -0,0 +1,244 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import type { BuyerChanges } from './buyers';
+import { decodeCursor, encodeCursor } from './pagination';
+import { buyerTagsInclude, withTagNames } from './tags';
+import { BuyerSchema, MERGE_FIELDS, statusTransitionError, type HistoryAction, type Status } from './validation';
+
+// Paged audit history for one buyer, newest first.
+// Cursors reuse the buyers list format, keyed on (changedAt, id).
+
+const HISTORY_SORT = 'changedAt:desc';
+
+// These actions store a snapshot of the new record instead of { old, new } pairs
+const SNAPSHOT_ACTIONS = new Set(['created', 'imported']);
+
+export interface FieldChange {
+  field: string;
+  old: unknown;
+  new: unknown;
+}
+
+function isChangePair(value: unknown): value is { old: unknown; new: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && ('old' in value || 'new' in value);
+}
+
+// Flatten a history diff into one before/after row per field. Snapshot entries list
+// the fields that were set, with no previous value.
+export function fieldChanges(diff: Prisma.JsonValue): FieldChange[] {
+  if (typeof diff !== 'object' || diff === null || Array.isArray(diff)) {
+    return [];
+  }
+
+  const fields = diff.fields;
+  if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+    return [];
+  }
+
+  const snapshot = SNAPSHOT_ACTIONS.has(String(diff.action));
+  return Object.entries(fields).flatMap(([field, value]): FieldChange[] => {
+    if (snapshot) {
+      const empty = value === null || value === '' || (Array.isArray(value) && value.length === 0);
+      return empty ? [] : [{ field, old: null, new: value }];
+    }
+    return isChangePair(value) ? [{ field, old: value.old ?? null, new: value.new ?? null }] : [];
+  });
+}
+
+// History JSON can't be filtered through Prisma on SQLite, so matching ids come from json_extract
+async function historyIdsWithActions(buyerId: string, actions: HistoryAction[]): Promise<string[]> {
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT id FROM buyer_history
+    WHERE buyerId = ${buyerId} AND json_extract(diff, '$.action') IN (${Prisma.join(actions)})`;
+  return rows.map(row => row.id);
+}
+
+export async function fetchHistoryPage(
+  buyerId: string,
+  actions: HistoryAction[],
+  limit: number,
+  cursorParam: string | null
+) {
+  const cursor = decodeCursor(cursorParam);
+  if (cursor && (!('k' in cursor) || cursor.s !== HISTORY_SORT || typeof cursor.k[0] !== 'string')) {
+    throw new Error('Invalid cursor');
+  }
+
+  const where: Prisma.BuyerHistoryWhereInput = { buyerId };
+  if (actions.length > 0) {
+    where.id = { in: await historyIdsWithActions(buyerId, actions) };
+  }
+
+  let pageWhere = where;
+  if (cursor) {
+    const changedAt = new Date(cursor.k[0] as string);
+    pageWhere = {
+      AND: [where, {
+        OR: [
+          { changedAt: { lt: changedAt } },
+          { changedAt, id: { lt: cursor.k[1] } },
+        ],
+      }],
+    };
+  }
+
+  const [rows, total] = await Promise.all([
+    prisma.buyerHistory.findMany({
+      where: pageWhere,
+      orderBy: [{ changedAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+    }),
+    prisma.buyerHistory.count({ where }),
+  ]);
+
+  const entries = rows.slice(0, limit);
+  const last = entries[entries.length - 1];
+
+  return {
+    entries,
+    total,
+    nextCursor: rows.length > limit && last
+      ? encodeCursor({ s: HISTORY_SORT, k: [last.changedAt.toISOString(), last.id] })
+      : null,
+  };
+}
+
+// Reverting. A version is the buyer's state right after a history entry, rebuilt by
+// undoing every later entry from the current record. Ownership is never reverted:
+// reassigning is admin only and keeps its own entries.
+
+export const REVERT_FIELDS = [...MERGE_FIELDS, 'tags'] as const;
+export type RevertField = typeof REVERT_FIELDS[number];
+
+// Drop reason and visit date aren't restored directly; they go with the restored status
+export type RevertState = Record<RevertField | 'dropReason' | 'visitedAt', unknown>;
+
+export function stateAfterEntry(
+  current: RevertState,
+  laterDiffs: Prisma.JsonValue[]
+): { success: true; state: RevertState } | { success: false; error: string } {
+  const state = { ...current };
+
+  for (const diff of laterDiffs) {
+    const action = typeof diff === 'object' && diff !== null && !Array.isArray(diff) ? diff.action : null;
+    // A merge moved the duplicate's history onto this lead, so older entries don't all describe it
+    if (action === 'merged') {
+      return { success: false, error: 'Versions from before a merge cannot be restored' };
+    }
+    if (SNAPSHOT_ACTIONS.has(String(action))) {
+      continue;
+    }
+
+    for (const change of fieldChanges(diff)) {
+      if (change.field in state) {
+        state[change.field as keyof RevertState] = change.old;
+      }
+    }
+  }
+
+  return { success: true, state };
+}
+
+// Empty strings, null and missing values all mean "not set"; tag order doesn't matter
+function sameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) => {
+    if (value === '' || value === undefined) return null;
+    if (Array.isArray(value)) return [...value].sort();
+    return value;
+  };
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+export interface RevertPlan {
+  target: { id: string; changedAt: Date; action: string };
+  updatedAt: Date;
+  changes: { field: RevertField; current: unknown; restored: unknown }[];
+  // Update to send through updateBuyer; null when there is nothing to restore
+  update: BuyerChanges | null;
+  // Why the version can't be restored (invalid record or status move), if it can't
+  blocked: string | null;
+}
+
+export async function planRevert(
+  buyerId: string,
+  historyId: string
+): Promise<{ success: true; plan: RevertPlan } | { success: false; status: number; error: string }> {
+  const [buyer, target] = await Promise.all([
+    prisma.buyer.findUnique({
+      where: { id: buyerId, deletedAt: null },
+      include: { tags: buyerTagsInclude }
+    }),
+    prisma.buyerHistory.findFirst({
+      where: { id: historyId, buyerId }
+    }),
+  ]);
+
+  if (!buyer) {
+    return { success: false, status: 404, error: 'Buyer not found' };
+  }
+  if (!target) {
+    return { success: false, status: 404, error: 'History entry not found' };
+  }
+
+  const laterEntries = await prisma.buyerHistory.findMany({
+    where: {
+      buyerId,
+      OR: [
+        { changedAt: { gt: target.changedAt } },
+        { changedAt: target.changedAt, id: { gt: target.id } },
+      ],
+    },
+    orderBy: [{ changedAt: 'desc' }, { id: 'desc' }],
+  });
+
+  const record = withTagNames(buyer);
+  const current = Object.fromEntries(
+    [...REVERT_FIELDS, 'dropReason', 'visitedAt'].map(field => {
+      const value = record[field as keyof typeof record];
+      return [field, value instanceof Date ? value.toISOString() : value];
+    })
+  ) as RevertState;
+
+  const rebuilt = stateAfterEntry(current, laterEntries.map(entry => entry.diff));
+  if (!rebuilt.success) {
+    return { success: false, status: 400, error: rebuilt.error };
+  }
+  const restored = rebuilt.state;
+
+  const changes = REVERT_FIELDS
+    .filter(field => !sameValue(current[field], restored[field]))
+    .map(field => ({ field, current: current[field], restored: restored[field] }));
+
+  const plan: RevertPlan = {
+    target: { id: target.id, changedAt: target.changedAt, action: String((target.diff as { action?: string }).action) },
+    updatedAt: buyer.updatedAt,
+    changes,
+    update: null,
+    blocked: null,
+  };
+  if (changes.length === 0) {
+    return { success: true, plan };
+  }
+
+  // The restored record must still be valid, and reachable through the status pipeline
+  const validation = BuyerSchema.safeParse(Object.fromEntries(
+    REVERT_FIELDS.map(field => [field, restored[field] ?? undefined])
+  ));
+  const oldStatus = current.status as Status;
+  const newStatus = restored.status as Status;
+  const statusDetails = {
+    dropReason: newStatus === 'DROPPED' && typeof restored.dropReason === 'string' ? restored.dropReason : undefined,
+    visitDate: newStatus === 'VISITED' && typeof restored.visitedAt === 'string' ? restored.visitedAt.slice(0, 10) : undefined,
+  };
+
+  plan.blocked = validation.success
+    ? statusTransitionError(oldStatus, newStatus, statusDetails)
+    : validation.error.issues[0]?.message ?? 'The restored version is not a valid buyer';
+  plan.update = {
+    ...Object.fromEntries(changes.map(change => [change.field, change.restored ?? null])),
+    ...(statusDetails.dropReason && { dropReason: statusDetails.dropReason }),
+    ...(statusDetails.visitDate && { visitDate: statusDetails.visitDate }),
+  } as BuyerChanges;
+
+  return { success: true, plan };
+}
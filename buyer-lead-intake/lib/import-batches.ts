@@ -0,0 +1,214 @@
+import { prisma } from './db';
+import type { User } from './auth';
+import { saveBuyerUpdate, type BuyerChanges } from './buyers';
+import { planRevert } from './history';
+import { canRollbackImport } from './permissions';
+
+// Every committed import is an ImportBatch linked to the buyers it created. Rolling
+// a batch back moves its leads to the trash, except leads someone has worked on
+// since: any history entry after `imported`, or a logged activity. Existing leads an
+// upsert updated are reverted to how they were before, as a history revert would,
+// unless they have changed since or the old values can't be restored.
+
+export type RollbackResult =
+  | { success: true; removed: number; kept: number; reverted: number; notReverted: number }
+  | { success: false; status: number; error: string };
+
+// Reverting a large batch's updates takes longer than Prisma's 5s transaction default
+const ROLLBACK_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+// Fields returned to the import history page
+export const importBatchSelect = {
+  id: true,
+  fileName: true,
+  totalRows: true,
+  importedCount: true,
+  updatedCount: true,
+  skippedCount: true,
+  createdAt: true,
+  rolledBackAt: true,
+  removedCount: true,
+  keptCount: true,
+  revertedCount: true,
+  ownerId: true,
+  owner: {
+    select: { id: true, name: true, email: true }
+  },
+  job: {
+    select: { id: true, status: true }
+  },
+} as const;
+
+// A lead is left in place once anything beyond the import itself happened to it
+export function changedSinceImport(lead: { _count: { history: number; activities: number } }): boolean {
+  return lead._count.history > 1 || lead._count.activities > 0;
+}
+
+interface PlannedRevert {
+  buyerId: string;
+  update: BuyerChanges;
+  revertedTo: { id: string; changedAt: string };
+}
+
+// The batch's `updated` entries, one per lead it changed. History JSON can't be
+// filtered through Prisma on SQLite, so they are found with json_extract.
+async function batchUpdateEntries(batchId: string): Promise<{ id: string; buyerId: string; changedAt: Date }[]> {
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT id FROM buyer_history
+    WHERE json_extract(diff, '$.batchId') = ${batchId} AND json_extract(diff, '$.action') = 'updated'`;
+
+  return prisma.buyerHistory.findMany({
+    where: { id: { in: rows.map(row => row.id) } },
+    select: { id: true, buyerId: true, changedAt: true }
+  });
+}
+
+// How to undo one update: restore the version before it, if it is still the lead's
+// latest change. Null when it can't be undone.
+async function planUpdateRevert(entry: { id: string; buyerId: string; changedAt: Date }): Promise<PlannedRevert | null> {
+  const newer = await prisma.buyerHistory.count({
+    where: {
+      buyerId: entry.buyerId,
+      OR: [
+        { changedAt: { gt: entry.changedAt } },
+        { changedAt: entry.changedAt, id: { gt: entry.id } },
+      ],
+    },
+  });
+  const previous = await prisma.buyerHistory.findFirst({
+    where: {
+      buyerId: entry.buyerId,
+      OR: [
+        { changedAt: { lt: entry.changedAt } },
+        { changedAt: entry.changedAt, id: { lt: entry.id } },
+      ],
+    },
+    orderBy: [{ changedAt: 'desc' }, { id: 'desc' }],
+    select: { id: true }
+  });
+  if (newer > 0 || !previous) {
+    return null;
+  }
+
+  const planned = await planRevert(entry.buyerId, previous.id);
+  if (!planned.success || planned.plan.blocked || !planned.plan.update) {
+    return null;
+  }
+
+  const { plan } = planned;
+  return {
+    buyerId: entry.buyerId,
+    update: { ...plan.update, updatedAt: plan.updatedAt.toISOString() },
+    revertedTo: { id: plan.target.id, changedAt: plan.target.changedAt.toISOString() },
+  };
+}
+
+export async function rollbackImportBatch(user: User, batchId: string): Promise<RollbackResult> {
+  const batch = await prisma.importBatch.findUnique({
+    where: { id: batchId },
+    select: {
+      id: true,
+      fileName: true,
+      ownerId: true,
+      job: { select: { status: true } },
+    }
+  });
+
+  if (!batch) {
+    return { success: false, status: 404, error: 'Import not found' };
+  }
+
+  if (!canRollbackImport(user, batch)) {
+    return { success: false, status: 403, error: 'You can only roll back your own imports' };
+  }
+
+  if (batch.job && (batch.job.status === 'QUEUED' || batch.job.status === 'RUNNING')) {
+    return { success: false, status: 409, error: 'Wait for the import to finish before rolling it back' };
+  }
+
+  // Planned before the transaction; the updatedAt check skips leads that change in between
+  const updateEntries = await batchUpdateEntries(batch.id);
+  const reverts: PlannedRevert[] = [];
+  for (const entry of updateEntries) {
+    const revert = await planUpdateRevert(entry);
+    if (revert) {
+      reverts.push(revert);
+    }
+  }
+
+  const now = new Date();
+
+  const counts = await prisma.$transaction(async (tx) => {
+    // Mark the batch first, and only if nobody else has, so two rollbacks can't both run
+    const claimed = await tx.importBatch.updateMany({
+      where: { id: batch.id, rolledBackAt: null },
+      data: { rolledBackAt: now, rolledBackBy: user.id }
+    });
+    if (claimed.count !== 1) {
+      return null;
+    }
+
+    // Leads already in the trash stay there and are not counted
+    const leads = await tx.buyer.findMany({
+      where: { importBatchId: batch.id, deletedAt: null },
+      select: {
+        id: true,
+        _count: { select: { history: true, activities: true } },
+      }
+    });
+
+    const removeIds = leads.filter(lead => !changedSinceImport(lead)).map(lead => lead.id);
+
+    await tx.buyer.updateMany({
+      where: { id: { in: removeIds } },
+      data: { deletedAt: now, deletedBy: user.id }
+    });
+
+    await tx.buyerHistory.createMany({
+      data: removeIds.map(buyerId => ({
+        buyerId,
+        changedBy: user.id,
+        changedAt: now,
+        diff: {
+          action: 'deleted',
+          reason: `Import of ${batch.fileName} rolled back`,
+          batchId: batch.id,
+        },
+      })),
+    });
+
+    // Reverted through the normal update path, recorded as `reverted` entries
+    let reverted = 0;
+    for (const { buyerId, update, revertedTo } of reverts) {
+      const result = await saveBuyerUpdate(tx, user, buyerId, update, {
+        action: 'reverted',
+        details: { revertedTo, batchId: batch.id },
+      });
+      if (result.success) {
+        reverted++;
+      }
+    }
+
+    await tx.importBatch.update({
+      where: { id: batch.id },
+      data: {
+        removedCount: removeIds.length,
+        keptCount: leads.length - removeIds.length,
+        revertedCount: reverted,
+      }
+    });
+
+    return {
+      removed: removeIds.length,
+      kept: leads.length - removeIds.length,
+      reverted,
+      notReverted: updateEntries.length - reverted,
+    };
+  }, { timeout: ROLLBACK_TRANSACTION_TIMEOUT_MS });
+
+  if (!counts) {
+    return { success: false, status: 409, error: 'This import has already been rolled back' };
+  }
+
+  return { success: true, ...counts };
+}
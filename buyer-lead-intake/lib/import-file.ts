@@ -0,0 +1,23 @@
+import { parseCsv, type ParsedCsv } from './csv';
+import type { ImportFileType } from './import-mapping';
+import { readXlsx } from './xlsx';
+
+// Uploaded import files, CSV or Excel, read into the same header-keyed rows
+
+export type ReadImportFileResult =
+  | ({ success: true; sheets?: string[]; sheet?: string } & ParsedCsv)
+  | { success: false; error: string };
+
+// Excel files are read from `sheet`, or their first sheet
+export async function readImportFile(
+  content: Buffer,
+  fileType: ImportFileType,
+  sheet?: string,
+  limit = Infinity
+): Promise<ReadImportFileResult> {
+  if (fileType === 'xlsx') {
+    return readXlsx(content, sheet, limit);
+  }
+
+  return { success: true, ...(await parseCsv(content.toString('utf-8'), limit)) };
+}
@@ -0,0 +1,355 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { access, mkdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { Prisma } from '@prisma/client';
+import { stringify } from 'csv-stringify';
+import { prisma } from './db';
+import { userSelect, type User } from './auth';
+import { loadAssignmentContext, type AssignmentContext } from './assignment';
+import { parseCsv, readCsvRows } from './csv';
+import { applyImportUpdates, createImportedBuyers, findImportMatch, importChanges, importStatusIssue, type UpdateImportRow, type ValidImportRow } from './import';
+import { compactRow, mapRow, type ImportFileType } from './import-mapping';
+import { IMPORT_FIELDS, ImportMappingSchema, normalizeCSVRow, validateCSVRow, type CSVRowIssue, type ImportMapping, type ImportMode, type ImportRow } from './validation';
+import { xlsxSheetToCsv } from './xlsx';
+
+// Background CSV imports for files too large to review row by row. The upload is
+// streamed to disk, read back as a stream and committed in chunks; each chunk saves
+// its buyers, failed rows and progress together, and only if the job's progress is
+// still where the chunk started, so a resumed job continues after the last committed
+// row without importing anything twice, even if its first runner is still going.
+// Upsert updates are saved in their chunk's transaction too.
+
+export const IMPORT_JOB_CHUNK_SIZE = 100;
+
+// A chunk's creates and updates share one transaction, longer than Prisma's 5s default allows
+const CHUNK_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+// A running job that hasn't committed a chunk for this long is assumed to have stopped
+export const IMPORT_JOB_STALE_MS = 10 * 60 * 1000;
+
+// Thrown when another runner has committed the chunk a runner was working on
+const JOB_TAKEN_OVER = 'Import job was taken over by another runner';
+
+// Uploaded files wait here until their job finishes
+const UPLOAD_DIR = process.env.IMPORT_UPLOAD_DIR || path.join(os.tmpdir(), 'buyer-lead-imports');
+
+// Fields returned to the client when polling a job
+export const importJobSelect = {
+  id: true,
+  fileName: true,
+  mode: true,
+  status: true,
+  totalRows: true,
+  processedRows: true,
+  importedCount: true,
+  updatedCount: true,
+  failedCount: true,
+  error: true,
+  createdAt: true,
+  startedAt: true,
+  finishedAt: true,
+} as const;
+
+type ChunkRow = { row: number; source: Record<string, string> };
+
+function uploadPath(jobId: string): string {
+  return path.join(UPLOAD_DIR, `${jobId}.csv`);
+}
+
+export interface ImportUpload {
+  fileName: string;
+  fileType: ImportFileType;
+  content: Readable;
+  // For Excel files, the sheet to import; the first sheet otherwise
+  sheet?: string;
+}
+
+export type CreateImportJobResult =
+  | { success: true; job: Prisma.ImportJobGetPayload<{ select: typeof importJobSelect }> }
+  | { success: false; status: number; error: string };
+
+// Store the upload and queue a job for it; call startImportJob to run it. Excel
+// uploads are stored as CSV of the chosen sheet, since jobs stream CSV from disk.
+export async function createImportJob(
+  user: User,
+  upload: ImportUpload,
+  mapping: ImportMapping,
+  mode: ImportMode = 'CREATE'
+): Promise<CreateImportJobResult> {
+  const { fileName } = upload;
+  const job = await prisma.importJob.create({
+    data: { fileName, mapping, mode, ownerId: user.id },
+    select: { id: true }
+  });
+
+  const discard = async () => {
+    await prisma.importJob.delete({ where: { id: job.id } });
+    await rm(uploadPath(job.id), { force: true });
+  };
+
+  try {
+    await mkdir(UPLOAD_DIR, { recursive: true });
+
+    if (upload.fileType === 'xlsx') {
+      const workbookPath = path.join(UPLOAD_DIR, `${job.id}.xlsx`);
+      try {
+        await pipeline(upload.content, createWriteStream(workbookPath));
+        const converted = await xlsxSheetToCsv(workbookPath, uploadPath(job.id), upload.sheet);
+        if (!converted.success) {
+          await discard();
+          return { success: false, status: 400, error: converted.error };
+        }
+      } finally {
+        await rm(workbookPath, { force: true });
+      }
+    } else {
+      await pipeline(upload.content, createWriteStream(uploadPath(job.id)));
+    }
+
+    const { totalRows } = await parseCsv(createReadStream(uploadPath(job.id)), 0);
+
+    const queued = await prisma.importJob.update({
+      where: { id: job.id },
+      data: {
+        totalRows,
+        // Created up front so the import history lists the job while it runs
+        batch: {
+          create: { fileName, totalRows, ownerId: user.id },
+        },
+      },
+      select: importJobSelect,
+    });
+    return { success: true, job: queued };
+  } catch (error) {
+    await discard();
+    throw error;
+  }
+}
+
+// Run a job without waiting for it; the page polls its progress
+export function startImportJob(jobId: string): void {
+  runImportJob(jobId).catch(error => console.error('Error running import job:', error));
+}
+
+export async function runImportJob(jobId: string): Promise<void> {
+  // Only one runner may pick up a queued job
+  const claimed = await prisma.importJob.updateMany({
+    where: { id: jobId, status: 'QUEUED' },
+    data: { status: 'RUNNING', startedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    return;
+  }
+
+  try {
+    await access(uploadPath(jobId));
+  } catch {
+    await failImportJob(jobId, 'The uploaded file is no longer available');
+    return;
+  }
+
+  try {
+    await processImportJob(jobId);
+    await prisma.importJob.update({
+      where: { id: jobId },
+      data: { status: 'COMPLETED', finishedAt: new Date() },
+    });
+  } catch (error) {
+    // The runner that resumed the job finishes it, and removes the upload
+    if (error instanceof Error && error.message === JOB_TAKEN_OVER) {
+      return;
+    }
+    console.error('Error processing import job:', error);
+    await failImportJob(jobId, 'The import stopped unexpectedly; rows saved before the error were kept');
+  }
+
+  await rm(uploadPath(jobId), { force: true });
+}
+
+// Pick up jobs that were queued, or running but stalled, when the server stopped.
+// A job still committing chunks is left to its runner.
+export async function resumeImportJobs(now: Date = new Date()): Promise<number> {
+  await prisma.importJob.updateMany({
+    where: {
+      status: 'RUNNING',
+      updatedAt: { lt: new Date(now.getTime() - IMPORT_JOB_STALE_MS) },
+    },
+    data: { status: 'QUEUED' },
+  });
+
+  const jobs = await prisma.importJob.findMany({
+    where: { status: 'QUEUED' },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  for (const job of jobs) {
+    await runImportJob(job.id);
+  }
+
+  return jobs.length;
+}
+
+async function failImportJob(jobId: string, error: string): Promise<void> {
+  await prisma.importJob.update({
+    where: { id: jobId },
+    data: { status: 'FAILED', error, finishedAt: new Date() },
+  });
+}
+
+async function processImportJob(jobId: string): Promise<void> {
+  const job = await prisma.importJob.findUniqueOrThrow({
+    where: { id: jobId },
+    select: {
+      mapping: true,
+      mode: true,
+      processedRows: true,
+      owner: { select: userSelect },
+      batch: { select: { id: true } },
+    }
+  });
+  if (!job.batch) {
+    throw new Error(`Import job ${jobId} has no batch`);
+  }
+  const batchId = job.batch.id;
+  const mapping = ImportMappingSchema.parse(job.mapping);
+
+  // One snapshot of agent loads for the whole file, as for interactive imports
+  const assignmentContext = await loadAssignmentContext();
+
+  let row = 0;
+  let chunk: ChunkRow[] = [];
+
+  for await (const source of readCsvRows(createReadStream(uploadPath(jobId)))) {
+    row++;
+    // Already committed before a restart
+    if (row <= job.processedRows) {
+      continue;
+    }
+
+    chunk.push({ row, source });
+    if (chunk.length === IMPORT_JOB_CHUNK_SIZE) {
+      await commitChunk(jobId, batchId, job.owner, mapping, job.mode, assignmentContext, chunk);
+      chunk = [];
+    }
+  }
+
+  if (chunk.length > 0) {
+    await commitChunk(jobId, batchId, job.owner, mapping, job.mode, assignmentContext, chunk);
+  }
+}
+
+async function commitChunk(
+  jobId: string,
+  batchId: string,
+  user: User,
+  mapping: ImportMapping,
+  mode: ImportMode,
+  assignmentContext: AssignmentContext,
+  chunk: ChunkRow[]
+): Promise<void> {
+  const validRows: ValidImportRow[] = [];
+  const updateRows: UpdateImportRow[] = [];
+  const failedRows: Prisma.ImportJobErrorCreateManyInput[] = [];
+  const valuesByRow = new Map<number, ImportRow>();
+
+  for (const { row, source } of chunk) {
+    const values = mapRow(source, mapping);
+    const normalized = normalizeCSVRow(compactRow(values)).row;
+    const validation = validateCSVRow(normalized, row - 1);
+    if (!validation.success) {
+      failedRows.push({ jobId, row, values, errors: validation.issues });
+      continue;
+    }
+
+    if (mode === 'UPSERT') {
+      const match = await findImportMatch(user, validation.data, normalized.id);
+      const issue = match.found ? importStatusIssue(validation.data, match.buyer) : match.issue;
+      if (issue) {
+        failedRows.push({ jobId, row, values, errors: [issue] });
+        continue;
+      }
+      if (match.found) {
+        const changes = importChanges(match.buyer, validation.data, values);
+        if (Object.keys(changes).length > 0) {
+          updateRows.push({ row, buyerId: match.buyer.id, updatedAt: match.buyer.updatedAt, changes });
+          valuesByRow.set(row, values);
+        }
+        continue;
+      }
+    }
+
+    const statusIssue = importStatusIssue(validation.data);
+    if (statusIssue) {
+      failedRows.push({ jobId, row, values, errors: [statusIssue] });
+      continue;
+    }
+
+    validRows.push({ row, data: validation.data });
+  }
+
+  // Everything the chunk writes, updates included, commits with its claim, so a chunk
+  // that another runner already committed is never applied twice
+  await prisma.$transaction(async (tx) => {
+    const { updated, failed } = await applyImportUpdates(user, updateRows, batchId, tx);
+    for (const { row, error } of failed) {
+      failedRows.push({ jobId, row, values: valuesByRow.get(row) ?? {}, errors: [{ field: null, message: error }] });
+    }
+
+    await createImportedBuyers(tx, user, validRows, assignmentContext, batchId);
+
+    if (failedRows.length > 0) {
+      await tx.importJobError.createMany({ data: failedRows });
+    }
+
+    // Claim the chunk: it only commits if no other runner has moved the job past its start
+    const claimed = await tx.importJob.updateMany({
+      where: { id: jobId, status: 'RUNNING', processedRows: chunk[0].row - 1 },
+      data: {
+        processedRows: chunk[chunk.length - 1].row,
+        importedCount: { increment: validRows.length },
+        updatedCount: { increment: updated.length },
+        failedCount: { increment: failedRows.length },
+      },
+    });
+    if (claimed.count !== 1) {
+      throw new Error(JOB_TAKEN_OVER);
+    }
+
+    await tx.importBatch.update({
+      where: { id: batchId },
+      data: {
+        importedCount: { increment: validRows.length },
+        updatedCount: { increment: updated.length },
+        skippedCount: { increment: failedRows.length },
+      },
+    });
+  }, { timeout: CHUNK_TRANSACTION_TIMEOUT_MS });
+}
+
+// Error report: the failed rows with their problems, in the import column layout
+// so the file can be corrected and imported again
+export async function importErrorsToCsv(
+  errors: { row: number; values: Prisma.JsonValue; errors: Prisma.JsonValue }[]
+): Promise<string> {
+  const csvData = errors.map(error => {
+    const values = error.values as ImportRow;
+    const issues = error.errors as CSVRowIssue[];
+
+    return {
+      row: error.row,
+      errors: issues.map(issue => issue.field ? `${issue.field}: ${issue.message}` : issue.message).join('; '),
+      ...Object.fromEntries(IMPORT_FIELDS.map(field => [field, values[field] ?? ''])),
+    };
+  });
+
+  return new Promise<string>((resolve, reject) => {
+    stringify(csvData, { header: true, columns: ['row', 'errors', ...IMPORT_FIELDS] }, (err, output) => {
+      if (err) reject(err);
+      else resolve(output);
+    });
+  });
+}
@@ -0,0 +1,140 @@
+import { IMPORT_FIELDS, REQUIRED_IMPORT_FIELDS, type ImportField, type ImportMapping, type ImportRow } from './validation';
+
+// Column mapping for CSV imports. Runs in the browser as well as on the server, so
+// the import page can re-map and fix rows without uploading the file again.
+
+// Largest upload. Files over MAX_IMPORT_ROWS rows are imported as background jobs.
+export const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+export type ImportFileType = 'csv' | 'xlsx';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Uploads are told apart by extension first, since browsers report CSV types inconsistently
+export function importFileType(file: { name: string; type: string }): ImportFileType | null {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx') || file.type === XLSX_MIME_TYPE) {
+    return 'xlsx';
+  }
+  if (name.endsWith('.csv') || file.type === 'text/csv') {
+    return 'csv';
+  }
+  return null;
+}
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  id: 'Buyer ID',
+  fullName: 'Full Name',
+  email: 'Email',
+  phone: 'Phone',
+  city: 'City',
+  propertyType: 'Property Type',
+  bhk: 'BHK',
+  purpose: 'Purpose',
+  budgetMin: 'Budget Min',
+  budgetMax: 'Budget Max',
+  timeline: 'Timeline',
+  source: 'Source',
+  status: 'Status',
+  dropReason: 'Drop Reason',
+  visitDate: 'Visit Date',
+  notes: 'Notes',
+  tags: 'Tags',
+};
+
+// Other names common CRM and spreadsheet exports use for each field
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  id: ['buyer id', 'lead id'],
+  fullName: ['name', 'buyer name', 'customer name', 'lead name', 'client name'],
+  email: ['email address', 'e-mail', 'mail'],
+  phone: ['mobile', 'phone number', 'mobile number', 'contact', 'contact number'],
+  city: ['location'],
+  propertyType: ['property', 'type'],
+  bhk: ['bedrooms', 'rooms'],
+  purpose: ['buy or rent', 'intent'],
+  budgetMin: ['min budget', 'minimum budget', 'budget from'],
+  budgetMax: ['max budget', 'maximum budget', 'budget to'],
+  timeline: ['timeframe', 'time frame'],
+  source: ['lead source', 'channel'],
+  status: ['stage', 'lead status'],
+  dropReason: ['reason dropped', 'lost reason'],
+  visitDate: ['visited', 'visited at', 'site visit'],
+  notes: ['note', 'comments', 'remarks'],
+  tags: ['tag', 'labels'],
+};
+
+// "Full Name", "full_name" and "FULLNAME" all compare equal
+function headerKey(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Map each field to the first unused column named like it
+export function suggestMapping(headers: string[]): ImportMapping {
+  const headersByKey = new Map(headers.map(header => [headerKey(header), header]));
+  const used = new Set<string>();
+  const mapping: ImportMapping = {};
+
+  for (const field of IMPORT_FIELDS) {
+    const match = [field, ...HEADER_ALIASES[field]]
+      .map(name => headersByKey.get(headerKey(name)))
+      .find(header => header !== undefined && !used.has(header));
+
+    if (match) {
+      mapping[field] = match;
+      used.add(match);
+    }
+  }
+
+  return mapping;
+}
+
+// A saved preset only maps the columns this file actually has
+export function applyPreset(preset: ImportMapping, headers: string[]): ImportMapping {
+  return Object.fromEntries(
+    Object.entries(preset).filter(([, header]) => header !== undefined && headers.includes(header))
+  );
+}
+
+// Problems that stop a mapping from being previewed
+export function mappingErrors(mapping: ImportMapping): string[] {
+  const errors: string[] = REQUIRED_IMPORT_FIELDS
+    .filter(field => !mapping[field])
+    .map(field => `${IMPORT_FIELD_LABELS[field]} must be mapped to a column`);
+
+  const fieldsByHeader = new Map<string, ImportField[]>();
+  for (const field of IMPORT_FIELDS) {
+    const header = mapping[field];
+    if (header) {
+      fieldsByHeader.set(header, [...(fieldsByHeader.get(header) ?? []), field]);
+    }
+  }
+  for (const [header, fields] of fieldsByHeader) {
+    if (fields.length > 1) {
+      errors.push(`"${header}" is mapped to ${fields.map(field => IMPORT_FIELD_LABELS[field]).join(' and ')}`);
+    }
+  }
+
+  return errors;
+}
+
+// Trimmed cell text per field; blank cells are left out so they count as not set
+export function compactRow(row: ImportRow): ImportRow {
+  return Object.fromEntries(
+    Object.entries(row)
+      .map(([field, value]) => [field, value?.trim() ?? ''])
+      .filter(([, value]) => value !== '')
+  );
+}
+
+// Trimmed cell text per mapped field. Blank cells are kept, since an update clears
+// optional fields left blank; unmapped fields are left out.
+export function mapRow(source: Record<string, string>, mapping: ImportMapping): ImportRow {
+  const row: ImportRow = {};
+  for (const field of IMPORT_FIELDS) {
+    const header = mapping[field];
+    if (header && source[header] !== undefined) {
+      row[field] = source[header].trim();
+    }
+  }
+  return row;
+}
@@ -0,0 +1,396 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import type { User } from './auth';
+import { assignOwner, loadAssignmentContext, type AssignmentContext } from './assignment';
+import { saveBuyerUpdate, updateBuyer, type BuyerChanges } from './buyers';
+import { duplicateReasons, findDuplicates } from './duplicates';
+import { compactRow } from './import-mapping';
+import { canAccessBuyer } from './permissions';
+import { buyerTagsInclude, connectTags, withTagNames } from './tags';
+import {
+  IMPORT_FIELDS,
+  STATUS_TRANSITIONS,
+  normalizeCSVRow,
+  statusTransitionError,
+  validateCSVRow,
+  type CSVBuyer,
+  type CSVRowIssue,
+  type ImportCoercion,
+  type ImportField,
+  type ImportMode,
+  type ImportRow,
+  type Status,
+} from './validation';
+
+// CSV import, after column mapping. Rows are checked first so the import page can
+// show a per-row preview; committing checks them again and saves the valid ones.
+// In UPSERT mode a row matching an existing lead updates that lead instead.
+
+export type ImportAction = 'create' | 'update' | 'unchanged';
+
+export type FieldChange = { old: unknown; new: unknown };
+
+export interface ImportRowResult {
+  // 1-based position among the file's data rows
+  row: number;
+  valid: boolean;
+  errors: CSVRowIssue[];
+  // Values rewritten into the expected form, e.g. "3BHK" -> THREE
+  coercions: ImportCoercion[];
+  // Possible duplicates; these are warnings and don't stop the row importing
+  duplicates: string[];
+  // Set on valid rows: what committing does, and for upserts the lead and changed fields
+  action?: ImportAction;
+  buyerId?: string;
+  changes?: Record<string, FieldChange>;
+}
+
+export interface ValidImportRow {
+  row: number;
+  data: CSVBuyer;
+}
+
+// An upsert row that changes an existing lead. updatedAt is the version the
+// changes were computed against, so a lead edited since is reported, not overwritten.
+export interface UpdateImportRow {
+  row: number;
+  buyerId: string;
+  updatedAt: Date;
+  changes: Record<string, FieldChange>;
+}
+
+type ExistingBuyer = Partial<Record<keyof CSVBuyer, unknown>> & { visitedAt?: Date | null };
+
+type ImportMatch =
+  | { found: false; issue?: CSVRowIssue }
+  | { found: true; buyer: ExistingBuyer & { id: string; updatedAt: Date } };
+
+// The lead an upsert row updates: the one with the row's Buyer ID, otherwise the
+// single lead sharing its phone or email
+export async function findImportMatch(user: User, data: CSVBuyer, buyerId?: string): Promise<ImportMatch> {
+  let id = buyerId;
+
+  if (!id) {
+    const matches = (await findDuplicates(data))
+      .filter(match => match.reasons.includes('phone') || match.reasons.includes('email'));
+
+    if (matches.length === 0) {
+      return { found: false };
+    }
+    if (matches.length > 1) {
+      return {
+        found: false,
+        issue: { field: null, message: `Matches ${matches.length} existing buyers by phone or email; add a Buyer ID column to pick one` },
+      };
+    }
+    id = matches[0].id;
+  }
+
+  const buyer = await prisma.buyer.findFirst({
+    where: { id, deletedAt: null },
+    include: {
+      owner: {
+        select: { teamId: true }
+      },
+      tags: buyerTagsInclude,
+    }
+  });
+
+  if (!buyer) {
+    return { found: false, issue: { field: 'id', message: 'No buyer with this ID' } };
+  }
+
+  if (!canAccessBuyer(user, 'edit', buyer)) {
+    return { found: false, issue: { field: buyerId ? 'id' : null, message: 'Matches a buyer you cannot edit' } };
+  }
+
+  return { found: true, buyer: withTagNames(buyer) };
+}
+
+// Optional fields a blank cell clears on update; tags are cleared by their empty list
+const CLEARABLE_IMPORT_FIELDS: readonly ImportField[] = ['email', 'bhk', 'budgetMin', 'budgetMax', 'notes'];
+
+// Fields an upsert row would change, given the row's mapped cells. Columns that are
+// not mapped keep the lead's current value. A blank cell clears an optional field,
+// so an export can be edited to remove a value; blank required fields fail
+// validation, and a blank status, drop reason or visit date keeps the current one.
+// As in updateBuyer, a drop reason or visit date only counts while the lead is in
+// the status that records it.
+export function importChanges(
+  existing: ExistingBuyer,
+  data: CSVBuyer,
+  row: ImportRow
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const status = data.status ?? existing.status;
+
+  for (const field of IMPORT_FIELDS) {
+    if (field === 'id' || row[field] === undefined) {
+      continue;
+    }
+    if ((field === 'dropReason' && status !== 'DROPPED') || (field === 'visitDate' && status !== 'VISITED')) {
+      continue;
+    }
+
+    let value: unknown = data[field];
+    if (value === undefined) {
+      // Only a blank cell clears; a value that could not be read keeps the current one
+      if (row[field]?.trim() || !CLEARABLE_IMPORT_FIELDS.includes(field)) {
+        continue;
+      }
+      value = null;
+    }
+
+    // Leads store the visit as a timestamp; files carry its date
+    const current = field === 'visitDate'
+      ? existing.visitedAt?.toISOString().slice(0, 10) ?? null
+      : existing[field] ?? null;
+    // Moving into the status needs its detail again, even when it matches an earlier visit
+    const detailRequired = (field === 'dropReason' || field === 'visitDate') && status !== existing.status;
+    const same = Array.isArray(value) && Array.isArray(current)
+      ? [...value].sort().join(',') === [...current].sort().join(',')
+      : value === current && !detailRequired;
+
+    if (!same) {
+      changes[field] = { old: current, new: value };
+    }
+  }
+
+  return changes;
+}
+
+// A row's status has to be reachable through the pipeline, with the details it
+// requires. Updates move from the lead's current status; new leads start as NEW,
+// as they do when created through the API.
+export function importStatusIssue(data: CSVBuyer, existing?: ExistingBuyer): CSVRowIssue | null {
+  const from = (existing?.status as Status | undefined) ?? 'NEW';
+  const to = data.status ?? from;
+
+  // Typically an export imported as new leads rather than as updates to the ones it came from
+  if (!existing && to !== 'NEW' && !STATUS_TRANSITIONS.NEW.includes(to)) {
+    return {
+      field: 'status',
+      message: `New leads start as NEW and cannot be imported as ${to}; to update the leads a file was exported from, import it with "Update existing leads"`,
+    };
+  }
+
+  const error = statusTransitionError(from, to, data);
+  return error ? { field: 'status', message: error } : null;
+}
+
+export async function checkImportRows(
+  user: User,
+  rows: ImportRow[],
+  mode: ImportMode = 'CREATE'
+): Promise<{ results: ImportRowResult[]; validRows: ValidImportRow[]; updateRows: UpdateImportRow[] }> {
+  const normalized = rows.map(row => normalizeCSVRow(compactRow(row)));
+  const validations = normalized.map(({ row }, index) => validateCSVRow(row, index));
+
+  const results: ImportRowResult[] = [];
+  const validRows: ValidImportRow[] = [];
+  const updateRows: UpdateImportRow[] = [];
+  // Lead id -> the row updating it, so two rows can't both update one lead
+  const updatedBy = new Map<string, number>();
+
+  for (const [index, validation] of validations.entries()) {
+    const { row: values, coercions } = normalized[index];
+    const row = index + 1;
+
+    if (!validation.success) {
+      results.push({ row, valid: false, errors: validation.issues, coercions, duplicates: [] });
+      continue;
+    }
+
+    if (mode === 'UPSERT') {
+      const match = await findImportMatch(user, validation.data, values.id);
+      const earlierRow = match.found ? updatedBy.get(match.buyer.id) : undefined;
+      const issue = !match.found
+        ? match.issue
+        : earlierRow
+          ? { field: null, message: `Updates the same buyer as row ${earlierRow}` }
+          : importStatusIssue(validation.data, match.buyer);
+
+      if (issue) {
+        results.push({ row, valid: false, errors: [issue], coercions, duplicates: [] });
+        continue;
+      }
+
+      if (match.found) {
+        const buyerId = match.buyer.id;
+        const changes = importChanges(match.buyer, validation.data, rows[index]);
+        const changed = Object.keys(changes).length > 0;
+
+        updatedBy.set(buyerId, row);
+        results.push({
+          row,
+          valid: true,
+          errors: [],
+          coercions,
+          duplicates: [],
+          action: changed ? 'update' : 'unchanged',
+          buyerId,
+          changes,
+        });
+        if (changed) {
+          updateRows.push({ row, buyerId, updatedAt: match.buyer.updatedAt, changes });
+        }
+        continue;
+      }
+    }
+
+    const statusIssue = importStatusIssue(validation.data);
+    if (statusIssue) {
+      results.push({ row, valid: false, errors: [statusIssue], coercions, duplicates: [] });
+      continue;
+    }
+
+    // Rows that look like existing buyers or earlier rows are still imported, but reported
+    const existing = await findDuplicates(validation.data);
+    const earlierRows = validations
+      .slice(0, index)
+      .flatMap((other, otherIndex) =>
+        other.success && duplicateReasons(validation.data, other.data).length > 0 ? [otherIndex + 1] : []
+      );
+
+    results.push({
+      row,
+      valid: true,
+      errors: [],
+      coercions,
+      duplicates: [
+        ...(existing.length > 0 ? [`${existing.length} existing buyer${existing.length === 1 ? '' : 's'}`] : []),
+        ...earlierRows.map(earlier => `row ${earlier}`),
+      ],
+      action: 'create',
+    });
+    validRows.push({ row, data: validation.data });
+  }
+
+  return { results, validRows, updateRows };
+}
+
+// Create the buyers in one transaction under a new import batch, each with an
+// `imported` history entry, then apply any upsert updates
+export async function commitImportRows(
+  user: User,
+  batch: { fileName: string; totalRows: number },
+  validRows: ValidImportRow[],
+  updateRows: UpdateImportRow[] = []
+): Promise<{
+  batchId: string;
+  created: { row: number; id: string }[];
+  updated: { row: number; id: string }[];
+  failed: { row: number; error: string }[];
+}> {
+  // Route every row through the assignment engine, sharing one snapshot of agent loads
+  const assignmentContext = await loadAssignmentContext();
+
+  const { batchId, created } = await prisma.$transaction(async (tx) => {
+    const { id: batchId } = await tx.importBatch.create({
+      data: {
+        fileName: batch.fileName,
+        totalRows: batch.totalRows,
+        importedCount: validRows.length,
+        skippedCount: batch.totalRows - validRows.length - updateRows.length,
+        ownerId: user.id,
+      },
+      select: { id: true }
+    });
+
+    const created = await createImportedBuyers(tx, user, validRows, assignmentContext, batchId);
+    return { batchId, created };
+  });
+
+  if (updateRows.length === 0) {
+    return { batchId, created, updated: [], failed: [] };
+  }
+
+  const { updated, failed } = await applyImportUpdates(user, updateRows, batchId);
+  await prisma.importBatch.update({
+    where: { id: batchId },
+    data: {
+      updatedCount: updated.length,
+      skippedCount: { increment: failed.length },
+    }
+  });
+
+  return { batchId, created, updated, failed };
+}
+
+// Upsert updates go through updateBuyer like the edit form, so ownership, the
+// version check and `updated` history entries apply to imports too. Given a
+// transaction, every update is saved in it; otherwise each row commits on its own.
+export async function applyImportUpdates(
+  user: User,
+  updateRows: UpdateImportRow[],
+  batchId: string,
+  tx?: Prisma.TransactionClient
+): Promise<{ updated: { row: number; id: string }[]; failed: { row: number; error: string }[] }> {
+  const updated: { row: number; id: string }[] = [];
+  const failed: { row: number; error: string }[] = [];
+
+  for (const { row, buyerId, updatedAt, changes } of updateRows) {
+    const data = Object.fromEntries(
+      Object.entries(changes).map(([field, change]) => [field, change.new])
+    ) as BuyerChanges;
+
+    const update: BuyerChanges = { ...data, updatedAt: updatedAt.toISOString() };
+    const options = { details: { batchId } };
+    const result = tx
+      ? await saveBuyerUpdate(tx, user, buyerId, update, options)
+      : await updateBuyer(user, buyerId, update, options);
+
+    if (result.success) {
+      updated.push({ row, id: buyerId });
+    } else {
+      failed.push({ row, error: result.error });
+    }
+  }
+
+  return { updated, failed };
+}
+
+// Save validated rows inside the caller's transaction; also used by background import jobs
+export async function createImportedBuyers(
+  tx: Prisma.TransactionClient,
+  user: User,
+  validRows: ValidImportRow[],
+  assignmentContext: AssignmentContext,
+  batchId: string
+): Promise<{ row: number; id: string }[]> {
+  const created: { row: number; id: string }[] = [];
+
+  for (const { row, data } of validRows) {
+    const assignment = assignOwner(assignmentContext, data, user.id);
+    const { visitDate, dropReason, ...fields } = data;
+    const buyer = await tx.buyer.create({
+      data: {
+        ...fields,
+        // As in updateBuyer, status details are only kept in the status that records them
+        ...(fields.status === 'DROPPED' && { dropReason }),
+        ...(fields.status === 'VISITED' && visitDate && { visitedAt: new Date(visitDate) }),
+        tags: connectTags(data.tags),
+        ownerId: assignment.ownerId,
+        importBatchId: batchId,
+      },
+      select: { id: true }
+    });
+
+    await tx.buyerHistory.create({
+      data: {
+        buyerId: buyer.id,
+        changedBy: user.id,
+        diff: {
+          action: 'imported',
+          fields: data,
+          assignment,
+          batchId,
+        },
+      },
+    });
+
+    created.push({ row, id: buyer.id });
+  }
+
+  return created;
+}
@@ -0,0 +1,77 @@
+import busboy from 'busboy';
+import { Readable, Transform } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { pipeline } from 'stream/promises';
+
+// Multipart uploads read as a stream, so a large file goes wherever the handler
+// sends it (e.g. to disk) without the whole request body being held in memory.
+// Fields have to come before the file to reach the handler.
+
+export const FILE_TOO_LARGE = 'Uploaded file is too large';
+
+export interface MultipartFile {
+  // The form field the file was sent in
+  field: string;
+  fileName: string;
+  mimeType: string;
+  // Errors with FILE_TOO_LARGE once more than the allowed bytes have been read
+  content: Readable;
+}
+
+export type MultipartFileHandler<T> = (file: MultipartFile, fields: Record<string, string>) => Promise<T>;
+
+// Read a multipart body, passing its first file and the fields before it to onFile while
+// the body is still arriving. Resolves with onFile's result, or undefined without a file.
+// Whatever onFile leaves unread is discarded.
+export async function readMultipart<T>(
+  request: Request,
+  maxFileBytes: number,
+  onFile: MultipartFileHandler<T>
+): Promise<T | undefined> {
+  const contentType = request.headers.get('content-type') ?? '';
+  if (!request.body || !contentType.startsWith('multipart/form-data')) {
+    return undefined;
+  }
+
+  const parser = busboy({ headers: { 'content-type': contentType }, limits: { files: 1 } });
+  const fields: Record<string, string> = {};
+  let handled: Promise<{ ok: true; result: T } | { ok: false; error: unknown }> | undefined;
+
+  parser.on('field', (name, value) => {
+    fields[name] = value;
+  });
+
+  parser.on('file', (field, stream, info) => {
+    let bytes = 0;
+    const content = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytes += chunk.length;
+        callback(bytes > maxFileBytes ? new Error(FILE_TOO_LARGE) : null, chunk);
+      },
+    });
+    stream.on('error', error => content.destroy(error));
+    stream.pipe(content);
+
+    handled = onFile({ field, fileName: info.filename, mimeType: info.mimeType, content }, { ...fields })
+      .then(
+        result => ({ ok: true as const, result }),
+        error => ({ ok: false as const, error })
+      )
+      .finally(() => {
+        // Drain the rest so the parser can reach the end of the body
+        stream.unpipe(content);
+        stream.resume();
+      });
+  });
+
+  await pipeline(Readable.fromWeb(request.body as NodeReadableStream), parser);
+
+  if (!handled) {
+    return undefined;
+  }
+  const outcome = await handled;
+  if (!outcome.ok) {
+    throw outcome.error;
+  }
+  return outcome.result;
+}
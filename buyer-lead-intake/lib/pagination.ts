@@ -0,0 +1,262 @@
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from './db';
+import { BuyerSortSchema, DEFAULT_BUYER_SORT, StatusSchema, TimelineSchema, type BuyerSort } from './validation';
+
+// Sorting and cursor pagination for the buyers list.
+// Cursors are opaque base64url tokens holding the sort key and the (value, id) of the
+// row at the page boundary, so pages stay stable when rows are added or removed.
+// Relevance-ranked search results page by offset into the ranked id list instead.
+// Status and timeline sort by rank (pipeline order, soonest first), not alphabetically.
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 100;
+
+type SortField = 'updatedAt' | 'createdAt' | 'fullName' | 'budgetMin' | 'status' | 'timeline';
+type Direction = 'asc' | 'desc';
+
+const SORT_FIELDS: Record<string, SortField> = {
+  updatedAt: 'updatedAt',
+  createdAt: 'createdAt',
+  name: 'fullName',
+  budget: 'budgetMin',
+  status: 'status',
+  timeline: 'timeline',
+};
+
+const DATE_FIELDS = new Set<SortField>(['updatedAt', 'createdAt']);
+
+// Nullable sort columns always put empty values last
+const NULLABLE_FIELDS = new Set<SortField>(['budgetMin']);
+
+// Enum columns sorted by their position in the schema rather than by name. Prisma can't
+// order by a computed rank, so these are read one value at a time, in rank order.
+const RANKED_FIELDS: Partial<Record<SortField, readonly string[]>> = {
+  status: StatusSchema.options,
+  timeline: TimelineSchema.options,
+};
+
+export interface BuyerSortOrder {
+  sort: BuyerSort;
+  field: SortField;
+  direction: Direction;
+}
+
+const CursorSchema = z.union([
+  z.object({
+    s: z.string(),
+    k: z.tuple([z.union([z.string(), z.number(), z.null()]), z.string()]),
+    b: z.boolean().optional(),
+  }),
+  z.object({
+    o: z.number().int().min(0),
+  }),
+]);
+
+type Cursor = z.infer<typeof CursorSchema>;
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(value: string | null): Cursor | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const result = CursorSchema.safeParse(JSON.parse(Buffer.from(value, 'base64url').toString('utf8')));
+    if (result.success) {
+      return result.data;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid cursor');
+}
+
+export function parseSort(value: string | null): BuyerSortOrder {
+  const sort = BuyerSortSchema.parse(value || DEFAULT_BUYER_SORT);
+  const [key, direction] = sort.split(':') as [string, Direction];
+  return { sort, field: SORT_FIELDS[key], direction };
+}
+
+// Page size defaults to 10 and is clamped to 1..100
+export function parseLimit(value: string | null): number {
+  const limit = parseInt(value || '', 10);
+  if (isNaN(limit)) {
+    return DEFAULT_PAGE_SIZE;
+  }
+  return Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+}
+
+function flip(direction: Direction): Direction {
+  return direction === 'asc' ? 'desc' : 'asc';
+}
+
+// Order by the sort field, then id as a tie-breaker. Going backwards reverses everything,
+// including where empty values fall.
+export function sortOrderBy(order: BuyerSortOrder, backwards = false): Prisma.BuyerOrderByWithRelationInput[] {
+  const direction = backwards ? flip(order.direction) : order.direction;
+  const fieldOrder = NULLABLE_FIELDS.has(order.field)
+    ? { [order.field]: { sort: direction, nulls: backwards ? 'first' : 'last' } }
+    : { [order.field]: direction };
+
+  return [fieldOrder, { id: direction }];
+}
+
+// Rows strictly after (or, going backwards, before) the boundary row in sort order
+export function cursorWhere(
+  order: BuyerSortOrder,
+  [value, id]: [string | number | null, string],
+  backwards = false
+): Prisma.BuyerWhereInput {
+  const ascending = (order.direction === 'asc') !== backwards;
+  const op = ascending ? 'gt' : 'lt';
+  const field = order.field;
+  const boundary = value !== null && DATE_FIELDS.has(field) ? new Date(value) : value;
+
+  if (boundary === null) {
+    // Empty values sort last, so every non-empty value comes before them
+    return backwards
+      ? { OR: [{ [field]: { not: null } }, { [field]: null, id: { [op]: id } }] }
+      : { [field]: null, id: { [op]: id } };
+  }
+
+  const conditions: Prisma.BuyerWhereInput[] = [
+    { [field]: { [op]: boundary } },
+    { [field]: boundary, id: { [op]: id } },
+  ];
+  if (!backwards && NULLABLE_FIELDS.has(field)) {
+    conditions.push({ [field]: null });
+  }
+  return { OR: conditions };
+}
+
+type BuyerRow = { id: string } & Record<SortField, unknown>;
+
+function rowKey(order: BuyerSortOrder, row: BuyerRow): [string | number | null, string] {
+  const value = row[order.field];
+  if (value instanceof Date) {
+    return [value.toISOString(), row.id];
+  }
+  return [value as string | number | null, row.id];
+}
+
+// A ranked field's values in the order rows are read: rank order, reversed for
+// descending sorts and again when going backwards
+export function rankedValues(order: BuyerSortOrder, backwards = false): readonly string[] {
+  const values = RANKED_FIELDS[order.field] ?? [];
+  const ascending = (order.direction === 'asc') !== backwards;
+  return ascending ? values : [...values].reverse();
+}
+
+// Buyers in sort order, starting after the cursor's boundary row if one is given
+export async function findBuyersInOrder<T extends Prisma.BuyerInclude>(
+  where: Prisma.BuyerWhereInput,
+  order: BuyerSortOrder,
+  include: T,
+  { boundary, backwards = false, take }: { boundary?: [string | number | null, string]; backwards?: boolean; take?: number } = {}
+) {
+  if (!RANKED_FIELDS[order.field]) {
+    return prisma.buyer.findMany({
+      where: boundary ? { AND: [where, cursorWhere(order, boundary, backwards)] } : where,
+      include,
+      orderBy: sortOrderBy(order, backwards),
+      take,
+    });
+  }
+
+  const values = rankedValues(order, backwards);
+  const idDirection = (order.direction === 'asc') !== backwards ? 'asc' : 'desc';
+  const start = boundary ? values.indexOf(boundary[0] as string) : 0;
+  if (start < 0) {
+    throw new Error('Invalid cursor');
+  }
+
+  const rows = [];
+  for (const value of values.slice(start)) {
+    const idCondition = boundary && value === boundary[0]
+      ? { id: { [idDirection === 'asc' ? 'gt' : 'lt']: boundary[1] } }
+      : {};
+    rows.push(...await prisma.buyer.findMany({
+      where: { AND: [where, { [order.field]: value, ...idCondition }] },
+      include,
+      orderBy: { id: idDirection },
+      take: take === undefined ? undefined : take - rows.length,
+    }));
+    if (take !== undefined && rows.length >= take) {
+      break;
+    }
+  }
+  return rows;
+}
+
+// Fetch one page of buyers in sort order using keyset pagination
+export async function fetchSortedPage<T extends Prisma.BuyerInclude>(
+  where: Prisma.BuyerWhereInput,
+  order: BuyerSortOrder,
+  limit: number,
+  cursor: Cursor | null,
+  include: T
+) {
+  if (cursor && (!('k' in cursor) || cursor.s !== order.sort)) {
+    throw new Error('Invalid cursor');
+  }
+
+  const backwards = !!cursor?.b;
+  const rows = await findBuyersInOrder(where, order, include, {
+    boundary: cursor?.k,
+    backwards,
+    take: limit + 1,
+  });
+
+  const hasMore = rows.length > limit;
+  const buyers = rows.slice(0, limit);
+  if (backwards) {
+    buyers.reverse();
+  }
+
+  const first = buyers[0] as unknown as BuyerRow | undefined;
+  const last = buyers[buyers.length - 1] as unknown as BuyerRow | undefined;
+  const hasNext = backwards ? !!cursor : hasMore;
+  const hasPrev = backwards ? hasMore : !!cursor;
+
+  return {
+    buyers,
+    nextCursor: hasNext && last ? encodeCursor({ s: order.sort, k: rowKey(order, last) }) : null,
+    prevCursor: hasPrev && first ? encodeCursor({ s: order.sort, k: rowKey(order, first), b: true }) : null,
+  };
+}
+
+// Fetch one page of relevance-ranked search results
+export async function fetchRankedPage<T extends Prisma.BuyerInclude>(
+  where: Prisma.BuyerWhereInput,
+  rankedIds: string[],
+  limit: number,
+  cursor: Cursor | null,
+  include: T
+) {
+  if (cursor && !('o' in cursor)) {
+    throw new Error('Invalid cursor');
+  }
+
+  // Apply the remaining filters, then page through the matches in rank order
+  const matches = await prisma.buyer.findMany({ where, select: { id: true } });
+  const matchIds = new Set(matches.map(match => match.id));
+  const orderedIds = rankedIds.filter(id => matchIds.has(id));
+
+  const offset = cursor?.o ?? 0;
+  const pageIds = orderedIds.slice(offset, offset + limit);
+  const rows = await prisma.buyer.findMany({
+    where: { id: { in: pageIds } },
+    include,
+  });
+  const position = new Map(pageIds.map((id, index) => [id, index]));
+
+  return {
+    buyers: rows.sort((a, b) => position.get(a.id)! - position.get(b.id)!),
+    nextCursor: offset + limit < orderedIds.length ? encodeCursor({ o: offset + limit }) : null,
+    prevCursor: offset > 0 ? encodeCursor({ o: Math.max(offset - limit, 0) }) : null,
+  };
+}
@@ -0,0 +1,149 @@
+import type { Prisma } from '@prisma/client';
+import type { User } from './auth';
+
+// Central authorization rules for buyer leads.
+// - AGENT: sees and edits only their own leads
+// - TEAM_LEAD: sees every lead owned by their team, edits only their own
+// - ADMIN: sees and edits everything, and may change ownerId
+
+export type BuyerAction = 'view' | 'edit' | 'delete' | 'reassign';
+
+export interface BuyerAccessTarget {
+  ownerId: string;
+  owner?: { teamId: string | null } | null;
+}
+
+// Select clause that loads everything canAccessBuyer needs
+export const buyerAccessSelect = {
+  id: true,
+  ownerId: true,
+  updatedAt: true,
+  owner: {
+    select: { teamId: true }
+  }
+} as const;
+
+export function isAdmin(user: User): boolean {
+  return user.role === 'ADMIN';
+}
+
+// Prisma where clause limiting a query to the buyers the user may see
+export function buyerScope(user: User): Prisma.BuyerWhereInput {
+  if (isAdmin(user)) {
+    return {};
+  }
+
+  if (user.role === 'TEAM_LEAD' && user.teamId) {
+    return {
+      OR: [
+        { ownerId: user.id },
+        { owner: { teamId: user.teamId } },
+      ],
+    };
+  }
+
+  return { ownerId: user.id };
+}
+
+// The same scope as a raw SQL condition, over buyers aliased "b" joined to their owner as "u"
+export function buyerScopeSql(user: User): { sql: string; params: string[] } {
+  if (isAdmin(user)) {
+    return { sql: '1 = 1', params: [] };
+  }
+
+  if (user.role === 'TEAM_LEAD' && user.teamId) {
+    return { sql: '(b.ownerId = ? OR u.teamId = ?)', params: [user.id, user.teamId] };
+  }
+
+  return { sql: 'b.ownerId = ?', params: [user.id] };
+}
+
+export function canAccessBuyer(user: User, action: BuyerAction, buyer: BuyerAccessTarget): boolean {
+  if (isAdmin(user)) {
+    return true;
+  }
+
+  const isOwner = buyer.ownerId === user.id;
+
+  switch (action) {
+    case 'view':
+      return isOwner || (
+        user.role === 'TEAM_LEAD' &&
+        !!user.teamId &&
+        buyer.owner?.teamId === user.teamId
+      );
+    case 'edit':
+    case 'delete':
+      return isOwner;
+    case 'reassign':
+      return false;
+  }
+}
+
+// Only admins may create or move leads on behalf of another user
+export function canAssignOwner(user: User, ownerId: string): boolean {
+  return ownerId === user.id || isAdmin(user);
+}
+
+export function canManageUsers(user: User): boolean {
+  return isAdmin(user);
+}
+
+export function canManageAssignmentRules(user: User): boolean {
+  return isAdmin(user);
+}
+
+// Saved views: your own, plus views your teammates have shared
+export function savedViewScope(user: User): Prisma.SavedViewWhereInput {
+  if (!user.teamId) {
+    return { ownerId: user.id };
+  }
+
+  return {
+    OR: [
+      { ownerId: user.id },
+      { shared: true, owner: { teamId: user.teamId } },
+    ],
+  };
+}
+
+// Purging skips the trash and can't be undone, and retention applies to everyone's leads
+export function canPurgeBuyers(user: User): boolean {
+  return isAdmin(user);
+}
+
+// Import history: admins see every import, everyone else the imports they ran
+export function importBatchScope(user: User): Prisma.ImportBatchWhereInput {
+  return isAdmin(user) ? {} : { ownerId: user.id };
+}
+
+// A rollback trashes leads the assignment engine may have given to other agents,
+// so it is limited to whoever ran the import and admins
+export function canRollbackImport(user: User, batch: { ownerId: string }): boolean {
+  return isAdmin(user) || batch.ownerId === user.id;
+}
+
+// Renaming, merging and deleting tags affects every lead, so it is admin only
+export function canManageTags(user: User): boolean {
+  return isAdmin(user);
+}
+
+export interface TaskAccessTarget {
+  assigneeId: string;
+  buyer: BuyerAccessTarget;
+}
+
+// Tasks follow their lead: the lead's editors manage them, and an assignee may
+// also reschedule, annotate and complete their own task
+export function canAccessTask(user: User, action: 'edit' | 'delete', task: TaskAccessTarget): boolean {
+  if (action === 'edit' && task.assigneeId === user.id) {
+    return true;
+  }
+
+  return canAccessBuyer(user, 'edit', task.buyer);
+}
+
+// A lead's tasks go to its owner; only admins hand them to someone else
+export function canAssignTask(user: User, assigneeId: string, buyer: BuyerAccessTarget): boolean {
+  return assigneeId === buyer.ownerId || canAssignOwner(user, assigneeId);
+}
@@ -0,0 +1,90 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import type { User } from './auth';
+import { buyerAccessSelect, canAccessBuyer } from './permissions';
+
+export interface ReassignResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+// The rest of an ownership change, once the buyer's ownerId is saved: open follow-ups
+// the previous owner had on the lead go with it, and a `reassigned` history entry is
+// written. Shared with updateBuyer so the edit form moves tasks the same way.
+export async function completeReassignment(
+  tx: Prisma.TransactionClient,
+  changedBy: string,
+  buyerId: string,
+  oldOwnerId: string,
+  ownerId: string,
+  reason?: string
+) {
+  await tx.task.updateMany({
+    where: { buyerId, assigneeId: oldOwnerId, completedAt: null },
+    data: { assigneeId: ownerId }
+  });
+
+  await tx.buyerHistory.create({
+    data: {
+      buyerId,
+      changedBy,
+      diff: {
+        action: 'reassigned',
+        fields: {
+          ownerId: { old: oldOwnerId, new: ownerId },
+        },
+        ...(reason && { reason }),
+      },
+    },
+  });
+}
+
+// Transfer buyers (and the old owner's open tasks on them) to a new owner, recording
+// a `reassigned` history entry for each.
+// Buyers the user may not reassign are reported per row instead of failing the batch.
+export async function reassignBuyers(
+  user: User,
+  buyerIds: string[],
+  ownerId: string,
+  reason?: string
+): Promise<ReassignResult[]> {
+  const buyers = await prisma.buyer.findMany({
+    where: { id: { in: buyerIds }, deletedAt: null },
+    select: buyerAccessSelect
+  });
+  const buyersById = new Map(buyers.map(buyer => [buyer.id, buyer]));
+
+  const results: ReassignResult[] = [];
+  const toReassign: { id: string; oldOwnerId: string }[] = [];
+
+  for (const id of new Set(buyerIds)) {
+    const buyer = buyersById.get(id);
+
+    if (!buyer) {
+      results.push({ id, success: false, error: 'Buyer not found' });
+    } else if (!canAccessBuyer(user, 'reassign', buyer)) {
+      results.push({ id, success: false, error: 'You cannot reassign this buyer' });
+    } else if (buyer.ownerId === ownerId) {
+      results.push({ id, success: false, error: 'Buyer is already owned by this user' });
+    } else {
+      toReassign.push({ id, oldOwnerId: buyer.ownerId });
+      results.push({ id, success: true });
+    }
+  }
+
+  if (toReassign.length > 0) {
+    await prisma.$transaction(async (tx) => {
+      for (const { id, oldOwnerId } of toReassign) {
+        await tx.buyer.update({
+          where: { id },
+          data: { ownerId }
+        });
+
+        await completeReassignment(tx, user.id, id, oldOwnerId, ownerId, reason);
+      }
+    });
+  }
+
+  return results;
+}
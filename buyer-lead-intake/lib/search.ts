@@ -0,0 +1,227 @@
+import type { User } from './auth';
+import { prisma } from './db';
+import { buyerScopeSql } from './permissions';
+import { normalizePhone } from './validation';
+
+// Full-text search over buyers backed by an SQLite FTS5 table.
+// The index is kept in sync by triggers on buyers, buyer_tags and tags,
+// so every write path (API, import, seed) is covered without extra code.
+
+const FTS_TABLE = 'buyers_fts';
+const VOCAB_TABLE = 'buyers_fts_vocab';
+const MAX_RESULTS = 1000;
+
+// Column weights for bm25(): buyer_id, full_name, email, phone, notes, tags
+const BM25_WEIGHTS = [0, 10, 5, 5, 1, 3];
+
+const FTS_COLUMNS = 'buyer_id, full_name, email, phone, notes, tags';
+
+// Strip formatting characters, then index both the raw digits and the last 10 digits
+// so numbers stored with a country code still match a local query
+function phoneColumnSql(column: string): string {
+  const digits = ['+', ' ', '-', '(', ')', '.'].reduce(
+    (expr, char) => `replace(${expr}, '${char}', '')`,
+    column
+  );
+  return `${digits} || ' ' || substr(${digits}, -10)`;
+}
+
+const TAGS_SQL = `coalesce((
+  SELECT group_concat(t.name, ' ') FROM buyer_tags bt JOIN tags t ON t.id = bt.tagId WHERE bt.buyerId = b.id
+), '')`;
+
+// SELECT producing index rows for the buyers matched by the given condition on "b"
+function indexRowsSql(condition: string): string {
+  return `SELECT b.id, b.fullName, coalesce(b.email, ''), ${phoneColumnSql('b.phone')}, coalesce(b.notes, ''), ${TAGS_SQL}
+    FROM buyers b WHERE ${condition}`;
+}
+
+// Replace the index rows for the buyers whose ids the subquery returns
+function reindexSql(buyerIds: string): string {
+  return `DELETE FROM ${FTS_TABLE} WHERE buyer_id IN (${buyerIds});
+    INSERT INTO ${FTS_TABLE} (${FTS_COLUMNS}) ${indexRowsSql(`b.id IN (${buyerIds})`)};`;
+}
+
+const TRIGGERS: Record<string, string> = {
+  buyers_fts_insert: `AFTER INSERT ON buyers BEGIN ${reindexSql('SELECT new.id')} END`,
+  buyers_fts_update: `AFTER UPDATE ON buyers BEGIN ${reindexSql('SELECT new.id')} END`,
+  buyers_fts_delete: `AFTER DELETE ON buyers BEGIN DELETE FROM ${FTS_TABLE} WHERE buyer_id = old.id; END`,
+  buyer_tags_fts_insert: `AFTER INSERT ON buyer_tags BEGIN ${reindexSql('SELECT new.buyerId')} END`,
+  buyer_tags_fts_delete: `AFTER DELETE ON buyer_tags BEGIN ${reindexSql('SELECT old.buyerId')} END`,
+  tags_fts_rename: `AFTER UPDATE OF name ON tags BEGIN ${reindexSql('SELECT buyerId FROM buyer_tags WHERE tagId = new.id')} END`,
+};
+
+let indexReady: Promise<void> | null = null;
+
+// Triggers are recreated and the index rebuilt once per process,
+// so changes to the indexed columns never leave a stale trigger behind
+async function createSearchIndex() {
+  await prisma.$executeRawUnsafe(`CREATE VIRTUAL TABLE IF NOT EXISTS ${FTS_TABLE} USING fts5(
+    ${FTS_COLUMNS.replace('buyer_id', 'buyer_id UNINDEXED')},
+    tokenize = 'unicode61 remove_diacritics 2',
+    prefix = '2 3'
+  )`);
+  await prisma.$executeRawUnsafe(
+    `CREATE VIRTUAL TABLE IF NOT EXISTS ${VOCAB_TABLE} USING fts5vocab(${FTS_TABLE}, 'row')`
+  );
+
+  for (const [name, body] of Object.entries(TRIGGERS)) {
+    await prisma.$executeRawUnsafe(`DROP TRIGGER IF EXISTS ${name}`);
+    await prisma.$executeRawUnsafe(`CREATE TRIGGER ${name} ${body}`);
+  }
+
+  await rebuildSearchIndex();
+}
+
+// Create the FTS table and triggers once per process
+export function ensureSearchIndex(): Promise<void> {
+  if (!indexReady) {
+    indexReady = createSearchIndex().catch((error) => {
+      indexReady = null;
+      throw error;
+    });
+  }
+  return indexReady;
+}
+
+// Re-index every buyer from scratch
+export async function rebuildSearchIndex() {
+  await prisma.$transaction([
+    prisma.$executeRawUnsafe(`DELETE FROM ${FTS_TABLE}`),
+    prisma.$executeRawUnsafe(`INSERT INTO ${FTS_TABLE} (${FTS_COLUMNS}) ${indexRowsSql('1 = 1')}`),
+  ]);
+}
+
+// Bounded Levenshtein distance; returns max + 1 as soon as the distance exceeds max
+export function editDistance(a: string, b: string, max = 2): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Allowed typos grow with the word: none for short words, one up to 6 letters, two beyond
+export function typoBudget(token: string): number {
+  if (token.length < 4) return 0;
+  if (token.length <= 6) return 1;
+  return 2;
+}
+
+// A query made of at least 7 digits plus formatting is treated as a phone number
+export function phoneQuery(query: string): string | null {
+  const compact = query.replace(/[\s+\-().]/g, '');
+  if (compact.length >= 7 && /^\d+$/.test(compact)) {
+    return normalizePhone(compact);
+  }
+  return null;
+}
+
+export function tokenizeQuery(query: string): string[] {
+  return query
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0);
+}
+
+function quote(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`;
+}
+
+// Build an FTS5 MATCH expression: every token must match, either as a prefix
+// or as one of its typo-tolerant alternatives from the index vocabulary
+export function buildMatchExpression(tokens: string[], alternatives: Map<string, string[]> = new Map()): string {
+  return tokens
+    .map(token => {
+      const options = [`${quote(token)}*`, ...(alternatives.get(token) ?? []).map(quote)];
+      return options.length === 1 ? options[0] : `(${options.join(' OR ')})`;
+    })
+    .join(' AND ');
+}
+
+// Find indexed terms within each token's typo budget
+async function findAlternatives(tokens: string[]): Promise<Map<string, string[]>> {
+  const alternatives = new Map<string, string[]>();
+  const fuzzyTokens = tokens.filter(token => typoBudget(token) > 0 && !/^\d+$/.test(token));
+  if (fuzzyTokens.length === 0) {
+    return alternatives;
+  }
+
+  const minLength = Math.min(...fuzzyTokens.map(token => token.length)) - 2;
+  const maxLength = Math.max(...fuzzyTokens.map(token => token.length)) + 2;
+  const vocabulary = await prisma.$queryRawUnsafe<{ term: string }[]>(
+    `SELECT term FROM ${VOCAB_TABLE} WHERE length(term) BETWEEN ? AND ?`,
+    minLength,
+    maxLength
+  );
+
+  for (const token of fuzzyTokens) {
+    const budget = typoBudget(token);
+    const matches = vocabulary
+      .map(({ term }) => term)
+      .filter(term => term !== token && editDistance(token, term, budget) <= budget);
+    if (matches.length > 0) {
+      alternatives.set(token, matches);
+    }
+  }
+
+  return alternatives;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  // Only return buyers this user may see
+  user?: User;
+}
+
+// Return ids of live buyers matching the query, best match first. Trashed and
+// out-of-scope buyers are filtered before the limit, so they never take up results.
+export async function searchBuyerIds(
+  query: string,
+  { limit = MAX_RESULTS, user }: SearchOptions = {}
+): Promise<string[]> {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  await ensureSearchIndex();
+
+  const phone = phoneQuery(trimmed);
+  let match: string;
+  if (phone) {
+    match = `phone : ${quote(phone)}*`;
+  } else {
+    const tokens = tokenizeQuery(trimmed);
+    if (tokens.length === 0) {
+      return [];
+    }
+    match = buildMatchExpression(tokens, await findAlternatives(tokens));
+  }
+
+  const scope = user ? buyerScopeSql(user) : { sql: '1 = 1', params: [] };
+  const rows = await prisma.$queryRawUnsafe<{ buyer_id: string }[]>(
+    `SELECT buyer_id FROM ${FTS_TABLE}
+      JOIN buyers b ON b.id = ${FTS_TABLE}.buyer_id
+      JOIN users u ON u.id = b.ownerId
+      WHERE ${FTS_TABLE} MATCH ? AND b.deletedAt IS NULL AND ${scope.sql}
+      ORDER BY bm25(${FTS_TABLE}, ${BM25_WEIGHTS.join(', ')}) LIMIT ?`,
+    match,
+    ...scope.params,
+    limit
+  );
+
+  return rows.map(row => row.buyer_id);
+}
@@ -0,0 +1,63 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './db';
+
+// Tags live in their own table and are linked to buyers through buyer_tags.
+// API responses flatten the links to a sorted list of tag names.
+
+// Include clause that loads a buyer's tag names
+export const buyerTagsInclude = {
+  select: { tag: { select: { name: true } } },
+  orderBy: { tag: { name: 'asc' } },
+} as const;
+
+type WithTagLinks = { tags: { tag: { name: string } }[] };
+
+export function withTagNames<T extends WithTagLinks>(buyer: T): Omit<T, 'tags'> & { tags: string[] } {
+  return { ...buyer, tags: buyer.tags.map(link => link.tag.name) };
+}
+
+// Nested write linking a new buyer to tags by name, creating tags that don't exist yet
+export function connectTags(names: string[]): Prisma.BuyerTagCreateNestedManyWithoutBuyerInput {
+  return {
+    create: names.map(name => ({
+      tag: {
+        connectOrCreate: {
+          where: { name },
+          create: { name },
+        },
+      },
+    })),
+  };
+}
+
+// Nested write replacing all of a buyer's tags
+export function replaceTags(names: string[]): Prisma.BuyerTagUpdateManyWithoutBuyerNestedInput {
+  return {
+    deleteMany: {},
+    ...connectTags(names),
+  };
+}
+
+// Move every buyer from one tag to another, then delete the source tag.
+// Returns how many buyers gained the target tag.
+export async function mergeTags(sourceId: string, targetId: string): Promise<number> {
+  return prisma.$transaction(async (tx) => {
+    const [sourceLinks, targetLinks] = await Promise.all([
+      tx.buyerTag.findMany({ where: { tagId: sourceId }, select: { buyerId: true } }),
+      tx.buyerTag.findMany({ where: { tagId: targetId }, select: { buyerId: true } }),
+    ]);
+
+    const alreadyTagged = new Set(targetLinks.map(link => link.buyerId));
+    const toLink = sourceLinks.filter(link => !alreadyTagged.has(link.buyerId));
+
+    if (toLink.length > 0) {
+      await tx.buyerTag.createMany({
+        data: toLink.map(link => ({ buyerId: link.buyerId, tagId: targetId })),
+      });
+    }
+
+    await tx.tag.delete({ where: { id: sourceId } });
+
+    return toLink.length;
+  });
+}
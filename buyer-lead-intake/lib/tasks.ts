@@ -0,0 +1,59 @@
+import type { Status, TaskType, Timeline } from './validation';
+
+// Days until the next follow-up: the sooner a buyer plans to move, the sooner we call back
+export const FOLLOW_UP_DAYS: Record<Timeline, number> = {
+  ZERO_TO_THREE_MONTHS: 1,
+  THREE_TO_SIX_MONTHS: 3,
+  MORE_THAN_SIX_MONTHS: 7,
+  EXPLORING: 14,
+};
+
+// Hour of day (local time) suggested follow-ups are due
+const FOLLOW_UP_HOUR = 10;
+
+export interface FollowUpSuggestion {
+  type: TaskType;
+  dueAt: Date;
+}
+
+// Default next follow-up for a lead. Qualified and contacted leads are due a site
+// visit, everyone else a call. Closed leads (converted or dropped) get none.
+export function suggestFollowUp(timeline: Timeline, status: Status, from: Date = new Date()): FollowUpSuggestion | null {
+  if (status === 'CONVERTED' || status === 'DROPPED') {
+    return null;
+  }
+
+  const dueAt = new Date(from);
+  dueAt.setDate(dueAt.getDate() + FOLLOW_UP_DAYS[timeline]);
+  dueAt.setHours(FOLLOW_UP_HOUR, 0, 0, 0);
+
+  return {
+    type: status === 'QUALIFIED' || status === 'CONTACTED' ? 'VISIT' : 'CALL',
+    dueAt,
+  };
+}
+
+export type TaskBucket = 'done' | 'overdue' | 'today' | 'upcoming';
+
+// Where a task belongs on a to-do list, relative to the local day of `now`
+export function taskBucket(
+  task: { dueAt: Date | string; completedAt?: Date | string | null },
+  now: Date = new Date()
+): TaskBucket {
+  if (task.completedAt) {
+    return 'done';
+  }
+
+  const dueAt = new Date(task.dueAt);
+  if (dueAt < now) {
+    return 'overdue';
+  }
+
+  return dueAt <= endOfDay(now) ? 'today' : 'upcoming';
+}
+
+export function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
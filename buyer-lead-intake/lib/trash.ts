@@ -0,0 +1,160 @@
+import type { Buyer, Prisma } from '@prisma/client';
+import { prisma } from './db';
+import type { User } from './auth';
+import { buyerAccessSelect, canAccessBuyer } from './permissions';
+
+// Deleting a lead moves it to the trash (deletedAt is set) where it can be restored.
+// Trashed leads are purged for good by an admin, or by the retention job once they
+// have been in the trash longer than the configured number of days.
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const RETENTION_KEY = 'trashRetentionDays';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Leads deleted before this moment are due for purging
+export function retentionCutoff(days: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+// When the retention job will purge a lead deleted at deletedAt
+export function purgeDate(deletedAt: Date, days: number): Date {
+  return new Date(deletedAt.getTime() + days * DAY_MS);
+}
+
+export type TrashBuyerResult =
+  | { success: true }
+  | { success: false; status: number; error: string };
+
+// Soft delete: the lead and its history stay in the trash until restored or purged
+export async function trashBuyer(user: User, id: string): Promise<TrashBuyerResult> {
+  const existingBuyer = await prisma.buyer.findUnique({
+    where: { id, deletedAt: null },
+    select: buyerAccessSelect
+  });
+
+  if (!existingBuyer) {
+    return { success: false, status: 404, error: 'Buyer not found' };
+  }
+
+  if (!canAccessBuyer(user, 'delete', existingBuyer)) {
+    return { success: false, status: 403, error: 'You can only delete your own buyers' };
+  }
+
+  await prisma.$transaction(tx => moveToTrash(tx, user.id, id));
+
+  return { success: true };
+}
+
+export type RestoreBuyerResult =
+  | { success: true; buyer: Buyer }
+  | { success: false; status: number; error: string; mergedInto?: string };
+
+// Move a lead out of the trash. Duplicates trashed by a merge stay there: their
+// history, tasks and activities now belong to the lead they were merged into, so
+// restoring one would bring back an empty copy.
+export async function restoreBuyer(user: User, id: string): Promise<RestoreBuyerResult> {
+  const existingBuyer = await prisma.buyer.findFirst({
+    where: { id, deletedAt: { not: null } },
+    select: buyerAccessSelect
+  });
+
+  if (!existingBuyer) {
+    return { success: false, status: 404, error: 'Buyer not found in trash' };
+  }
+
+  // Whoever may delete a lead may also undo it
+  if (!canAccessBuyer(user, 'delete', existingBuyer)) {
+    return { success: false, status: 403, error: 'You can only restore your own buyers' };
+  }
+
+  const survivorId = await mergedInto(id);
+  if (survivorId) {
+    return {
+      success: false,
+      status: 409,
+      error: 'This buyer was merged into another lead, which now holds its history, tasks and activity',
+      mergedInto: survivorId,
+    };
+  }
+
+  const buyer = await prisma.$transaction(async (tx) => {
+    const restored = await tx.buyer.update({
+      where: { id },
+      data: { deletedAt: null, deletedBy: null }
+    });
+
+    await tx.buyerHistory.create({
+      data: {
+        buyerId: id,
+        changedBy: user.id,
+        diff: { action: 'restored' }
+      }
+    });
+
+    return restored;
+  });
+
+  return { success: true, buyer };
+}
+
+// The lead a trashed buyer was merged into, read from the `deleted` entry that put it in the trash
+async function mergedInto(id: string): Promise<string | null> {
+  const entry = await prisma.buyerHistory.findFirst({
+    where: { buyerId: id },
+    orderBy: { changedAt: 'desc' },
+    select: { diff: true }
+  });
+  const diff = entry?.diff as { action?: string; mergedInto?: unknown } | null | undefined;
+
+  return diff?.action === 'deleted' && typeof diff.mergedInto === 'string' ? diff.mergedInto : null;
+}
+
+// Set deletedAt and write the `deleted` history entry inside the caller's transaction.
+// Merges trash the duplicate this way, with details naming the lead it went into.
+export async function moveToTrash(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  id: string,
+  details: Record<string, Prisma.InputJsonValue> = {}
+) {
+  await tx.buyer.update({
+    where: { id },
+    data: { deletedAt: new Date(), deletedBy: userId }
+  });
+
+  await tx.buyerHistory.create({
+    data: {
+      buyerId: id,
+      changedBy: userId,
+      diff: { action: 'deleted', ...details }
+    }
+  });
+}
+
+export async function getTrashRetentionDays(): Promise<number> {
+  const setting = await prisma.setting.findUnique({
+    where: { key: RETENTION_KEY }
+  });
+
+  return typeof setting?.value === 'number' ? setting.value : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export async function setTrashRetentionDays(days: number, userId: string): Promise<void> {
+  await prisma.setting.upsert({
+    where: { key: RETENTION_KEY },
+    create: { key: RETENTION_KEY, value: days, updatedBy: userId },
+    update: { value: days, updatedBy: userId },
+  });
+}
+
+// Permanently delete trash older than the retention period and return how many leads went.
+// Their history, tags, tasks and activities are removed by the cascades.
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+  const days = await getTrashRetentionDays();
+  const { count } = await prisma.buyer.deleteMany({
+    where: { deletedAt: { lt: retentionCutoff(days, now) } }
+  });
+
+  return count;
+}
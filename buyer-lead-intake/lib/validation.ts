@@ -8,6 +8,84 @@ export const PurposeSchema = z.enum(['BUY', 'RENT']);
 export const TimelineSchema = z.enum(['ZERO_TO_THREE_MONTHS', 'THREE_TO_SIX_MONTHS', 'MORE_THAN_SIX_MONTHS', 'EXPLORING']);
 export const SourceSchema = z.enum(['WEBSITE', 'REFERRAL', 'WALK_IN', 'CALL', 'OTHER']);
 export const StatusSchema = z.enum(['NEW', 'QUALIFIED', 'CONTACTED', 'VISITED', 'NEGOTIATION', 'CONVERTED', 'DROPPED']);
+export const RoleSchema = z.enum(['AGENT', 'TEAM_LEAD', 'ADMIN']);
+export const TaskTypeSchema = z.enum(['CALL', 'VISIT', 'EMAIL']);
+export const ActivityTypeSchema = z.enum(['CALL', 'WHATSAPP', 'EMAIL', 'SITE_VISIT', 'NOTE']);
+export const ActivityOutcomeSchema = z.enum(['INTERESTED', 'NOT_INTERESTED', 'NO_RESPONSE', 'FOLLOW_UP']);
+
+// Tags share one cell in CSV files and one query parameter, separated by commas
+export const TAG_SEPARATOR = ',';
+
+// Tag names are normalized so "VIP " and "vip" are the same tag
+export const TagNameSchema = z.string()
+  .transform(value => normalizeTagName(value))
+  .pipe(z.string()
+    .min(1, 'Tag cannot be empty')
+    .max(30, 'Tags must be at most 30 characters')
+    .refine(value => !value.includes(TAG_SEPARATOR), 'Tags cannot contain commas'));
+
+export const TagListSchema = z.array(TagNameSchema)
+  .max(20, 'At most 20 tags are allowed')
+  .transform(tags => [...new Set(tags)]);
+
+// Tags from the old comma-separated buyers.tags column. Names that are no longer
+// valid are dropped, and only the first 20 are kept.
+export function legacyTagNames(value: string | null): string[] {
+  const names = (value ?? '').split(TAG_SEPARATOR).flatMap(part => {
+    const parsed = TagNameSchema.safeParse(part);
+    return parsed.success ? [parsed.data] : [];
+  });
+  return [...new Set(names)].slice(0, 20);
+}
+
+// Status pipeline. Leads move forward through the stages, may step back one stage
+// for follow-ups, and can be dropped from any open stage. CONVERTED is final;
+// DROPPED leads can only be reopened as NEW.
+export const STATUS_TRANSITIONS: Record<Status, readonly Status[]> = {
+  NEW: ['QUALIFIED', 'CONTACTED', 'DROPPED'],
+  QUALIFIED: ['CONTACTED', 'VISITED', 'DROPPED'],
+  CONTACTED: ['QUALIFIED', 'VISITED', 'NEGOTIATION', 'DROPPED'],
+  VISITED: ['CONTACTED', 'NEGOTIATION', 'DROPPED'],
+  NEGOTIATION: ['VISITED', 'CONVERTED', 'DROPPED'],
+  CONVERTED: [],
+  DROPPED: ['NEW'],
+};
+
+// Data a lead must carry when it moves into these statuses
+export const STATUS_REQUIREMENTS: Partial<Record<Status, { field: 'dropReason' | 'visitDate'; message: string }>> = {
+  DROPPED: { field: 'dropReason', message: 'A reason is required to drop a lead' },
+  VISITED: { field: 'visitDate', message: 'A visit date is required to mark a lead as visited' },
+};
+
+export const DropReasonSchema = z.string()
+  .trim()
+  .min(3, 'Drop reason must be at least 3 characters')
+  .max(500, 'Drop reason must be at most 500 characters');
+
+export const VisitDateSchema = z.iso.date('Visit date must be a date (YYYY-MM-DD)')
+  .refine(value => new Date(value) <= new Date(), 'Visit date cannot be in the future');
+
+// Returns why a status change is not allowed, or null when it is
+export function statusTransitionError(
+  from: Status,
+  to: Status,
+  data: { dropReason?: string; visitDate?: string }
+): string | null {
+  if (from === to) {
+    return null;
+  }
+
+  if (!STATUS_TRANSITIONS[from].includes(to)) {
+    return `A ${from} lead cannot be moved to ${to}`;
+  }
+
+  const requirement = STATUS_REQUIREMENTS[to];
+  if (requirement && !data[requirement.field]) {
+    return requirement.message;
+  }
+
+  return null;
+}
 
 // Main buyer validation schema
 export const BuyerSchema = z.object({
@@ -24,7 +102,7 @@ export const BuyerSchema = z.object({
   source: SourceSchema,
   status: StatusSchema.default('NEW'),
   notes: z.string().max(1000, 'Notes must be at most 1000 characters').optional(),
-  tags: z.string().optional().default(''),
+  tags: TagListSchema.optional().default([]),
 }).refine(
   (data) => {
     // BHK is required for Apartment and Villa
@@ -51,11 +129,102 @@ export const BuyerSchema = z.object({
   }
 );
 
-// Schema for creating a new buyer
-export const CreateBuyerSchema = BuyerSchema.omit({ status: true });
+// Schema for creating a new buyer (ownerId is only honoured for admins)
+export const CreateBuyerSchema = BuyerSchema.omit({ status: true }).extend({
+  ownerId: z.string().optional(),
+});
+
+// Schema for updating a buyer; updatedAt carries the version the client last saw.
+// status and tags are redeclared without defaults so omitting them leaves them unchanged.
+export const UpdateBuyerSchema = BuyerSchema.partial().extend({
+  status: StatusSchema.optional(),
+  tags: TagListSchema.optional(),
+  ownerId: z.string().optional(),
+  updatedAt: z.string().optional(),
+  dropReason: DropReasonSchema.optional(),
+  visitDate: VisitDateSchema.optional(),
+});
+
+// Schema for transferring one or more buyers to another user
+export const ReassignBuyersSchema = z.object({
+  buyerIds: z.array(z.string()).min(1, 'Select at least one buyer').max(100, 'At most 100 buyers can be reassigned at once'),
+  ownerId: z.string().min(1, 'New owner is required'),
+  reason: z.string().max(500, 'Reason must be at most 500 characters').optional(),
+});
 
-// Schema for updating a buyer
-export const UpdateBuyerSchema = BuyerSchema.partial();
+// Bulk actions on a selection from the buyers list. Each buyer is checked and
+// reported on separately, so one row failing doesn't stop the rest.
+export const BULK_ACTIONS = ['status', 'addTags', 'removeTags', 'reassign', 'delete', 'export'] as const;
+
+const BulkBuyerIdsSchema = z.array(z.string())
+  .min(1, 'Select at least one buyer')
+  .max(100, 'At most 100 buyers can be changed at once');
+
+const BulkTagsSchema = TagListSchema.refine(tags => tags.length > 0, 'Enter at least one tag');
+
+export const BulkActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('status'),
+    buyerIds: BulkBuyerIdsSchema,
+    status: StatusSchema,
+    dropReason: DropReasonSchema.optional(),
+    visitDate: VisitDateSchema.optional(),
+  }),
+  z.object({
+    action: z.literal('addTags'),
+    buyerIds: BulkBuyerIdsSchema,
+    tags: BulkTagsSchema,
+  }),
+  z.object({
+    action: z.literal('removeTags'),
+    buyerIds: BulkBuyerIdsSchema,
+    tags: BulkTagsSchema,
+  }),
+  z.object({
+    action: z.literal('reassign'),
+    buyerIds: BulkBuyerIdsSchema,
+    ownerId: z.string().min(1, 'New owner is required'),
+    reason: z.string().max(500, 'Reason must be at most 500 characters').optional(),
+  }),
+  z.object({
+    action: z.literal('delete'),
+    buyerIds: BulkBuyerIdsSchema,
+  }),
+  z.object({
+    action: z.literal('export'),
+    buyerIds: BulkBuyerIdsSchema,
+  }),
+], { message: `Action must be one of ${BULK_ACTIONS.join(', ')}` });
+
+// Schema for checking a lead against existing buyers before it is saved
+export const DuplicateCheckSchema = z.object({
+  fullName: z.string().default(''),
+  phone: z.string().default(''),
+  email: z.string().optional(),
+  excludeId: z.string().optional(),
+});
+
+// Fields a merge may take from either record; owner, tags and history are handled separately
+export const MERGE_FIELDS = [
+  'fullName', 'email', 'phone', 'city', 'propertyType', 'bhk', 'purpose',
+  'budgetMin', 'budgetMax', 'timeline', 'source', 'status', 'notes',
+] as const;
+
+// Schema for merging a duplicate lead into the record that is kept.
+// fields says which record each field is taken from; the updatedAt values guard against stale screens.
+export const MergeBuyersSchema = z.object({
+  survivorId: z.string().min(1, 'Record to keep is required'),
+  duplicateId: z.string().min(1, 'Duplicate record is required'),
+  fields: z.partialRecord(z.enum(MERGE_FIELDS), z.enum(['survivor', 'duplicate'])).default({}),
+  survivorUpdatedAt: z.string().optional(),
+  duplicateUpdatedAt: z.string().optional(),
+}).refine(
+  (data) => data.survivorId !== data.duplicateId,
+  {
+    message: 'A buyer cannot be merged into itself',
+    path: ['duplicateId'],
+  }
+);
 
 // Schema for CSV import validation
 export const CSVBuyerSchema = z.object({
@@ -83,8 +252,14 @@ export const CSVBuyerSchema = z.object({
   }),
   timeline: TimelineSchema,
   source: SourceSchema,
+  // Imported leads start as NEW unless the file says otherwise, e.g. a re-imported export
+  status: StatusSchema.optional(),
+  dropReason: DropReasonSchema.optional(),
+  visitDate: VisitDateSchema.optional(),
   notes: z.string().max(1000, 'Notes must be at most 1000 characters').optional(),
-  tags: z.string().optional().default(''),
+  tags: z.string().optional()
+    .transform(val => val ? val.split(TAG_SEPARATOR).map(tag => tag.trim()).filter(Boolean) : [])
+    .pipe(TagListSchema),
 }).refine(
   (data) => {
     // BHK is required for Apartment and Villa
@@ -125,29 +300,514 @@ export const CSVBuyerSchema = z.object({
   }
 );
 
+// Import column mapping. Every import field maps from at most one column of the
+// uploaded file; rows are then validated against CSVBuyerSchema. `id` is only read
+// by upsert imports, to pick the lead a row updates.
+export const IMPORT_FIELDS = ['id', 'fullName', 'email', 'phone', 'city', 'propertyType', 'bhk', 'purpose', 'budgetMin', 'budgetMax', 'timeline', 'source', 'status', 'dropReason', 'visitDate', 'notes', 'tags'] as const;
+export const REQUIRED_IMPORT_FIELDS = ['fullName', 'phone', 'city', 'propertyType', 'purpose', 'timeline', 'source'] as const;
+export const MAX_IMPORT_ROWS = 200;
+
+// CREATE always inserts; UPSERT updates the lead matching a row's id, phone or email
+export const IMPORT_MODES = ['CREATE', 'UPSERT'] as const;
+export const ImportModeSchema = z.enum(IMPORT_MODES);
+
+export const ImportFieldSchema = z.enum(IMPORT_FIELDS);
+
+// Buyer field -> header of the source column it is read from
+export const ImportMappingSchema = z.partialRecord(ImportFieldSchema, z.string().min(1));
+
+export const ImportMappingPresetSchema = z.object({
+  name: z.string().trim().min(1, 'Preset name is required').max(50, 'Preset name must be at most 50 characters'),
+  mapping: ImportMappingSchema,
+});
+
+// Rows after mapping: the cell text for each Buyer field, possibly corrected inline
+export const ImportRowSchema = z.partialRecord(ImportFieldSchema, z.string());
+
+export const ImportRowsSchema = z.object({
+  rows: z.array(ImportRowSchema)
+    .min(1, 'The file has no rows to import')
+    .max(MAX_IMPORT_ROWS, `Maximum ${MAX_IMPORT_ROWS} rows allowed per import`),
+  // Commit the valid rows and skip the rest, instead of rejecting the import
+  skipInvalid: z.boolean().default(false),
+  // Recorded on the import batch
+  fileName: z.string().trim().min(1).max(255).default('import.csv'),
+  mode: ImportModeSchema.default('CREATE'),
+});
+
+// Comma-separated list parameter, e.g. "status=NEW,QUALIFIED"
+function listParam<T extends z.ZodType>(item: T) {
+  return z.preprocess(
+    value => typeof value === 'string' ? value.split(',').map(part => part.trim()).filter(Boolean) : [],
+    z.array(item)
+  );
+}
+
+const budgetParam = z.preprocess(
+  value => value === '' || value == null ? undefined : Number(value),
+  z.number().int('Budget must be a whole number').min(0, 'Budget must be positive').optional()
+);
+
+const dateParam = z.string().optional().refine(
+  value => !value || (/^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value))),
+  { message: 'Dates must be in YYYY-MM-DD format' }
+);
+
+// Query parameters accepted by the buyers list and export endpoints
+export const BUYER_FILTER_KEYS = [
+  'search', 'city', 'propertyType', 'bhk', 'purpose', 'timeline', 'source', 'status',
+  'budgetMin', 'budgetMax', 'tags', 'excludeTags', 'owner',
+  'createdFrom', 'createdTo', 'updatedFrom', 'updatedTo',
+] as const;
+
+// File format of the buyers export; filters apply the same to both
+export const ExportFormatSchema = z.enum(['csv', 'xlsx']).default('csv');
+
+export const BuyerFiltersSchema = z.object({
+  search: z.string().trim().max(200, 'Search must be at most 200 characters').optional().default(''),
+  city: listParam(CitySchema),
+  propertyType: listParam(PropertyTypeSchema),
+  bhk: listParam(BhkSchema),
+  purpose: listParam(PurposeSchema),
+  timeline: listParam(TimelineSchema),
+  source: listParam(SourceSchema),
+  status: listParam(StatusSchema),
+  budgetMin: budgetParam,
+  budgetMax: budgetParam,
+  tags: listParam(TagNameSchema),
+  excludeTags: listParam(TagNameSchema),
+  owner: listParam(z.string()),
+  createdFrom: dateParam,
+  createdTo: dateParam,
+  updatedFrom: dateParam,
+  updatedTo: dateParam,
+}).refine(
+  (data) => {
+    if (data.budgetMin !== undefined && data.budgetMax !== undefined && data.budgetMax < data.budgetMin) {
+      return false;
+    }
+    return true;
+  },
+  {
+    message: 'Maximum budget must be greater than or equal to minimum budget',
+    path: ['budgetMax'],
+  }
+);
+
+// Sort keys accepted by the buyers list, written as "key:direction" (e.g. "budget:asc")
+export const BUYER_SORT_KEYS = ['updatedAt', 'createdAt', 'name', 'budget', 'status', 'timeline'] as const;
+export const DEFAULT_BUYER_SORT = 'updatedAt:desc';
+
+export const BuyerSortSchema = z.templateLiteral(
+  [z.enum(BUYER_SORT_KEYS), ':', z.enum(['asc', 'desc'])],
+  { message: `Sort must be one of ${BUYER_SORT_KEYS.join(', ')} followed by ":asc" or ":desc"` }
+);
+
+// Buyer history actions, as stored in BuyerHistory.diff.action
+export const HISTORY_ACTIONS = ['created', 'updated', 'imported', 'reassigned', 'merged', 'reverted', 'deleted', 'restored'] as const;
+
+export const HistoryFiltersSchema = z.object({
+  action: listParam(z.enum(HISTORY_ACTIONS, { message: `Action must be one of ${HISTORY_ACTIONS.join(', ')}` })),
+});
+
+// Saved buyer list view; filters use the same keys and formats as the list query string
+const SavedViewFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'View name is required').max(40, 'View name must be at most 40 characters'),
+  filters: z.partialRecord(z.enum(BUYER_FILTER_KEYS), z.string()).refine(
+    (filters) => BuyerFiltersSchema.safeParse(filters).success,
+    { message: 'View contains invalid filters' }
+  ),
+  sort: BuyerSortSchema,
+  isDefault: z.boolean(),
+  shared: z.boolean(),
+});
+
+export const SavedViewSchema = SavedViewFieldsSchema.extend({
+  filters: SavedViewFieldsSchema.shape.filters.default({}),
+  sort: BuyerSortSchema.default(DEFAULT_BUYER_SORT),
+  isDefault: z.boolean().default(false),
+  shared: z.boolean().default(false),
+});
+
+// Updates leave omitted fields unchanged
+export const UpdateSavedViewSchema = SavedViewFieldsSchema.partial();
+
+// Follow-up tasks. Due times are ISO timestamps so the browser's timezone is kept;
+// the assignee defaults to the lead's owner.
+export const TaskSchema = z.object({
+  type: TaskTypeSchema,
+  dueAt: z.iso.datetime({ offset: true, message: 'Due date must be a date and time' }),
+  notes: z.string().trim().max(1000, 'Notes must be at most 1000 characters').optional(),
+  assigneeId: z.string().min(1).optional(),
+});
+
+export const UpdateTaskSchema = TaskSchema.partial().extend({
+  completed: z.boolean().optional(),
+});
+
+// Activity log entry. occurredAt defaults to now and may be backdated for calls
+// logged after the fact, but not set in the future (a minute of clock skew is allowed).
+export const ActivitySchema = z.object({
+  type: ActivityTypeSchema,
+  outcome: ActivityOutcomeSchema.optional(),
+  body: z.string().trim().min(1, 'Describe what happened').max(2000, 'Activity must be at most 2000 characters'),
+  occurredAt: z.iso.datetime({ offset: true, message: 'Activity time must be a date and time' })
+    .refine(value => new Date(value).getTime() <= Date.now() + 60 * 1000, 'Activity time cannot be in the future')
+    .optional(),
+});
+
+// Restoring a history version; updatedAt is the version the preview was built from
+export const RevertBuyerSchema = z.object({
+  updatedAt: z.string().min(1, 'updatedAt is required'),
+});
+
+// Days a deleted lead stays in the trash before the retention job purges it
+export const TrashSettingsSchema = z.object({
+  retentionDays: z.number().int('Retention must be a whole number of days')
+    .min(1, 'Retention must be at least 1 day')
+    .max(365, 'Retention cannot exceed 365 days'),
+});
+
+// Tag management schemas
+export const RenameTagSchema = z.object({
+  name: TagNameSchema,
+});
+
+export const MergeTagSchema = z.object({
+  targetId: z.string().min(1, 'Target tag is required'),
+});
+
 // Auth schemas
 export const LoginSchema = z.object({
   email: z.string().email('Invalid email format'),
   password: z.string().min(1, 'Password is required'),
 });
 
+const PasswordSchema = z.string()
+  .min(8, 'Password must be at least 8 characters')
+  .max(72, 'Password must be at most 72 characters');
+
+export const InviteSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  name: z.string().min(2, 'Name must be at least 2 characters').max(80, 'Name must be at most 80 characters').optional(),
+  role: RoleSchema.optional(),
+  teamId: z.string().optional(),
+});
+
+export const SignupSchema = z.object({
+  token: z.string().min(1, 'Invite token is required'),
+  name: z.string().min(2, 'Name must be at least 2 characters').max(80, 'Name must be at most 80 characters').optional(),
+  password: PasswordSchema,
+});
+
+export const ChangePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: PasswordSchema,
+}).refine(
+  (data) => data.currentPassword !== data.newPassword,
+  {
+    message: 'New password must be different from the current password',
+    path: ['newPassword'],
+  }
+);
+
+// User and team management schemas
+export const UpdateUserSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters').max(80, 'Name must be at most 80 characters').optional(),
+  role: RoleSchema.optional(),
+  teamId: z.string().nullable().optional(),
+  inRoundRobin: z.boolean().optional(),
+});
+
+export const TeamSchema = z.object({
+  name: z.string().min(2, 'Team name must be at least 2 characters').max(60, 'Team name must be at most 60 characters'),
+});
+
+// Lead assignment rule schema; every criterion is optional but at least one is required
+export const AssignmentRuleSchema = z.object({
+  name: z.string().min(2, 'Rule name must be at least 2 characters').max(80, 'Rule name must be at most 80 characters'),
+  priority: z.number().int().min(0, 'Priority must be positive').default(0),
+  active: z.boolean().default(true),
+  city: CitySchema.nullable().optional(),
+  propertyType: PropertyTypeSchema.nullable().optional(),
+  purpose: PurposeSchema.nullable().optional(),
+  source: SourceSchema.nullable().optional(),
+  budgetMin: z.number().int().min(0, 'Budget must be positive').nullable().optional(),
+  budgetMax: z.number().int().min(0, 'Budget must be positive').nullable().optional(),
+  assigneeId: z.string().min(1, 'Assignee is required'),
+}).refine(
+  (data) => {
+    if (data.budgetMin != null && data.budgetMax != null && data.budgetMax < data.budgetMin) {
+      return false;
+    }
+    return true;
+  },
+  {
+    message: 'Maximum budget must be greater than or equal to minimum budget',
+    path: ['budgetMax'],
+  }
+).refine(
+  (data) => {
+    return [data.city, data.propertyType, data.purpose, data.source, data.budgetMin, data.budgetMax]
+      .some(value => value != null);
+  },
+  {
+    message: 'A rule must match on at least one field',
+  }
+);
+
 // Types
+export type Status = z.infer<typeof StatusSchema>;
+export type Timeline = z.infer<typeof TimelineSchema>;
 export type Buyer = z.infer<typeof BuyerSchema>;
 export type CreateBuyer = z.infer<typeof CreateBuyerSchema>;
 export type UpdateBuyer = z.infer<typeof UpdateBuyerSchema>;
+export type ReassignBuyers = z.infer<typeof ReassignBuyersSchema>;
+export type BulkAction = z.infer<typeof BulkActionSchema>;
+export type DuplicateCheck = z.infer<typeof DuplicateCheckSchema>;
+export type MergeBuyers = z.infer<typeof MergeBuyersSchema>;
+export type MergeField = typeof MERGE_FIELDS[number];
 export type CSVBuyer = z.infer<typeof CSVBuyerSchema>;
+export type ImportField = typeof IMPORT_FIELDS[number];
+export type ImportMapping = z.infer<typeof ImportMappingSchema>;
+export type ImportMode = z.infer<typeof ImportModeSchema>;
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+export type ImportMappingPreset = z.infer<typeof ImportMappingPresetSchema>;
+export type ImportRow = z.infer<typeof ImportRowSchema>;
+export type BuyerFilters = z.infer<typeof BuyerFiltersSchema>;
+export type BuyerSort = z.infer<typeof BuyerSortSchema>;
+export type HistoryAction = typeof HISTORY_ACTIONS[number];
+export type RevertBuyer = z.infer<typeof RevertBuyerSchema>;
+export type TrashSettings = z.infer<typeof TrashSettingsSchema>;
+export type SavedViewData = z.infer<typeof SavedViewSchema>;
+export type UpdateSavedView = z.infer<typeof UpdateSavedViewSchema>;
 export type LoginData = z.infer<typeof LoginSchema>;
+export type InviteData = z.infer<typeof InviteSchema>;
+export type SignupData = z.infer<typeof SignupSchema>;
+export type ChangePasswordData = z.infer<typeof ChangePasswordSchema>;
+export type UpdateUser = z.infer<typeof UpdateUserSchema>;
+export type TeamData = z.infer<typeof TeamSchema>;
+export type AssignmentRuleData = z.infer<typeof AssignmentRuleSchema>;
+export type RenameTagData = z.infer<typeof RenameTagSchema>;
+export type MergeTagData = z.infer<typeof MergeTagSchema>;
+export type TaskType = z.infer<typeof TaskTypeSchema>;
+export type TaskData = z.infer<typeof TaskSchema>;
+export type UpdateTask = z.infer<typeof UpdateTaskSchema>;
+export type ActivityType = z.infer<typeof ActivityTypeSchema>;
+export type ActivityOutcome = z.infer<typeof ActivityOutcomeSchema>;
+export type ActivityData = z.infer<typeof ActivitySchema>;
+
+// Normalize a phone number to its last 10 digits so "+91 98765-43210" matches "9876543210"
+export function normalizePhone(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  return digits.length > 10 ? digits.slice(-10) : digits;
+}
+
+// Lowercase, trim and collapse whitespace in a tag name
+export function normalizeTagName(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// A problem with one imported row; field is null for rules spanning several fields.
+// A type alias (not an interface) so issues can be stored in import job JSON.
+export type CSVRowIssue = {
+  field: string | null;
+  message: string;
+};
 
 // Helper function to validate CSV row
-export function validateCSVRow(row: any, rowIndex: number): { success: true; data: CSVBuyer } | { success: false; error: string } {
-  try {
-    const data = CSVBuyerSchema.parse(row);
-    return { success: true, data };
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      const errorMessage = error.errors?.map(err => `${err.path.join('.')}: ${err.message}`).join(', ') || 'Validation error';
-      return { success: false, error: `Row ${rowIndex + 1}: ${errorMessage}` };
+export function validateCSVRow(
+  row: Record<string, unknown>,
+  rowIndex: number
+): { success: true; data: CSVBuyer } | { success: false; error: string; issues: CSVRowIssue[] } {
+  const result = CSVBuyerSchema.safeParse(row);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  const issues = result.error.issues.map(issue => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : null,
+    message: issue.message,
+  }));
+  const errorMessage = issues.map(issue => issue.field ? `${issue.field}: ${issue.message}` : issue.message).join(', ');
+  return { success: false, error: `Row ${rowIndex + 1}: ${errorMessage}`, issues };
+}
+
+// Tolerant import values. Spreadsheets say "0-3 months", "3BHK", "Walk-in" or "₹50L"
+// where the schema wants ZERO_TO_THREE_MONTHS, THREE, WALK_IN and 5000000; these are
+// rewritten before validation and each rewrite is reported back to the preview.
+
+// A value the import rewrote before validating it
+export interface ImportCoercion {
+  field: ImportField;
+  from: string;
+  to: string;
+}
+
+// "Walk-in", "walk in" and "WALK_IN" all compare equal
+function valueKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9+<>]/g, '');
+}
+
+function enumMatcher<T extends string>(values: readonly T[], aliases: Record<string, T>) {
+  const lookup = new Map<string, T>();
+  for (const value of values) {
+    lookup.set(valueKey(value), value);
+  }
+  for (const [alias, value] of Object.entries(aliases)) {
+    lookup.set(valueKey(alias), value);
+  }
+  return (value: string): T | undefined => lookup.get(valueKey(value));
+}
+
+const matchCity = enumMatcher(CitySchema.options, {
+  'chd': 'CHANDIGARH',
+  'sas nagar': 'MOHALI',
+  'zkp': 'ZIRAKPUR',
+  'pkl': 'PANCHKULA',
+});
+
+const matchPropertyType = enumMatcher(PropertyTypeSchema.options, {
+  'flat': 'APARTMENT',
+  'apt': 'APARTMENT',
+  'house': 'VILLA',
+  'independent house': 'VILLA',
+  'kothi': 'VILLA',
+  'land': 'PLOT',
+  'commercial office': 'OFFICE',
+  'shop': 'RETAIL',
+  'showroom': 'RETAIL',
+});
+
+const matchBhk = enumMatcher(BhkSchema.options, {
+  '1 rk': 'STUDIO',
+  '1': 'ONE',
+  '1 bhk': 'ONE',
+  '2': 'TWO',
+  '2 bhk': 'TWO',
+  '3': 'THREE',
+  '3 bhk': 'THREE',
+  '4': 'FOUR',
+  '4 bhk': 'FOUR',
+  '4+': 'FOUR',
+  '4+ bhk': 'FOUR',
+});
+
+const matchPurpose = enumMatcher(PurposeSchema.options, {
+  'purchase': 'BUY',
+  'lease': 'RENT',
+});
+
+const matchTimeline = enumMatcher(TimelineSchema.options, {
+  '0-3 months': 'ZERO_TO_THREE_MONTHS',
+  '0-3m': 'ZERO_TO_THREE_MONTHS',
+  '0 to 3 months': 'ZERO_TO_THREE_MONTHS',
+  '<3 months': 'ZERO_TO_THREE_MONTHS',
+  'within 3 months': 'ZERO_TO_THREE_MONTHS',
+  'immediate': 'ZERO_TO_THREE_MONTHS',
+  '3-6 months': 'THREE_TO_SIX_MONTHS',
+  '3-6m': 'THREE_TO_SIX_MONTHS',
+  '3 to 6 months': 'THREE_TO_SIX_MONTHS',
+  '>6 months': 'MORE_THAN_SIX_MONTHS',
+  '6+ months': 'MORE_THAN_SIX_MONTHS',
+  '6m+': 'MORE_THAN_SIX_MONTHS',
+  'more than 6 months': 'MORE_THAN_SIX_MONTHS',
+  'just looking': 'EXPLORING',
+  'not sure': 'EXPLORING',
+});
+
+const matchSource = enumMatcher(SourceSchema.options, {
+  'web': 'WEBSITE',
+  'online': 'WEBSITE',
+  'reference': 'REFERRAL',
+  'referred': 'REFERRAL',
+  'phone': 'CALL',
+  'phone call': 'CALL',
+  'cold call': 'CALL',
+});
+
+const matchStatus = enumMatcher(StatusSchema.options, {
+  'negotiating': 'NEGOTIATION',
+  'closed': 'CONVERTED',
+  'won': 'CONVERTED',
+  'lost': 'DROPPED',
+});
+
+const AMOUNT_UNITS: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  l: 1_00_000,
+  lac: 1_00_000,
+  lacs: 1_00_000,
+  lakh: 1_00_000,
+  lakhs: 1_00_000,
+  cr: 1_00_00_000,
+  crore: 1_00_00_000,
+  crores: 1_00_00_000,
+};
+
+// Rupee amounts in Indian notation: "₹50L", "1.2 Cr", "Rs. 45,000", "50,00,000"
+export function parseIndianAmount(value: string): string | undefined {
+  const match = value
+    .toLowerCase()
+    .replace(/₹|rs\.?|inr|,|\s/g, '')
+    .match(/^(\d+(?:\.\d+)?)([a-z]*)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const multiplier = match[2] ? AMOUNT_UNITS[match[2]] : 1;
+  if (!multiplier) {
+    return undefined;
+  }
+  return String(Math.round(parseFloat(match[1]) * multiplier));
+}
+
+// Digits only, without an Indian country code or trunk prefix: "+91 98765-43210" -> "9876543210"
+export function normalizeImportPhone(value: string): string | undefined {
+  const digits = value.replace(/\D/g, '');
+  if (
+    (digits.length === 12 && digits.startsWith('91')) ||
+    (digits.length === 14 && digits.startsWith('0091')) ||
+    (digits.length === 11 && digits.startsWith('0'))
+  ) {
+    return digits.slice(-10);
+  }
+  return digits.length >= 10 && digits.length <= 15 ? digits : undefined;
+}
+
+const IMPORT_NORMALIZERS: Partial<Record<ImportField, (value: string) => string | undefined>> = {
+  phone: normalizeImportPhone,
+  city: matchCity,
+  propertyType: matchPropertyType,
+  bhk: matchBhk,
+  purpose: matchPurpose,
+  budgetMin: parseIndianAmount,
+  budgetMax: parseIndianAmount,
+  timeline: matchTimeline,
+  source: matchSource,
+  status: matchStatus,
+};
+
+// Rewrite recognisable values into the form CSVBuyerSchema expects. Values that
+// aren't recognised are left alone, so validation reports them as before.
+export function normalizeCSVRow(row: ImportRow): { row: ImportRow; coercions: ImportCoercion[] } {
+  const normalized: ImportRow = { ...row };
+  const coercions: ImportCoercion[] = [];
+
+  for (const field of IMPORT_FIELDS) {
+    const normalize = IMPORT_NORMALIZERS[field];
+    const value = row[field];
+    if (!normalize || !value) {
+      continue;
+    }
+
+    const result = normalize(value.trim());
+    if (result !== undefined && result !== value) {
+      normalized[field] = result;
+      coercions.push({ field, from: value, to: result });
     }
-    return { success: false, error: `Row ${rowIndex + 1}: Invalid data format` };
   }
+
+  return { row: normalized, coercions };
 }
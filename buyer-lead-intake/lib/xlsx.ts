@@ -0,0 +1,174 @@
+import { createWriteStream } from 'fs';
+import { once } from 'events';
+import { pipeline } from 'stream/promises';
+import ExcelJS from 'exceljs';
+import { stringify, type Stringifier } from 'csv-stringify';
+import type { ParsedCsv } from './csv';
+
+// Excel workbooks for imports. One sheet is read into the same header-keyed rows
+// as a CSV, so mapping, normalization and validation don't change with the format.
+
+export interface ParsedSheet extends ParsedCsv {
+  // Every worksheet in the workbook, in tab order
+  sheets: string[];
+  // The sheet the rows were read from
+  sheet: string;
+}
+
+// exceljs declares its own Buffer type, which Node's generic Buffer no longer matches
+export type ExcelBuffer = Parameters<ExcelJS.Xlsx['load']>[0];
+
+export type ReadXlsxResult =
+  | ({ success: true } & ParsedSheet)
+  | { success: false; error: string };
+
+// What Excel shows in a cell: formulas give their result, rich text and links their text.
+// Dates are written as YYYY-MM-DD, the form date fields take; exceljs reads them as
+// midnight UTC, so the UTC parts are the date Excel shows.
+export function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value !== 'object') {
+    return String(value);
+  }
+  if ('richText' in value) {
+    return value.richText.map(part => part.text).join('');
+  }
+  if ('formula' in value || 'sharedFormula' in value) {
+    return cellText(value.result as ExcelJS.CellValue);
+  }
+  if ('text' in value) {
+    return cellText(value.text as ExcelJS.CellValue);
+  }
+  // Error values such as #N/A
+  return '';
+}
+
+// Read the named sheet, or the first one, as header-keyed rows. Headers are trimmed
+// and rows with only blank cells are skipped, as for CSV files.
+export async function readXlsx(content: Buffer, sheetName?: string, limit = Infinity): Promise<ReadXlsxResult> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(content as unknown as ExcelBuffer);
+  } catch {
+    return { success: false, error: 'The file is not a valid Excel workbook' };
+  }
+
+  const sheets = workbook.worksheets.map(worksheet => worksheet.name);
+  const worksheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+  if (!worksheet) {
+    return { success: false, error: sheetName ? `The workbook has no sheet named "${sheetName}"` : 'The workbook has no sheets' };
+  }
+
+  const headers: string[] = [];
+  worksheet.getRow(1).eachCell((cell, column) => {
+    headers[column - 1] = cellText(cell.value).trim();
+  });
+  // Blank header cells leave gaps; those columns are not read
+  const columns = Array.from(headers, header => header ?? '');
+
+  const rows: Record<string, string>[] = [];
+  let totalRows = 0;
+
+  worksheet.eachRow((excelRow, rowNumber) => {
+    if (rowNumber === 1) {
+      return;
+    }
+
+    const row: Record<string, string> = {};
+    columns.forEach((header, index) => {
+      if (header) {
+        row[header] = cellText(excelRow.getCell(index + 1).value);
+      }
+    });
+
+    if (Object.values(row).some(value => value.trim() !== '')) {
+      totalRows++;
+      if (rows.length < limit) {
+        rows.push(row);
+      }
+    }
+  });
+
+  return {
+    success: true,
+    headers: columns.filter(Boolean),
+    rows,
+    totalRows,
+    sheets,
+    sheet: worksheet.name,
+  };
+}
+
+// The streaming reader names each sheet from the workbook, but its typings leave the name out
+type SheetReader = ExcelJS.stream.xlsx.WorksheetReader & { name: string };
+
+async function writeRecord(output: Stringifier, record: string[]): Promise<void> {
+  if (!output.write(record)) {
+    await once(output, 'drain');
+  }
+}
+
+// Copy one sheet of a workbook file into a CSV file, with the headers and rows readXlsx
+// would return. The workbook is read as a stream rather than loaded, so large background
+// imports never hold the whole file, or its CSV, in memory.
+export async function xlsxSheetToCsv(
+  workbookPath: string,
+  csvPath: string,
+  sheetName?: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  const reader = new ExcelJS.stream.xlsx.WorkbookReader(workbookPath, {
+    worksheets: 'emit',
+    sharedStrings: 'cache',
+    styles: 'cache',
+    hyperlinks: 'ignore',
+    entries: 'ignore',
+  });
+  const output = stringify();
+  const written = pipeline(output, createWriteStream(csvPath));
+  let found = false;
+
+  try {
+    for await (const worksheet of reader) {
+      // Every sheet is read to the end, but only the chosen one is copied
+      if (found || (sheetName && (worksheet as SheetReader).name !== sheetName)) {
+        continue;
+      }
+      found = true;
+
+      let headers: string[] = [];
+      for await (const row of worksheet) {
+        if (row.number === 1) {
+          row.eachCell((cell, column) => {
+            headers[column - 1] = cellText(cell.value).trim();
+          });
+          // Blank header cells leave gaps; those columns are not read
+          headers = Array.from(headers, header => header ?? '');
+          await writeRecord(output, headers.filter(Boolean));
+          continue;
+        }
+
+        const values = headers.flatMap((header, index) => header ? [cellText(row.getCell(index + 1).value)] : []);
+        if (values.some(value => value.trim() !== '')) {
+          await writeRecord(output, values);
+        }
+      }
+    }
+  } catch {
+    output.destroy();
+    await written.catch(() => undefined);
+    return { success: false, error: 'The file is not a valid Excel workbook' };
+  }
+
+  output.end();
+  await written;
+
+  if (!found) {
+    return { success: false, error: sheetName ? `The workbook has no sheet named "${sheetName}"` : 'The workbook has no sheets' };
+  }
+  return { success: true };
+}
@@ -6,7 +6,7 @@ export function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
 
   // Public routes that don't require authentication
-  const publicRoutes = ['/login']
+  const publicRoutes = ['/login', '/signup']
   const isPublicRoute = publicRoutes.includes(pathname)
 
   // If user is not authenticated and trying to access protected route
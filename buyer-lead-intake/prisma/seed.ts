@@ -1,16 +1,20 @@
 import { PrismaClient } from '@prisma/client'
 import bcrypt from 'bcryptjs'
+import { suggestFollowUp } from '../lib/tasks'
 
 const prisma = new PrismaClient()
 
 async function main() {
   // Create demo user
+  const passwordHash = await bcrypt.hash('demo123', 10)
   const demoUser = await prisma.user.upsert({
     where: { email: 'demo@example.com' },
-    update: {},
+    update: { passwordHash },
     create: {
       email: 'demo@example.com',
       name: 'Demo User',
+      passwordHash,
+      role: 'ADMIN',
     },
   })
 
@@ -32,7 +36,7 @@ async function main() {
       source: 'WEBSITE' as const,
       status: 'NEW' as const,
       notes: 'Looking for a 2 BHK apartment in Chandigarh. Prefers furnished property.',
-      tags: 'urgent,family',
+      tags: ['urgent', 'family'],
       ownerId: demoUser.id,
     },
     {
@@ -49,7 +53,7 @@ async function main() {
       source: 'REFERRAL' as const,
       status: 'QUALIFIED' as const,
       notes: 'Looking for a villa for rent. Must have parking space.',
-      tags: 'referral,villa',
+      tags: ['referral', 'villa'],
       ownerId: demoUser.id,
     },
     {
@@ -64,7 +68,7 @@ async function main() {
       source: 'WALK_IN' as const,
       status: 'CONTACTED' as const,
       notes: 'Interested in buying a plot for investment.',
-      tags: 'investment,plot',
+      tags: ['investment', 'plot'],
       ownerId: demoUser.id,
     },
     {
@@ -79,8 +83,9 @@ async function main() {
       timeline: 'EXPLORING' as const,
       source: 'CALL' as const,
       status: 'VISITED' as const,
+      visitedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), // Visited three days ago
       notes: 'Looking for office space for new business.',
-      tags: 'office,business',
+      tags: ['office', 'business'],
       ownerId: demoUser.id,
     },
     {
@@ -97,14 +102,26 @@ async function main() {
       source: 'WEBSITE' as const,
       status: 'NEGOTIATION' as const,
       notes: 'Looking for a premium 4 BHK apartment. Budget is flexible.',
-      tags: 'premium,flexible-budget',
+      tags: ['premium', 'flexible-budget'],
       ownerId: demoUser.id,
     },
   ]
 
   for (const buyerData of sampleBuyers) {
     const buyer = await prisma.buyer.create({
-      data: buyerData,
+      data: {
+        ...buyerData,
+        tags: {
+          create: buyerData.tags.map(name => ({
+            tag: {
+              connectOrCreate: {
+                where: { name },
+                create: { name },
+              },
+            },
+          })),
+        },
+      },
     })
 
     // Create initial history entry
@@ -119,6 +136,19 @@ async function main() {
       },
     })
 
+    // Schedule the first follow-up for open leads
+    const followUp = suggestFollowUp(buyer.timeline, buyer.status)
+    if (followUp) {
+      await prisma.task.create({
+        data: {
+          ...followUp,
+          buyerId: buyer.id,
+          assigneeId: demoUser.id,
+          createdBy: demoUser.id,
+        },
+      })
+    }
+
     console.log('Created buyer:', buyer.fullName)
   }
 
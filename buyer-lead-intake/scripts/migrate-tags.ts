@@ -0,0 +1,80 @@
+import { execFileSync } from 'child_process'
+import { readFile, rm, writeFile } from 'fs/promises'
+import path from 'path'
+import { prisma } from '../lib/db'
+import { legacyTagNames } from '../lib/validation'
+
+// One-off upgrade for databases from before the tags table, e.g. `npm run db:migrate-tags`.
+// The old comma-separated buyers.tags column is copied to a file (db push would drop a
+// table of its own), the schema is pushed, which drops the column, and the copy is
+// split into tags linked to each buyer. Safe to run again if it stops part way: the
+// copy is kept until every buyer is linked.
+
+const LEGACY_TAGS_FILE = path.join(__dirname, '..', 'prisma', 'legacy-buyer-tags.json')
+
+type LegacyTags = { id: string; tags: string | null }[]
+
+async function readLegacyTags(): Promise<LegacyTags | null> {
+  try {
+    return JSON.parse(await readFile(LEGACY_TAGS_FILE, 'utf8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+async function copyLegacyTags(): Promise<LegacyTags | null> {
+  const columns = await prisma.$queryRaw<{ name: string }[]>`PRAGMA table_info(buyers)`
+  if (!columns.some(column => column.name === 'tags')) {
+    return null
+  }
+
+  const rows = await prisma.$queryRaw<LegacyTags>`SELECT id, tags FROM buyers WHERE tags IS NOT NULL AND tags <> ''`
+  await writeFile(LEGACY_TAGS_FILE, JSON.stringify(rows))
+  return rows
+}
+
+async function main() {
+  const rows = (await readLegacyTags()) ?? (await copyLegacyTags())
+  if (!rows) {
+    console.log('No comma-separated tags column found; nothing to migrate')
+    return
+  }
+
+  // Let prisma db push have the database to itself
+  await prisma.$disconnect()
+  execFileSync('npx', ['prisma', 'db', 'push', '--accept-data-loss', '--skip-generate'], { stdio: 'inherit' })
+
+  let linked = 0
+  for (const { id: buyerId, tags } of rows) {
+    const names = legacyTagNames(tags)
+    if (names.length === 0) {
+      continue
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const name of names) {
+        const tag = await tx.tag.upsert({ where: { name }, create: { name }, update: {}, select: { id: true } })
+        await tx.buyerTag.upsert({
+          where: { buyerId_tagId: { buyerId, tagId: tag.id } },
+          create: { buyerId, tagId: tag.id },
+          update: {},
+        })
+      }
+    })
+    linked++
+  }
+
+  await rm(LEGACY_TAGS_FILE)
+
+  console.log(`Moved comma-separated tags for ${linked} buyers into the tags table`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,20 @@
+import { prisma } from '../lib/db'
+import { getTrashRetentionDays, purgeExpiredTrash } from '../lib/trash'
+
+// Trash retention job: run daily from cron, e.g. `npm run trash:purge`
+
+async function main() {
+  const days = await getTrashRetentionDays()
+  const purged = await purgeExpiredTrash()
+
+  console.log(`Purged ${purged} buyers deleted more than ${days} days ago`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
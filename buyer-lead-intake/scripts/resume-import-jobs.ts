@@ -0,0 +1,20 @@
+import { prisma } from '../lib/db'
+import { resumeImportJobs } from '../lib/import-jobs'
+
+// Run after a server restart, e.g. `npm run import:resume`, to finish background
+// imports that were interrupted; each continues after its last committed chunk
+
+async function main() {
+  const resumed = await resumeImportJobs()
+
+  console.log(`Resumed ${resumed} import jobs`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })